@@ -0,0 +1,14 @@
+import express from 'express'
+import cors from 'cors'
+
+import routes from './routes'
+import { CATALOG_SIZE_LIMIT } from './routes/apis/products'
+
+const app = express()
+
+app.use(cors())
+app.post('/api/products/import', express.json({ limit: CATALOG_SIZE_LIMIT })) // catalogs are allowed to be larger than other requests
+app.use(express.json());
+app.use('/', routes)
+
+export default app
@@ -1,20 +1,18 @@
-import express from 'express'
-import cors from 'cors'
 import dotenv from 'dotenv'
 
 import './database'
 
-import routes from './routes'
+import app from './app'
+import Ingredient from './models/ingredientModel'
+import { ratingProviderByName } from './lib/ratingProviders'
 
 dotenv.config()
 
-const app = express()
 const PORT = process.env.PORT ? Number(process.env.PORT) : 3000
 
-app.use(cors())
-app.use(express.json());
-app.use('/', routes)
+// Suggest ratings for new ingredients with the chosen provider, if any.
+Ingredient.setRatingProvider(ratingProviderByName(process.env.RATING_PROVIDER))
 
 app.listen(PORT, () => {
 	console.log(`Server is running on http://localhost:${PORT}`)
-})
\ No newline at end of file
+})
@@ -0,0 +1,96 @@
+// A small CSV reader and writer for imports and exports (RFC 4180: quoted fields, escaped quotes and CRLF line endings).
+
+/**
+ * Parses CSV text into rows of fields.
+ *
+ * @param {string} text - The CSV text.
+ * @returns The rows, each an array of fields. Blank lines are skipped.
+ * @throws Will throw an error if a quoted field is not closed.
+ */
+export function parseCsvRows(text: string) {
+	const rows: string[][] = []
+	let row: string[] = []
+	let field = ''
+	let quoted = false
+
+	// Skip the byte order mark that spreadsheet exports often start with.
+	if (text.charCodeAt(0) === 0xfeff) text = text.slice(1)
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i]
+
+		if (quoted) {
+			// A doubled quote is an escaped quote, a single one closes the field.
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"'
+				i++
+			} else if (char === '"') {
+				quoted = false
+			} else {
+				field += char
+			}
+		} else if (char === '"') {
+			quoted = true
+		} else if (char === ',') {
+			row.push(field)
+			field = ''
+		} else if (char === '\n' || char === '\r') {
+			// Treat CRLF as a single line ending.
+			if (char === '\r' && text[i + 1] === '\n') i++
+
+			row.push(field)
+			rows.push(row)
+			row = []
+			field = ''
+		} else {
+			field += char
+		}
+	}
+
+	if (quoted) {
+		throw new Error('Unterminated quoted field in CSV')
+	}
+
+	// Add the last row, if the text doesn't end with a line ending.
+	if (field !== '' || row.length > 0) {
+		row.push(field)
+		rows.push(row)
+	}
+
+	return rows.filter(fields => fields.some(value => value.trim() !== ''))
+}
+
+/**
+ * Parses CSV text with a header row into records keyed by the header.
+ *
+ * @param {string} text - The CSV text.
+ * @returns A record for each row after the header. Headers are trimmed, and missing fields are empty strings.
+ */
+export function parseCsv(text: string) {
+	const [header, ...rows] = parseCsvRows(text)
+
+	if (!header) return []
+
+	const columns = header.map(column => column.trim())
+
+	return rows.map(row => Object.fromEntries(columns.map((column, i) => [column, row[i] ?? ''])) as Record<string, string>)
+}
+
+/**
+ * Writes records as CSV text with a header row.
+ *
+ * @param {string[]} columns - The columns to write, in order.
+ * @param {Object[]} records - The records to write. Missing and null values are written as empty fields.
+ * @returns The CSV text.
+ */
+export function toCsv(columns: string[], records: Record<string, unknown>[]) {
+	// Quote fields with commas, quotes or line breaks, doubling any quotes.
+	const escape = (value: unknown) => {
+		const text = value === undefined || value === null ? '' : String(value)
+		return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+	}
+
+	const lines = [columns, ...records.map(record => columns.map(column => record[column]))]
+
+	return lines.map(line => line.map(escape).join(',')).join('\n') + '\n'
+}
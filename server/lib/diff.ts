@@ -0,0 +1,56 @@
+// Field-level differences between two versions of a document.
+
+export interface Change {
+	path: string // e.g. "ratings.0.healthRating"
+	before: unknown
+	after: unknown
+}
+
+/**
+ * Lists the fields that differ between two versions of a document.
+ * Objects and arrays are compared field by field (array items by position), so a changed rating shows up as
+ * its own path. Dates and ids are compared by value.
+ *
+ * @param {unknown} before - The document before the change.
+ * @param {unknown} after - The document after the change.
+ * @param {string[]} ignore - Top-level fields to leave out, such as the version key. Defaults to `__v`.
+ * @returns The changed fields, with their values before and after.
+ */
+export function diff(before: unknown, after: unknown, ignore: string[] = ['__v']): Change[] {
+	const changes: Change[] = []
+
+	const compare = (a: unknown, b: unknown, path: string) => {
+		if (isContainer(a) && isContainer(b) && Array.isArray(a) === Array.isArray(b)) {
+			const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+
+			for (const key of keys) {
+				if (path === '' && ignore.includes(key)) continue
+				compare((a as any)[key], (b as any)[key], path ? `${path}.${key}` : key)
+			}
+
+			return
+		}
+
+		if (!sameValue(a, b)) changes.push({ path, before: a ?? null, after: b ?? null })
+	}
+
+	compare(before, after, '')
+
+	return changes
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+	return Array.isArray(value) || (typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype)
+}
+
+function sameValue(a: unknown, b: unknown) {
+	// Missing and null values are the same.
+	if (a == null || b == null) return a == null && b == null
+
+	if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime()
+
+	// Ids and other objects are compared by their string value.
+	if (typeof a === 'object' || typeof b === 'object') return String(a) === String(b) && JSON.stringify(a) === JSON.stringify(b)
+
+	return a === b
+}
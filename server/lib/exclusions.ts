@@ -0,0 +1,85 @@
+// Ingredient and category exclusions, such as allergies.
+import { normalizeIngredientName } from './ingredientNames'
+
+export interface Exclusions {
+	ingredients?: string[] // e.g. "Chicken"
+	categories?: string[] // e.g. "poultry" or "grain"
+}
+
+export interface KnownIngredient {
+	name: string
+	aliases?: string[]
+	tags?: string[]
+	category?: string | null
+	sourceAnimal?: string | null
+}
+
+export interface ExclusionReason {
+	ingredient: string // The ingredient as listed on the product.
+	excludedBy: 'ingredient' | 'category'
+	match: string // The excluded ingredient or category it matched.
+}
+
+/**
+ * Returns true if there is anything to exclude.
+ *
+ * @param {Exclusions} exclusions - The exclusions to check.
+ * @returns True if any ingredient or category is excluded.
+ */
+export function hasExclusions(exclusions?: Exclusions) {
+	return !!(exclusions?.ingredients?.length || exclusions?.categories?.length)
+}
+
+/**
+ * Finds the ingredients of a product that are excluded, and why.
+ * Ingredients are resolved to their canonical ingredients, so an excluded ingredient matches any of
+ * its names or aliases, and an excluded category matches any ingredient tagged with it, in that category
+ * (e.g., grain) or from that source animal (e.g., chicken).
+ *
+ * @param {string[]} ingredients - The ingredients of the product.
+ * @param {Exclusions} exclusions - The ingredients and categories to exclude.
+ * @param {KnownIngredient[]} known - The known ingredients, with their aliases, tags, category and source animal.
+ * @returns The reason each excluded ingredient was excluded. An empty array means the product is fine.
+ */
+export function findExclusionReasons(ingredients: string[], exclusions: Exclusions, known: KnownIngredient[]): ExclusionReason[] {
+	// Index the known ingredients by every name they are listed under.
+	const byKey = new Map<string, KnownIngredient>()
+
+	for (const ingredient of known) {
+		for (const name of [ingredient.name, ...ingredient.aliases ?? []]) {
+			byKey.set(normalizeIngredientName(name), ingredient)
+		}
+	}
+
+	const excludedNames = exclusions.ingredients ?? []
+	const excludedCategories = exclusions.categories ?? []
+
+	const reasons: ExclusionReason[] = []
+
+	for (const ingredient of ingredients) {
+		const key = normalizeIngredientName(ingredient)
+		const canonical = byKey.get(key)
+
+		// Every name the ingredient is known by.
+		const keys = canonical ? [canonical.name, ...canonical.aliases ?? []].map(normalizeIngredientName) : [key]
+
+		const name = excludedNames.find(excluded => keys.includes(normalizeIngredientName(excluded)))
+
+		if (name) {
+			reasons.push({ ingredient, excludedBy: 'ingredient', match: name })
+			continue
+		}
+
+		const groups = [...canonical?.tags ?? [], canonical?.category, canonical?.sourceAnimal]
+			.filter((group): group is string => !!group)
+			.map(normalizeIngredientName)
+
+		const category = excludedCategories.find(excluded => groups.includes(normalizeIngredientName(excluded)))
+
+		if (category) {
+			reasons.push({ ingredient, excludedBy: 'category', match: category })
+		}
+	}
+
+	return reasons
+}
@@ -0,0 +1,219 @@
+// Feeding chart lookups, energy requirements and feeding cost calculations.
+import { LBS_PER_KG } from './nutrition'
+import { bestOffer, Offer, offerPrice } from './offers'
+import { round } from './numbers'
+
+export const DAYS_PER_MONTH = 365 / 12
+export const DAYS_PER_YEAR = 365
+
+export const ACTIVITY_LEVELS = ['low', 'normal', 'high'] as const
+
+export type ActivityLevel = typeof ACTIVITY_LEVELS[number]
+
+/**
+ * The factors that turn the resting energy requirement into the maintenance energy requirement.
+ * Young pets need more energy to grow, intact adults more than neutered ones, and activity
+ * replaces the neuter status factor for adults that are less or more active than normal.
+ */
+export const MAINTENANCE_FACTORS = {
+	dog: { newborn: 3, young: 2, neutered: 1.6, intact: 1.8, low: 1.4, high: 2 },
+	cat: { newborn: 2.5, young: 2.5, neutered: 1.2, intact: 1.4, low: 1, high: 1.6 },
+} as const
+
+/**
+ * The age (in years) until which a pet is growing, and the age until which a pet is newborn (4 months).
+ */
+export const ADULT_AGE = 1
+export const NEWBORN_AGE = 1 / 3
+
+export interface EnergyProfile {
+	species: 'cat' | 'dog'
+	age: number // years
+	weight: number // lbs
+	neutered?: boolean
+	activityLevel?: ActivityLevel
+}
+
+export interface EnergyRequirement {
+	rer: number // kcal per day, at rest
+	factor: number
+	mer: number // kcal per day, to maintain the pet
+}
+
+export interface FeedingChartRow {
+	minAge?: number | null
+	maxAge?: number | null
+	minWeight?: number | null
+	maxWeight?: number | null
+	minServing: number
+	maxServing: number
+}
+
+export interface SizeDetails {
+	_id?: any
+	packaging: string
+	price: number
+	count: number
+	unit: 'lb' | 'can'
+	offers?: Offer[]
+}
+
+export interface CostRange {
+	min: number
+	max: number
+}
+
+export interface SizeCost {
+	sizeId: string | null
+	packaging: string
+	price: number
+	count: number
+	unit: 'lb' | 'can'
+	offer: Offer | null // The best offer, if the size has one in stock.
+	servings: number
+	daily: CostRange
+	monthly: CostRange
+	yearly: CostRange
+}
+
+/**
+ * Finds the first feeding chart row that covers a pet's age and weight.
+ * Missing bounds on a row are treated as unbounded.
+ *
+ * @param {FeedingChartRow[]} chart - The feeding chart of the product.
+ * @param {Object} pet - The details of the pet.
+ * - `age` {Number} - The age of the pet (in years).
+ * - `weight` {Number} - The weight of the pet (in lbs).
+ * @returns The matching feeding chart row, or null if no row covers the pet.
+ */
+export function findFeedingRow<T extends FeedingChartRow>(chart: T[], { age, weight }: { age: number, weight: number }) {
+	return chart.find(row =>
+		(row.minAge == null || age >= row.minAge) &&
+		(row.maxAge == null || age <= row.maxAge) &&
+		(row.minWeight == null || weight >= row.minWeight) &&
+		(row.maxWeight == null || weight <= row.maxWeight)
+	) ?? null
+}
+
+/**
+ * Calculates the resting energy requirement of a pet: 70 × (weight in kg)^0.75.
+ *
+ * @param {number} weight - The weight of the pet (in lbs).
+ * @returns The calories the pet needs per day at rest.
+ */
+export function restingEnergyRequirement(weight: number) {
+	return 70 * Math.pow(weight / LBS_PER_KG, 0.75)
+}
+
+/**
+ * Returns the factor that turns a pet's resting energy requirement into its maintenance energy requirement.
+ *
+ * @param {EnergyProfile} pet - The details of the pet.
+ * - `species` {Species} - The species of the pet (e.g., cat or dog).
+ * - `age` {Number} - The age of the pet (in years).
+ * - `neutered` {Boolean} - Whether the pet is neutered or spayed. Defaults to true.
+ * - `activityLevel` {ActivityLevel} - How active the pet is (low, normal or high). Defaults to normal.
+ * @returns The maintenance factor.
+ */
+export function maintenanceFactor({ species, age, neutered = true, activityLevel = 'normal' }: EnergyProfile) {
+	const factors = MAINTENANCE_FACTORS[species]
+
+	if (age < NEWBORN_AGE) return factors.newborn
+	if (age < ADULT_AGE) return factors.young
+	if (activityLevel !== 'normal') return factors[activityLevel]
+
+	return neutered ? factors.neutered : factors.intact
+}
+
+/**
+ * Calculates the resting and maintenance energy requirements of a pet.
+ *
+ * @param {EnergyProfile} pet - The details of the pet, as used by `maintenanceFactor`, and its `weight` (in lbs).
+ * @returns The energy requirement.
+ * - `rer` {Number} - The resting energy requirement (kcal per day).
+ * - `factor` {Number} - The maintenance factor used.
+ * - `mer` {Number} - The maintenance energy requirement (kcal per day), the calories to feed.
+ */
+export function energyRequirement(pet: EnergyProfile): EnergyRequirement {
+	const rer = restingEnergyRequirement(pet.weight)
+	const factor = maintenanceFactor(pet)
+
+	return { rer: round(rer), factor, mer: round(rer * factor) }
+}
+
+/**
+ * Returns the number of servings (cups or cans) in a size of a product.
+ *
+ * @param {SizeDetails} size - The size of the product.
+ * @param {Object} product - The details of the product.
+ * - `foodType` {FoodType} - The type of food (e.g., dry or wet).
+ * - `cupsPerLb` {Number} - The number of cups in a pound of dry food.
+ * @returns The number of servings in the size.
+ * @throws Will throw an error if the size cannot be converted into servings.
+ */
+export function servingsPerSize(size: SizeDetails, { foodType, cupsPerLb }: { foodType: 'dry' | 'wet', cupsPerLb?: number | null }) {
+	// Wet food is served by the can.
+	if (size.unit === 'can') return size.count
+
+	// Dry food is served by the cup, so pounds need to be converted.
+	if (foodType !== 'dry') {
+		throw new Error(`Cannot convert '${size.unit}' into servings for ${foodType} food`)
+	}
+
+	if (!cupsPerLb) {
+		throw new Error('Missing cups per lb for dry food')
+	}
+
+	return size.count * cupsPerLb
+}
+
+/**
+ * Calculates the daily, monthly and yearly cost of feeding each size of a product.
+ * Each size is priced at its best offer in stock (see `bestOffer`), or at its own price if it has none.
+ *
+ * @param {SizeDetails[]} sizes - The sizes of the product.
+ * @param {FeedingChartRow} row - The feeding chart row that applies to the pet.
+ * @param {Object} product - The details of the product.
+ * - `foodType` {FoodType} - The type of food (e.g., dry or wet).
+ * - `cupsPerLb` {Number} - The number of cups in a pound of dry food.
+ * @returns The cost of each size.
+ * @throws Will throw an error if a size cannot be converted into servings.
+ */
+export function calculateSizeCosts(sizes: SizeDetails[], row: FeedingChartRow,
+product: { foodType: 'dry' | 'wet', cupsPerLb?: number | null }): SizeCost[] {
+	return sizes.map(size => {
+		const servings = servingsPerSize(size, product)
+		const offer = bestOffer(size.offers)
+		const price = offer ? offerPrice(offer) : size.price
+		const pricePerServing = price / servings
+
+		const daily = { min: row.minServing * pricePerServing, max: row.maxServing * pricePerServing }
+
+		return {
+			sizeId: size._id ? String(size._id) : null,
+			packaging: size.packaging,
+			price,
+			count: size.count,
+			unit: size.unit,
+			offer,
+			servings: round(servings),
+			daily: roundRange(daily, 1),
+			monthly: roundRange(daily, DAYS_PER_MONTH),
+			yearly: roundRange(daily, DAYS_PER_YEAR),
+		}
+	})
+}
+
+/**
+ * Returns the average daily cost of a size, halfway between its min and max serving.
+ *
+ * @param {SizeCost} cost - The cost of the size.
+ * @returns The average cost per day.
+ */
+export function averageDailyCost(cost: SizeCost) {
+	return (cost.daily.min + cost.daily.max) / 2
+}
+
+function roundRange({ min, max }: CostRange, days: number) {
+	return { min: round(min * days), max: round(max * days) }
+}
@@ -0,0 +1,76 @@
+// Normalization and fuzzy matching of ingredient names.
+
+/**
+ * Words that describe how an ingredient was prepared rather than what it is.
+ * "Deboned Chicken" and "Chicken (fresh)" are both just chicken.
+ */
+export const QUALIFIERS = ['deboned', 'boneless', 'fresh', 'raw', 'whole', 'natural', 'organic']
+
+/**
+ * The similarity above which two ingredients are reported as likely duplicates.
+ */
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.85
+
+/**
+ * Normalizes an ingredient name so that different spellings of the same ingredient match.
+ * Casing, whitespace, punctuation, parenthetical qualifiers and preparation words are removed, and plurals are made singular.
+ *
+ * @param {string} name - The ingredient name to normalize.
+ * @returns The normalized name, e.g. "Chicken (deboned)" becomes "chicken" and "Dried Blueberries" becomes "dried blueberry".
+ */
+export function normalizeIngredientName(name: string) {
+	const words = name
+		.toLowerCase()
+		.replace(/\([^)]*\)|\[[^\]]*\]/g, ' ') // Remove parenthetical qualifiers.
+		.replace(/[^a-z0-9]+/g, ' ') // Replace punctuation with spaces.
+		.trim()
+		.split(/\s+/)
+		.filter(Boolean)
+
+	const kept = words.filter(word => !QUALIFIERS.includes(word))
+
+	// If the name is nothing but qualifiers, keep them.
+	return (kept.length > 0 ? kept : words).map(singular).join(' ')
+}
+
+/**
+ * Returns how similar two ingredient names are, based on the edit distance between their normalized forms.
+ *
+ * @param {string} a - The first ingredient name.
+ * @param {string} b - The second ingredient name.
+ * @returns The similarity from 0 (nothing in common) to 1 (the same ingredient).
+ */
+export function nameSimilarity(a: string, b: string) {
+	const x = normalizeIngredientName(a)
+	const y = normalizeIngredientName(b)
+
+	if (x === y) return 1
+
+	return 1 - levenshtein(x, y) / Math.max(x.length, y.length)
+}
+
+function singular(word: string) {
+	if (word.length <= 3) return word
+	if (word.endsWith('ies')) return word.slice(0, -3) + 'y'
+	if (word.endsWith('oes')) return word.slice(0, -2)
+	if (word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1)
+
+	return word
+}
+
+function levenshtein(a: string, b: string) {
+	let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i]
+
+		for (let j = 1; j <= b.length; j++) {
+			const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+			current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution))
+		}
+
+		previous = current
+	}
+
+	return previous[b.length]
+}
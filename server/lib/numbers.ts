@@ -0,0 +1,13 @@
+// Rounds calculated prices, ratings and amounts for display.
+
+/**
+ * Rounds a number to a number of decimal places.
+ *
+ * @param {number} value - The number to round.
+ * @param {number} digits - The number of decimal places to keep. Defaults to 2, for prices.
+ * @returns The rounded number.
+ */
+export function round(value: number, digits = 2) {
+	const factor = Math.pow(10, digits)
+	return Math.round(value * factor) / factor
+}
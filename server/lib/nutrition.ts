@@ -0,0 +1,114 @@
+// Guaranteed analysis, dry matter basis and calorie-based serving calculations.
+import { round } from './numbers'
+
+export const LBS_PER_KG = 2.20462
+
+export interface NutrientRange {
+	min?: number | null // percent, as fed
+	max?: number | null
+}
+
+export interface GuaranteedAnalysis {
+	protein?: NutrientRange
+	fat?: NutrientRange
+	fiber?: NutrientRange
+	moisture?: NutrientRange
+}
+
+export interface Calories {
+	kcalPerCup?: number | null
+	kcalPerCan?: number | null
+	kcalPerKg?: number | null
+}
+
+export interface DryMatter {
+	protein: number | null
+	fat: number | null
+	fiber: number | null
+}
+
+/**
+ * Returns the guaranteed percentage of a nutrient, as fed.
+ * Labels give a minimum for protein and fat and a maximum for fiber and moisture, so the
+ * guaranteed bound is used first and the other bound is used if it is missing.
+ *
+ * @param {NutrientRange} range - The minimum and maximum of the nutrient.
+ * @param {string} bound - The bound the label guarantees ('min' or 'max').
+ * @returns The percentage of the nutrient, or null if neither bound is known.
+ */
+export function guaranteedPercent(range: NutrientRange | undefined, bound: 'min' | 'max') {
+	const other = bound === 'min' ? 'max' : 'min'
+	return range?.[bound] ?? range?.[other] ?? null
+}
+
+/**
+ * Converts an as-fed percentage into a dry matter percentage, leaving out the moisture
+ * so that wet and dry foods can be compared fairly.
+ *
+ * @param {number} asFed - The percentage of the nutrient, as fed.
+ * @param {number} moisture - The percentage of moisture, as fed.
+ * @returns The percentage of the nutrient on a dry matter basis.
+ * @throws Will throw an error if the moisture is not below 100%.
+ */
+export function toDryMatter(asFed: number, moisture: number) {
+	if (moisture < 0 || moisture >= 100) {
+		throw new Error('Moisture must be at least 0% and below 100%')
+	}
+
+	return round(asFed / (100 - moisture) * 100)
+}
+
+/**
+ * Calculates the protein, fat and fiber of a food on a dry matter basis.
+ *
+ * @param {GuaranteedAnalysis} analysis - The guaranteed analysis of the food.
+ * @returns The dry matter percentage of each nutrient. A nutrient is null if it, or the moisture, is unknown.
+ */
+export function dryMatterBasis(analysis?: GuaranteedAnalysis | null): DryMatter {
+	const moisture = guaranteedPercent(analysis?.moisture, 'max')
+
+	const convert = (asFed: number | null) => asFed === null || moisture === null || moisture >= 100 ? null : toDryMatter(asFed, moisture)
+
+	return {
+		protein: convert(guaranteedPercent(analysis?.protein, 'min')),
+		fat: convert(guaranteedPercent(analysis?.fat, 'min')),
+		fiber: convert(guaranteedPercent(analysis?.fiber, 'max')),
+	}
+}
+
+/**
+ * Returns the calories in one serving (a cup of dry food or a can of wet food).
+ * For dry food without calories per cup, the calories per kg are converted using the density of the food.
+ *
+ * @param {Object} product - The details of the product.
+ * - `foodType` {FoodType} - The type of food (e.g., dry or wet).
+ * - `cupsPerLb` {Number} - The number of cups in a pound of dry food.
+ * - `calories` {Calories} - The calories of the food.
+ * @returns The calories per serving, or null if they are unknown.
+ */
+export function kcalPerServing({ foodType, cupsPerLb, calories }: { foodType: 'dry' | 'wet', cupsPerLb?: number | null, calories?: Calories | null }) {
+	if (foodType === 'wet') return calories?.kcalPerCan ?? null
+
+	if (calories?.kcalPerCup) return calories.kcalPerCup
+	if (calories?.kcalPerKg && cupsPerLb) return calories.kcalPerKg / LBS_PER_KG / cupsPerLb
+
+	return null
+}
+
+/**
+ * Calculates the daily serving (cups or cans) that provides a number of calories.
+ *
+ * @param {number} kcalPerDay - The calories the pet needs per day.
+ * @param {Object} product - The details of the product, as used by `kcalPerServing`.
+ * @returns The serving per day.
+ * @throws Will throw an error if the calories of the product are unknown.
+ */
+export function servingForCalories(kcalPerDay: number, product: { foodType: 'dry' | 'wet', cupsPerLb?: number | null, calories?: Calories | null }) {
+	const kcal = kcalPerServing(product)
+
+	if (!kcal) {
+		throw new Error(`Missing calories per ${product.foodType === 'dry' ? 'cup' : 'can'}`)
+	}
+
+	return round(kcalPerDay / kcal)
+}
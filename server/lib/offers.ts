@@ -0,0 +1,75 @@
+// Retailer offers for product sizes.
+import { round } from './numbers'
+
+/**
+ * The retailer given to offers that were migrated from plain links.
+ */
+export const UNKNOWN_RETAILER = 'unknown'
+
+export interface Offer {
+	retailer: string // e.g. chewy, petco or amazon
+	url: string
+	price: number
+	shipping?: number | null
+	subscribeDiscount?: number | null // percent off when subscribing
+	inStock?: boolean | null
+	lastCheckedAt?: Date | null
+}
+
+/**
+ * Returns what an offer costs with shipping and the subscribe-and-save discount.
+ * Feeding a pet is a recurring purchase, so the discount is always applied.
+ *
+ * @param {Offer} offer - The offer.
+ * @returns The price of the offer.
+ */
+export function offerPrice(offer: Offer) {
+	const discount = (offer.subscribeDiscount ?? 0) / 100
+
+	return round(offer.price * (1 - discount) + (offer.shipping ?? 0))
+}
+
+/**
+ * Finds the cheapest offer that is in stock.
+ *
+ * @param {Offer[]} offers - The offers for a size.
+ * @returns The best offer, or null if no offer is in stock.
+ */
+export function bestOffer<T extends Offer>(offers: T[] | undefined) {
+	const available = (offers ?? []).filter(offer => offer.inStock !== false)
+
+	if (available.length === 0) return null
+
+	return available.reduce((best, offer) => offerPrice(offer) < offerPrice(best) ? offer : best)
+}
+
+/**
+ * Returns the price to use for a size: the price of its best offer, or its own price if no offer is in stock.
+ *
+ * @param {Object} size - The size, with its `price` and `offers`.
+ * @returns The price of the size.
+ */
+export function bestPrice(size: { price: number, offers?: Offer[] }) {
+	const offer = bestOffer(size.offers)
+
+	return offer ? offerPrice(offer) : size.price
+}
+
+/**
+ * Converts the plain links of a size into offers from an unknown retailer, at the price of the size.
+ * Links that already have an offer are skipped.
+ *
+ * @param {string[]} links - The links of the size.
+ * @param {number} price - The price of the size.
+ * @param {Offer[]} offers - The offers the size already has.
+ * @returns The offers, with an offer added for each link.
+ */
+export function linksToOffers(links: string[], price: number, offers: Offer[] = []): Offer[] {
+	const urls = new Set(offers.map(offer => offer.url))
+
+	const added = [...new Set(links)]
+		.filter(url => !urls.has(url))
+		.map(url => ({ retailer: UNKNOWN_RETAILER, url, price, shipping: 0, subscribeDiscount: 0, inStock: true, lastCheckedAt: null }))
+
+	return [...offers, ...added]
+}
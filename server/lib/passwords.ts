@@ -0,0 +1,46 @@
+// Password hashing with scrypt.
+import crypto from 'crypto'
+import { promisify } from 'util'
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keyLength: number) => Promise<Buffer>
+
+export const MIN_PASSWORD_LENGTH = 8
+
+const KEY_LENGTH = 64
+const SALT_BYTES = 16
+
+/**
+ * Hashes a password with a random salt.
+ *
+ * @param {string} password - The password to hash.
+ * @returns The salt and hash, as `salt:hash` in hex.
+ * @throws Will throw an error if the password is too short.
+ */
+export async function hashPassword(password: string) {
+	if (password.length < MIN_PASSWORD_LENGTH) {
+		throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+	}
+
+	const salt = crypto.randomBytes(SALT_BYTES).toString('hex')
+	const hash = await scrypt(password, salt, KEY_LENGTH)
+
+	return `${salt}:${hash.toString('hex')}`
+}
+
+/**
+ * Checks a password against a hash made by `hashPassword`, in constant time.
+ *
+ * @param {string} password - The password to check.
+ * @param {string} stored - The stored `salt:hash`.
+ * @returns True if the password matches.
+ */
+export async function verifyPassword(password: string, stored: string) {
+	const [salt, hash] = stored.split(':')
+
+	if (!salt || !hash) return false
+
+	const expected = Buffer.from(hash, 'hex')
+	const actual = await scrypt(password, salt, expected.length)
+
+	return actual.length === expected.length && crypto.timingSafeEqual(actual, expected)
+}
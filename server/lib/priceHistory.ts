@@ -0,0 +1,75 @@
+// Price history statistics for product sizes.
+import { round } from './numbers'
+
+/**
+ * The number of days to look back for the recent low price.
+ */
+export const PRICE_LOW_WINDOW_DAYS = 90
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+export interface PriceRecord {
+	price: number
+	recordedAt: Date
+	source?: string | null // e.g. manual, import or a retailer feed
+}
+
+export interface PriceStats {
+	current: number
+	min: number
+	max: number
+	average: number
+	low90Day: number
+	isAt90DayLow: boolean
+	aboveLow90Day: number // how much more the current price is than the 90-day low
+}
+
+/**
+ * Calculates statistics for the price history of a size.
+ * Sizes saved before their price history was recorded only have their current price.
+ *
+ * @param {PriceRecord[]} history - The recorded prices of the size.
+ * @param {number} current - The current price of the size.
+ * @param {Date} now - The date to calculate the 90-day low from. Defaults to now.
+ * @returns The price statistics.
+ * - `current` {Number} - The current price.
+ * - `min`, `max`, `average` {Number} - The lowest, highest and average recorded price.
+ * - `low90Day` {Number} - The lowest price in the last 90 days, including the current price.
+ * - `isAt90DayLow` {Boolean} - True if the current price is the 90-day low.
+ * - `aboveLow90Day` {Number} - How much more the current price is than the 90-day low.
+ */
+export function priceStats(history: PriceRecord[], current: number, now = new Date()): PriceStats {
+	const prices = history.length > 0 ? history.map(record => record.price) : [current]
+
+	// The current price always counts towards the recent low, even if it was never recorded.
+	const since = now.getTime() - PRICE_LOW_WINDOW_DAYS * MS_PER_DAY
+	const recent = [current, ...history.filter(record => new Date(record.recordedAt).getTime() >= since).map(record => record.price)]
+	const low90Day = Math.min(...recent)
+
+	return {
+		current,
+		min: Math.min(...prices),
+		max: Math.max(...prices),
+		average: round(prices.reduce((sum, price) => sum + price, 0) / prices.length),
+		low90Day,
+		isAt90DayLow: current <= low90Day,
+		aboveLow90Day: round(current - low90Day),
+	}
+}
+
+/**
+ * Adds a price to a price history if it is different from the last recorded price.
+ *
+ * @param {PriceRecord[]} history - The recorded prices of the size, oldest first.
+ * @param {number} price - The new price.
+ * @param {string} source - Where the price came from (e.g., manual or import).
+ * @param {Date} recordedAt - When the price was recorded. Defaults to now.
+ * @returns The price history, with the new price added if it changed.
+ */
+export function recordPrice(history: PriceRecord[], price: number, source: string, recordedAt = new Date()) {
+	const last = history[history.length - 1]
+
+	if (last && last.price === price) return history
+
+	return [...history, { price, recordedAt, source }]
+}
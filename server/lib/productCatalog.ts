@@ -0,0 +1,192 @@
+// Converts product catalogs to and from the JSON and CSV formats used for bulk imports and exports.
+import { parseCsvRows, toCsv } from './csv'
+import { ValidationIssue } from './validation'
+
+/**
+ * The separator for list fields (ingredients and image URLs) in a CSV catalog.
+ */
+export const LIST_SEPARATOR = '|'
+
+export type CatalogRowType = 'product' | 'size' | 'feedingChart'
+
+export interface CatalogRow {
+	row: number // The row of the product in the catalog, starting at 1 (the CSV line, counting the header).
+	product: Record<string, any>
+	issues: ValidationIssue[] // Problems found while reading the row, before it is validated.
+}
+
+const NUTRIENTS = ['protein', 'fat', 'fiber', 'moisture'] as const
+const CALORIES = ['kcalPerCup', 'kcalPerCan', 'kcalPerKg'] as const
+const SIZE_FIELDS = ['packaging', 'price', 'count', 'unit', 'upc'] as const
+const FEEDING_FIELDS = ['minAge', 'maxAge', 'minWeight', 'maxWeight', 'minServing', 'maxServing'] as const
+const NUMBER_FIELDS = new Set<string>(['cupsPerLb', 'price', 'count', ...CALORIES, ...FEEDING_FIELDS,
+	...NUTRIENTS.flatMap(nutrient => [`${nutrient}Min`, `${nutrient}Max`])])
+
+/**
+ * The columns of a CSV catalog. Each product is a `product` row, followed by a `size` row for each of its sizes
+ * and a `feedingChart` row for each row of its feeding chart, linked to the product by `key`.
+ */
+export const CATALOG_COLUMNS = [
+	'type', 'key', 'brand', 'flavor', 'species', 'lifeStage', 'foodType', 'ingredients', 'cupsPerLb', 'aafcoStatement',
+	...NUTRIENTS.flatMap(nutrient => [`${nutrient}Min`, `${nutrient}Max`]), ...CALORIES,
+	...SIZE_FIELDS, 'imageUrls', ...FEEDING_FIELDS,
+]
+
+/**
+ * Reads the products of a JSON catalog.
+ *
+ * @param {unknown} body - The catalog, an array of products in the same shape used to add a product.
+ * @returns A row for each product.
+ * @throws Will throw an error if the catalog is not an array.
+ */
+export function catalogFromJson(body: unknown): CatalogRow[] {
+	if (!Array.isArray(body)) {
+		throw new Error('Expected an array of products')
+	}
+
+	return body.map((product, i) => ({ row: i + 1, product: product ?? {}, issues: [] }))
+}
+
+/**
+ * Reads the products of a CSV catalog (see `CATALOG_COLUMNS`).
+ * Numbers are parsed, lists are split on `|` and empty fields are left out. Fields that are not valid numbers
+ * are kept as text, so that validation reports them.
+ *
+ * @param {string} text - The CSV text.
+ * @returns A row for each product row. A size or feeding chart row whose `key` doesn't match a product row,
+ * or a row with an unknown `type`, is returned as a row of its own with an issue.
+ */
+export function catalogFromCsv(text: string): CatalogRow[] {
+	const [header, ...lines] = parseCsvRows(typeof text === 'string' ? text : '')
+
+	if (!header) return []
+
+	const columns = header.map(column => column.trim())
+	const rows: CatalogRow[] = []
+	const byKey = new Map<string, CatalogRow>()
+
+	lines.forEach((line, i) => {
+		const row = i + 2
+
+		// Read the non-empty fields of the line.
+		const record: Record<string, any> = {}
+
+		columns.forEach((column, j) => {
+			const value = line[j]?.trim() ?? ''
+			if (value === '') return
+
+			record[column] = NUMBER_FIELDS.has(column) && Number.isFinite(Number(value)) ? Number(value) : value
+		})
+
+		const { type, key } = record
+
+		if (type === 'product') {
+			const product = readProduct(record)
+			const catalogRow = { row, product, issues: [] }
+
+			rows.push(catalogRow)
+			if (key !== undefined) byKey.set(String(key), catalogRow)
+			return
+		}
+
+		if (type !== 'size' && type !== 'feedingChart') {
+			rows.push({ row, product: {}, issues: [{ field: 'type', message: "must be one of 'product', 'size' or 'feedingChart'" }] })
+			return
+		}
+
+		// Add the child row to its product.
+		const parent = key === undefined ? undefined : byKey.get(String(key))
+
+		if (!parent) {
+			rows.push({ row, product: {}, issues: [{ field: 'key', message: `must match the key of an earlier product row` }] })
+			return
+		}
+
+		if (type === 'size') {
+			parent.product.sizes.push({ ...pick(record, SIZE_FIELDS), imageUrls: splitField(record.imageUrls) })
+		} else {
+			parent.product.feedingChart.push(pick(record, FEEDING_FIELDS))
+		}
+	})
+
+	return rows
+}
+
+/**
+ * Writes products as a CSV catalog (see `CATALOG_COLUMNS`). Offers and price history are left out, but importing
+ * the catalog with `onDuplicate: 'update'` keeps those of each size it matches (see `Product.update`).
+ *
+ * @param {Object[]} products - The products to write, each with an `id` used as its key.
+ * @returns The CSV text.
+ */
+export function catalogToCsv(products: Record<string, any>[]) {
+	const records = products.flatMap(product => {
+		const key = product.id
+		const analysis = product.guaranteedAnalysis ?? {}
+
+		const row: Record<string, unknown> = {
+			type: 'product',
+			key,
+			brand: product.brand,
+			flavor: product.flavor,
+			species: product.species,
+			lifeStage: product.lifeStage,
+			foodType: product.foodType,
+			ingredients: (product.ingredients ?? []).join(LIST_SEPARATOR),
+			cupsPerLb: product.cupsPerLb,
+			aafcoStatement: product.aafcoStatement,
+			...pick(product.calories ?? {}, CALORIES),
+		}
+
+		for (const nutrient of NUTRIENTS) {
+			row[`${nutrient}Min`] = analysis[nutrient]?.min
+			row[`${nutrient}Max`] = analysis[nutrient]?.max
+		}
+
+		const sizes = (product.sizes ?? []).map((size: any) => ({
+			type: 'size',
+			key,
+			...pick(size, SIZE_FIELDS),
+			imageUrls: (size.imageUrls ?? []).join(LIST_SEPARATOR),
+		}))
+
+		const feedingChart = (product.feedingChart ?? []).map((feedingRow: any) => ({ type: 'feedingChart', key, ...pick(feedingRow, FEEDING_FIELDS) }))
+
+		return [row, ...sizes, ...feedingChart]
+	})
+
+	return toCsv(CATALOG_COLUMNS, records)
+}
+
+function readProduct(record: Record<string, any>) {
+	const product: Record<string, any> = {
+		...pick(record, ['brand', 'flavor', 'species', 'lifeStage', 'foodType', 'cupsPerLb', 'aafcoStatement']),
+		ingredients: splitField(record.ingredients),
+		sizes: [],
+		feedingChart: [],
+	}
+
+	// Only add the nutrition facts that are given.
+	const calories = pick(record, CALORIES)
+	if (Object.keys(calories).length > 0) product.calories = calories
+
+	const analysis: Record<string, any> = {}
+
+	for (const nutrient of NUTRIENTS) {
+		const range = { min: record[`${nutrient}Min`], max: record[`${nutrient}Max`] }
+		if (range.min !== undefined || range.max !== undefined) analysis[nutrient] = pick(range, ['min', 'max'])
+	}
+
+	if (Object.keys(analysis).length > 0) product.guaranteedAnalysis = analysis
+
+	return product
+}
+
+function splitField(value: unknown) {
+	if (value === undefined || value === null || value === '') return []
+	return String(value).split(LIST_SEPARATOR).map(item => item.trim()).filter(item => item !== '')
+}
+
+function pick(record: Record<string, any>, fields: readonly string[]) {
+	return Object.fromEntries(fields.filter(field => record[field] !== undefined && record[field] !== null).map(field => [field, record[field]]))
+}
@@ -0,0 +1,89 @@
+// Ingredient-based quality scoring for products.
+import { round } from './numbers'
+
+/**
+ * How much each ingredient position counts relative to the one before it.
+ * Ingredients are listed by weight, so the first few dominate the score.
+ */
+export const POSITION_DECAY = 0.85
+
+/**
+ * The health rating used for an ingredient that is known to be toxic for the species, whatever its rating.
+ */
+export const TOXIC_RATING = -10
+
+export interface RatedIngredient {
+	name: string
+	healthRating: number | null
+	toxic?: boolean
+}
+
+export interface IngredientScore {
+	name: string
+	position: number
+	weight: number
+	healthRating: number | null
+	rated: boolean
+	toxic: boolean
+}
+
+export interface QualityScore {
+	score: number | null
+	confidence: number
+	breakdown: IngredientScore[]
+}
+
+/**
+ * Returns the weight of an ingredient based on its position in the ingredient list.
+ *
+ * @param {number} position - The zero-based position of the ingredient.
+ * @returns The weight of the ingredient.
+ */
+export function positionWeight(position: number) {
+	return Math.pow(POSITION_DECAY, position)
+}
+
+/**
+ * Calculates the quality score of a product from its ordered list of ingredients.
+ *
+ * @param {string[]} ingredients - The ingredient names in the order they appear on the label.
+ * @param {Map<string, RatedIngredient>} ratings - The known ratings for the ingredients, keyed by ingredient name.
+ * Ingredients marked as `toxic` count as the worst rating.
+ * @returns The quality score.
+ * - `score` {Number|null} - The position-weighted average health rating (10 to -10 scale), or null if nothing is rated.
+ * - `confidence` {Number} - The share of the total weight that is covered by rated ingredients (0 to 1).
+ * - `breakdown` {Array} - The weight and rating used for each ingredient.
+ */
+export function calculateQualityScore(ingredients: string[], ratings: Map<string, RatedIngredient>): QualityScore {
+	let totalWeight = 0
+	let ratedWeight = 0
+	let weightedSum = 0
+
+	const breakdown = ingredients.map((name, position) => {
+		const weight = positionWeight(position)
+		const rating = ratings.get(name)
+		const toxic = rating?.toxic ?? false
+		const healthRating = toxic ? TOXIC_RATING : rating?.healthRating ?? null
+		const rated = healthRating !== null
+
+		totalWeight += weight
+
+		if (rated) {
+			ratedWeight += weight
+			weightedSum += weight * healthRating
+		}
+
+		return { name, position, weight: round(weight, 4), healthRating, rated, toxic }
+	})
+
+	// If no ingredient is rated, the score is unknown.
+	if (ratedWeight === 0) {
+		return { score: null, confidence: 0, breakdown }
+	}
+
+	return {
+		score: round(weightedSum / ratedWeight, 2),
+		confidence: round(ratedWeight / totalWeight, 2),
+		breakdown,
+	}
+}
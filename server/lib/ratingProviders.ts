@@ -0,0 +1,210 @@
+// Providers that suggest health ratings for ingredients that don't have one yet.
+import { TOXIC_RATING } from './qualityScore'
+
+const MIN_HEALTH_RATING = -10
+const MAX_HEALTH_RATING = 10
+
+/**
+ * The providers that can be chosen with the `RATING_PROVIDER` environment variable.
+ * An external model can't be chosen this way, since it needs a client (see `createExternalProvider`).
+ */
+export const RATING_PROVIDER_NAMES = ['none', 'rules'] as const
+
+export interface IngredientToRate {
+	name: string
+	tags?: string[]
+	category?: string | null
+	sourceAnimal?: string | null
+	flags?: { byProduct?: boolean | null, meal?: boolean | null, artificial?: boolean | null } | null
+	toxicFor?: string[]
+}
+
+export interface RatingSuggestion {
+	healthRating: number
+	notes: string | null // why the rating was suggested
+}
+
+export interface RatingProvider {
+	name: string // recorded on every rating the provider suggests, e.g. "rules"
+	suggest(ingredient: IngredientToRate, species: 'cat' | 'dog'): Promise<RatingSuggestion | null>
+}
+
+interface RatingRule {
+	matches: (ingredient: IngredientToRate, text: string) => boolean
+	ratings: { cat: number, dog: number }
+	notes: string
+}
+
+// Animals a protein can be named after. An unnamed protein ("meat", "poultry") could be anything.
+const NAMED_ANIMALS = ['chicken', 'turkey', 'duck', 'beef', 'lamb', 'pork', 'venison', 'rabbit', 'bison', 'salmon', 'tuna',
+	'cod', 'whitefish', 'herring', 'mackerel', 'sardine', 'pollock', 'trout', 'anchovy', 'menhaden', 'quail', 'goat']
+
+const ANIMALS = new RegExp(`\\b(${NAMED_ANIMALS.join('|')})\\b`)
+
+/**
+ * The rules of the rule-based provider, in order. The first rule that matches an ingredient decides its rating.
+ * Cats are obligate carnivores, so plant ingredients are rated lower for them than for dogs.
+ */
+export const RATING_RULES: RatingRule[] = [
+	{
+		matches: ({ category, flags }, text) => category === 'colorant'
+			|| /\b(artificial colou?rs?|colou?r added|(red|yellow|blue|green) (no )?\d+|caramel colou?r|titanium dioxide)\b/.test(text)
+			|| (!!flags?.artificial && /\bcolou?r|\bdye\b/.test(text)),
+		ratings: { cat: -9, dog: -9 },
+		notes: 'Artificial color',
+	},
+	{
+		matches: (_ingredient, text) => /\b(bha|bht|ethoxyquin|propylene glycol|tbhq)\b/.test(text),
+		ratings: { cat: -8, dog: -8 },
+		notes: 'Artificial preservative',
+	},
+	{
+		matches: ({ flags }, text) => !!flags?.artificial || /\bartificial\b/.test(text),
+		ratings: { cat: -6, dog: -6 },
+		notes: 'Artificial additive',
+	},
+	{
+		matches: ({ flags }, text) => !!flags?.byProduct || /\bby ?products?\b/.test(text),
+		ratings: { cat: -4, dog: -4 },
+		notes: 'By-product of unspecified parts',
+	},
+	{
+		matches: (_ingredient, text) => /\bfish oil\b/.test(text),
+		ratings: { cat: 8, dog: 8 },
+		notes: 'Fish oil, a source of omega-3 fatty acids',
+	},
+	{
+		matches: (_ingredient, text) => /\b(meat|animal|poultry|fish)\b/.test(text) && !ANIMALS.test(text),
+		ratings: { cat: -3, dog: -3 },
+		notes: 'Unnamed animal source',
+	},
+	{
+		matches: (_ingredient, text) => /\b(corn|wheat|soy|soybean)\b/.test(text),
+		ratings: { cat: -5, dog: -2 },
+		notes: 'Common filler grain or legume',
+	},
+	{
+		matches: ({ sourceAnimal }, text) => (!!sourceAnimal || ANIMALS.test(text)) && /\b(liver|heart|kidney|gizzard)\b/.test(text),
+		ratings: { cat: 9, dog: 9 },
+		notes: 'Named organ meat',
+	},
+	{
+		matches: ({ sourceAnimal }, text) => (!!sourceAnimal || ANIMALS.test(text)) && /\b(oil|fat)\b/.test(text),
+		ratings: { cat: 7, dog: 7 },
+		notes: 'Named animal fat',
+	},
+	{
+		matches: ({ sourceAnimal, flags }, text) => (!!sourceAnimal || ANIMALS.test(text)) && (!!flags?.meal || /\bmeal\b/.test(text)),
+		ratings: { cat: 7, dog: 7 },
+		notes: 'Named meat meal',
+	},
+	{
+		matches: ({ sourceAnimal }, text) => !!sourceAnimal || ANIMALS.test(text),
+		ratings: { cat: 9, dog: 8 },
+		notes: 'Named meat',
+	},
+	{
+		matches: ({ category }, text) => category === 'grain' || /\b(rice|barley|oat|oatmeal|millet|sorghum)\b/.test(text),
+		ratings: { cat: -2, dog: 2 },
+		notes: 'Grain',
+	},
+	{
+		matches: ({ category }) => category === 'vegetable' || category === 'fruit',
+		ratings: { cat: 1, dog: 4 },
+		notes: 'Whole vegetable or fruit',
+	},
+]
+
+/**
+ * A deterministic provider that rates ingredients with keyword and category heuristics (see `RATING_RULES`).
+ * Ingredients known to be toxic for the species get the worst rating. Ingredients no rule matches are left unrated.
+ */
+export const ruleBasedProvider: RatingProvider = {
+	name: 'rules',
+	async suggest(ingredient, species) {
+		if (ingredient.toxicFor?.includes(species)) {
+			return { healthRating: TOXIC_RATING, notes: `Toxic for ${species}s` }
+		}
+
+		// Match the rules against the name and tags, with punctuation turned into spaces (e.g. "By-Product" matches "by product").
+		const text = [ingredient.name, ...ingredient.tags ?? []].join(' ').toLowerCase().replace(/[^a-z0-9]+/g, ' ')
+		const rule = RATING_RULES.find(r => r.matches(ingredient, text))
+
+		return rule ? { healthRating: rule.ratings[species], notes: rule.notes } : null
+	},
+}
+
+/**
+ * Creates a provider that asks an external model, such as an LLM, for ratings.
+ * The model is asked to answer with JSON (`{"healthRating": 5, "notes": "..."}`). Answers that can't be read,
+ * or with a rating outside the -10 to 10 scale, are ignored, and the ingredient is left unrated.
+ *
+ * @param {string} name - The name of the provider, recorded on the ratings it suggests (e.g. the model name).
+ * @param {Function} complete - Sends a prompt to the model and returns its answer. Tests can pass a stub.
+ * @returns The provider.
+ */
+export function createExternalProvider(name: string, complete: (prompt: string) => Promise<string>): RatingProvider {
+	return {
+		name,
+		async suggest(ingredient, species) {
+			const answer = await complete(ratingPrompt(ingredient, species))
+			return parseSuggestion(answer)
+		},
+	}
+}
+
+/**
+ * Returns the provider chosen by name, as in the `RATING_PROVIDER` environment variable.
+ *
+ * @param {string} name - The name of the provider ('none' or 'rules'). Defaults to 'none'.
+ * @returns The provider, or null for none.
+ * @throws Will throw an error if there is no provider with the name.
+ */
+export function ratingProviderByName(name: string = 'none') {
+	if (name === 'none') return null
+	if (name === 'rules') return ruleBasedProvider
+
+	throw new Error(`Unknown rating provider '${name}', expected one of ${RATING_PROVIDER_NAMES.join(', ')}`)
+}
+
+/**
+ * Builds the prompt that asks an external model to rate an ingredient for a species.
+ *
+ * @param {IngredientToRate} ingredient - The ingredient to rate.
+ * @param {string} species - The species to rate it for ('cat' or 'dog').
+ * @returns The prompt.
+ */
+export function ratingPrompt(ingredient: IngredientToRate, species: 'cat' | 'dog') {
+	const details = [
+		ingredient.category && `Category: ${ingredient.category}`,
+		ingredient.sourceAnimal && `Source animal: ${ingredient.sourceAnimal}`,
+		ingredient.tags?.length && `Tags: ${ingredient.tags.join(', ')}`,
+	].filter(Boolean)
+
+	return [
+		`Rate how healthy the pet food ingredient "${ingredient.name}" is for ${species}s, from ${MIN_HEALTH_RATING} (harmful) to ${MAX_HEALTH_RATING} (ideal).`,
+		...details,
+		'Answer with JSON only, in the form {"healthRating": <number>, "notes": "<one sentence explaining why>"}.',
+	].join('\n')
+}
+
+/**
+ * Reads a rating from the answer of an external model.
+ *
+ * @param {string} answer - The answer, containing a JSON object with a `healthRating` and optional `notes`.
+ * @returns The suggestion, or null if the answer has no rating on the -10 to 10 scale.
+ */
+export function parseSuggestion(answer: string): RatingSuggestion | null {
+	const json = answer.match(/\{[\s\S]*\}/)?.[0]
+	if (!json) return null
+
+	try {
+		const { healthRating, notes } = JSON.parse(json)
+
+		if (typeof healthRating !== 'number' || healthRating < MIN_HEALTH_RATING || healthRating > MAX_HEALTH_RATING) return null
+
+		return { healthRating, notes: typeof notes === 'string' ? notes : null }
+	} catch {
+		return null
+	}
+}
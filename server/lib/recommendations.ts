@@ -0,0 +1,45 @@
+// Ranking of products by a mix of ingredient quality and cost.
+import { round } from './numbers'
+
+export const DEFAULT_QUALITY_WEIGHT = 0.5
+
+export interface Candidate {
+	qualityScore: number | null
+	dailyCost: number
+}
+
+export type Ranked<T extends Candidate> = T & {
+	rank: number
+	score: number
+	qualityRating: number
+	costRating: number
+}
+
+/**
+ * Ranks candidates by a weighted mix of their quality and their cost.
+ * Both are rated from 0 (worst) to 1 (best) before they are combined. Quality is rated on the
+ * 10 to -10 health rating scale, with unknown quality treated as neutral, and cost is rated
+ * relative to the cheapest and most expensive candidates.
+ *
+ * @param {Candidate[]} candidates - The candidates to rank.
+ * - `qualityScore` {Number|null} - The quality score of the candidate (10 to -10 scale).
+ * - `dailyCost` {Number} - The cost per day of the candidate.
+ * @param {number} qualityWeight - How much quality counts compared to cost (0 to 1). 1 ranks by quality only, 0 by cost only.
+ * @returns The candidates sorted from best to worst, with their rank, score and ratings.
+ */
+export function rankCandidates<T extends Candidate>(candidates: T[], qualityWeight = DEFAULT_QUALITY_WEIGHT): Ranked<T>[] {
+	const costs = candidates.map(candidate => candidate.dailyCost)
+	const minCost = Math.min(...costs)
+	const maxCost = Math.max(...costs)
+
+	return candidates
+		.map(candidate => {
+			const qualityRating = ((candidate.qualityScore ?? 0) + 10) / 20
+			const costRating = maxCost === minCost ? 1 : (maxCost - candidate.dailyCost) / (maxCost - minCost)
+			const score = qualityWeight * qualityRating + (1 - qualityWeight) * costRating
+
+			return { ...candidate, score: round(score, 3), qualityRating: round(qualityRating, 3), costRating: round(costRating, 3) }
+		})
+		.sort((a, b) => b.score - a.score)
+		.map((candidate, index) => ({ ...candidate, rank: index + 1 }))
+}
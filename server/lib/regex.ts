@@ -0,0 +1,11 @@
+// Builds regular expressions from user input.
+
+/**
+ * Escapes the characters that have a special meaning in a regular expression, so the text only matches itself.
+ *
+ * @param {string} text - The text to escape.
+ * @returns The escaped text.
+ */
+export function escapeRegExp(text: string) {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
@@ -0,0 +1,82 @@
+// Signed access tokens (JSON Web Tokens using HS256).
+import crypto from 'crypto'
+
+/**
+ * How long a token is valid for, in seconds.
+ */
+export const TOKEN_TTL_SECONDS = 24 * 60 * 60
+
+export interface TokenPayload {
+	sub: string // The id of the user.
+	role: string
+	iat: number // When the token was issued, in seconds since the epoch.
+	exp: number // When the token expires, in seconds since the epoch.
+}
+
+/**
+ * Signs a token for a user.
+ *
+ * @param {Object} claims - The claims of the token.
+ * - `sub` {String} - The id of the user.
+ * - `role` {String} - The role of the user.
+ * @param {string} secret - The secret to sign the token with.
+ * @param {number} ttl - How long the token is valid for, in seconds. Defaults to a day.
+ * @param {Date} now - When the token is issued. Defaults to now.
+ * @returns The token.
+ */
+export function signToken({ sub, role }: { sub: string, role: string }, secret: string, ttl = TOKEN_TTL_SECONDS, now = new Date()) {
+	const iat = Math.floor(now.getTime() / 1000)
+	const payload: TokenPayload = { sub, role, iat, exp: iat + ttl }
+
+	const header = encode({ alg: 'HS256', typ: 'JWT' })
+	const body = encode(payload)
+
+	return `${header}.${body}.${sign(`${header}.${body}`, secret)}`
+}
+
+/**
+ * Verifies a token and returns its payload.
+ *
+ * @param {string} token - The token to verify.
+ * @param {string} secret - The secret the token was signed with.
+ * @param {Date} now - The time to check the expiry against. Defaults to now.
+ * @returns The payload of the token.
+ * @throws Will throw an error if the token is malformed, has an invalid signature or has expired.
+ */
+export function verifyToken(token: string, secret: string, now = new Date()): TokenPayload {
+	const [header, body, signature] = token.split('.')
+
+	if (!header || !body || !signature) {
+		throw new Error('Invalid token')
+	}
+
+	// Compare the signatures in constant time.
+	const expected = Buffer.from(sign(`${header}.${body}`, secret))
+	const actual = Buffer.from(signature)
+
+	if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+		throw new Error('Invalid token')
+	}
+
+	let payload: TokenPayload
+
+	try {
+		payload = JSON.parse(Buffer.from(body, 'base64url').toString())
+	} catch {
+		throw new Error('Invalid token')
+	}
+
+	if (typeof payload.exp !== 'number' || payload.exp <= Math.floor(now.getTime() / 1000)) {
+		throw new Error('Token expired')
+	}
+
+	return payload
+}
+
+function encode(value: object) {
+	return Buffer.from(JSON.stringify(value)).toString('base64url')
+}
+
+function sign(data: string, secret: string) {
+	return crypto.createHmac('sha256', secret).update(data).digest('base64url')
+}
@@ -0,0 +1,47 @@
+// Runs changes that have to be saved together in a MongoDB transaction.
+import { AsyncLocalStorage } from 'async_hooks'
+import mongoose from 'mongoose'
+
+// Let every query made inside a transaction use its session, without passing the session along.
+mongoose.set('transactionAsyncLocalStorage', true)
+
+// Whether the code running is already inside a transaction.
+const inTransaction = new AsyncLocalStorage<boolean>()
+
+// Whether each database supports transactions, so it is only asked once.
+const supported = new WeakMap<object, boolean>()
+
+/**
+ * Returns true if the database supports transactions, which needs a replica set or a sharded cluster.
+ *
+ * @returns True if transactions are supported.
+ */
+export async function supportsTransactions() {
+	const db = mongoose.connection.db
+
+	if (!db) return false
+
+	if (!supported.has(db)) {
+		const hello = await db.admin().command({ hello: 1 })
+		supported.set(db, Boolean(hello.setName) || hello.msg === 'isdbgrid')
+	}
+
+	return supported.get(db)!
+}
+
+/**
+ * Runs a function in a transaction, so that either every change it makes is saved or none is.
+ * Calls inside the function join the same transaction. On a standalone server, which doesn't support
+ * transactions, the function is run without one.
+ * The function may be retried if the transaction hits a transient error, so it should only change the database.
+ *
+ * @param {Function} fn - The function to run.
+ * @returns What the function returns.
+ */
+export async function withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+	if (inTransaction.getStore() || !await supportsTransactions()) {
+		return await fn()
+	}
+
+	return await mongoose.connection.transaction(() => inTransaction.run(true, fn))
+}
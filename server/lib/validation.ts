@@ -0,0 +1,158 @@
+// A small schema-based validator for request bodies and query parameters.
+
+export interface ValidationIssue {
+	field: string
+	message: string
+}
+
+interface BaseRule {
+	required?: boolean
+	nullable?: boolean
+}
+
+export type Rule = BaseRule & (
+	| { type: 'string' }
+	| { type: 'number', min?: number, max?: number }
+	| { type: 'boolean' }
+	| { type: 'enum', values: readonly string[] }
+	| { type: 'array', items: Rule }
+	| { type: 'object', schema: Schema }
+)
+
+export interface Schema {
+	fields: Record<string, Rule>
+	checks?: Check[]
+}
+
+/**
+ * A check across several fields of an object. Returns the name of the field
+ * and the problem with it, or null if the object passes.
+ */
+export type Check = (value: Record<string, any>) => ValidationIssue | null
+
+export interface ValidateOptions {
+	partial?: boolean // Only validate the fields that are present.
+	coerce?: boolean // Accept strings for numbers, booleans and null, as used in query parameters.
+}
+
+/**
+ * Validates a value against a schema.
+ *
+ * @param {Schema} schema - The schema to validate against.
+ * @param {unknown} value - The value to validate.
+ * @param {ValidateOptions} options - Validation options.
+ * - `partial` {Boolean} - If true, missing top-level fields are allowed. Nested objects are always validated in full.
+ * - `coerce` {Boolean} - If true, strings are converted into numbers, booleans and null where the schema expects them.
+ * @param {string} path - The path of the value, used to name the fields in the issues.
+ * @returns Every issue found. An empty array means the value is valid.
+ */
+export function validate(schema: Schema, value: unknown, options: ValidateOptions = {}, path = ''): ValidationIssue[] {
+	if (!isObject(value)) {
+		return [{ field: path, message: 'must be an object' }]
+	}
+
+	const issues: ValidationIssue[] = []
+
+	for (const [name, rule] of Object.entries(schema.fields)) {
+		const field = path ? `${path}.${name}` : name
+
+		// Missing fields are allowed in partial updates.
+		if (options.partial && value[name] === undefined) continue
+
+		issues.push(...checkRule(rule, value[name], field, options))
+	}
+
+	// Only check across fields once every field is valid on its own.
+	if (issues.length === 0) {
+		for (const check of schema.checks ?? []) {
+			const issue = check(coerceFields(schema, value, options))
+			if (issue) issues.push({ field: path ? `${path}.${issue.field}` : issue.field, message: issue.message })
+		}
+	}
+
+	return issues
+}
+
+/**
+ * Returns a check that a field is not less than another field, when both are present.
+ *
+ * @param {string} lower - The name of the field that should be lower or equal.
+ * @param {string} upper - The name of the field that should be greater or equal.
+ * @returns The check.
+ */
+export function lessOrEqual(lower: string, upper: string): Check {
+	return value => {
+		if (value[lower] == null || value[upper] == null) return null
+		if (value[lower] <= value[upper]) return null
+
+		return { field: upper, message: `must be greater than or equal to ${lower}` }
+	}
+}
+
+/**
+ * Returns a check that a field is not sent, for fields that are changed some other way.
+ *
+ * @param {string} field - The name of the field that should be missing.
+ * @param {string} message - Why the field can't be sent.
+ * @returns The check.
+ */
+export function absent(field: string, message: string): Check {
+	return value => value[field] === undefined ? null : { field, message }
+}
+
+function checkRule(rule: Rule, value: unknown, field: string, options: ValidateOptions): ValidationIssue[] {
+	const issue = (message: string) => [{ field, message }]
+
+	value = coerce(rule, value, options)
+
+	if (value === undefined || value === null || value === '') {
+		if (rule.required && !(value === null && rule.nullable)) return issue('is required')
+		if (value === null && !rule.nullable) return issue('must not be null')
+		return []
+	}
+
+	switch (rule.type) {
+		case 'string':
+			return typeof value === 'string' ? [] : issue('must be a string')
+
+		case 'number':
+			if (typeof value !== 'number' || !Number.isFinite(value)) return issue('must be a number')
+			if (rule.min !== undefined && value < rule.min) return issue(`must be at least ${rule.min}`)
+			if (rule.max !== undefined && value > rule.max) return issue(`must be at most ${rule.max}`)
+			return []
+
+		case 'boolean':
+			return typeof value === 'boolean' ? [] : issue('must be true or false')
+
+		case 'enum':
+			return rule.values.includes(value as string) ? [] : issue(`must be one of: ${rule.values.join(', ')}`)
+
+		case 'array':
+			if (!Array.isArray(value)) return issue('must be an array')
+			return value.flatMap((item, index) => checkRule(rule.items, item, `${field}[${index}]`, options))
+
+		case 'object':
+			return validate(rule.schema, value, { coerce: options.coerce }, field)
+	}
+}
+
+function coerce(rule: Rule, value: unknown, { coerce }: ValidateOptions) {
+	if (!coerce || typeof value !== 'string') return value
+
+	if (rule.nullable && value === 'null') return null
+	if (rule.type === 'number' && value.trim() !== '') return Number(value)
+	if (rule.type === 'boolean' && (value === 'true' || value === 'false')) return value === 'true'
+
+	return value
+}
+
+function coerceFields(schema: Schema, value: Record<string, any>, options: ValidateOptions) {
+	return Object.fromEntries(Object.entries(value).map(([name, field]) => {
+		const rule = schema.fields[name]
+		return [name, rule ? coerce(rule, field, options) : field]
+	}))
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
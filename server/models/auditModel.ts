@@ -0,0 +1,183 @@
+import mongoose from 'mongoose'
+import { diff } from '../lib/diff'
+import { escapeRegExp } from '../lib/regex'
+import { withTransaction } from '../lib/transactions'
+import Product from './productModel'
+import Ingredient from './ingredientModel'
+
+export const AUDIT_ENTITIES = ['product', 'ingredient'] as const
+export const AUDIT_ACTIONS = ['create', 'update', 'delete', 'restore', 'purge', 'merge', 'revert'] as const
+
+export type AuditEntity = typeof AUDIT_ENTITIES[number]
+export type AuditAction = typeof AUDIT_ACTIONS[number]
+
+export const DEFAULT_AUDIT_LIMIT = 50
+export const MAX_AUDIT_LIMIT = 200
+
+const auditSchema = new mongoose.Schema({
+	entity: {
+		type: String,
+		enum: AUDIT_ENTITIES,
+		required: true,
+	},
+	entityId: { type: mongoose.Schema.Types.ObjectId, required: true },
+	action: {
+		type: String,
+		enum: AUDIT_ACTIONS,
+		required: true,
+	},
+	actor: { type: String, default: null }, // email of the user who made the change, null for changes made by the system
+	reason: { type: String, default: null },
+	at: { type: Date, default: Date.now },
+	before: { type: mongoose.Schema.Types.Mixed, default: null }, // the whole document, null if it was created
+	after: { type: mongoose.Schema.Types.Mixed, default: null }, // the whole document, null if it was purged
+	changes: [
+		{
+			_id: false,
+			path: String, // e.g. "ratings.0.healthRating"
+			before: mongoose.Schema.Types.Mixed,
+			after: mongoose.Schema.Types.Mixed,
+		}
+	],
+	revertOf: { type: mongoose.Schema.Types.ObjectId, default: null }, // the entry a revert restored
+}, { minimize: false })
+
+auditSchema.index({ entity: 1, entityId: 1, at: -1 })
+
+const AuditModel = mongoose.model('Audit', auditSchema)
+
+export interface AuditContext {
+	actor?: string | null // e.g. the email of the user
+	reason?: string | null
+}
+
+export interface FilterOptions {
+	entity?: AuditEntity
+	id?: string
+	actor?: string
+	field?: string
+	limit?: number
+}
+
+/**
+ * Audit class to record and look up the changes made to products and ingredients.
+ */
+class Audit {
+	//////////////////////
+	/// STATIC METHODS ///
+	//////////////////////
+
+	/**
+	 * Gets the Audit mongoose model.
+	 *
+	 * @returns {Promise<mongoose.Model>} The Audit mongoose model.
+	 */
+	static async getModel() {
+		return AuditModel
+	}
+
+	/**
+	 * Records a change to a product or ingredient.
+	 *
+	 * @param {AuditEntity} entity - The kind of document that changed ('product' or 'ingredient').
+	 * @param {AuditAction} action - What was done (create, update, delete, restore, purge, merge or revert).
+	 * @param {Object} before - The document before the change, or null if it was created.
+	 * @param {Object} after - The document after the change, or null if it was deleted.
+	 * @param {AuditContext} context - Who made the change and why. Optional.
+	 * - `actor` {String} - Who made the change, such as the email of the user.
+	 * - `reason` {String} - Why the change was made.
+	 * @param {string} revertOf - The id of the entry that was reverted, for a revert. Optional.
+	 * @returns The audit entry, or null if an update didn't change anything.
+	 */
+	static async record(entity: AuditEntity, action: AuditAction, before: any, after: any, { actor, reason }: AuditContext = {}, revertOf: any = null) {
+		// Store plain copies of the documents.
+		const snapshot = (document: any) => document && (typeof document.toObject === 'function' ? document.toObject() : document)
+		const beforeSnapshot = snapshot(before)
+		const afterSnapshot = snapshot(after)
+
+		// List the changed fields, when there is a document on both sides.
+		const changes = beforeSnapshot && afterSnapshot ? diff(beforeSnapshot, afterSnapshot) : []
+
+		// Skip updates that didn't change anything.
+		if (beforeSnapshot && afterSnapshot && changes.length === 0) return null
+
+		const entry = new AuditModel({
+			entity,
+			entityId: (afterSnapshot ?? beforeSnapshot)._id,
+			action,
+			actor: actor ?? null,
+			reason: reason ?? null,
+			before: beforeSnapshot,
+			after: afterSnapshot,
+			changes,
+			revertOf,
+		})
+
+		return await entry.save()
+	}
+
+	/**
+	 * Finds audit entries based on provided filters, newest first.
+	 *
+	 * @param {Object} filters - An object containing filter criteria.
+	 * - `entity`: The kind of document ('product' or 'ingredient').
+	 * - `id`: The id of the product or ingredient.
+	 * - `actor`: Who made the changes.
+	 * - `field`: A field that changed, including its nested fields (e.g. `ratings` for any change to a rating).
+	 * - `limit`: The maximum number of entries to return. Defaults to 50.
+	 * @returns An array of matching audit entries.
+	 */
+	static async find({ entity, id, actor, field, limit = DEFAULT_AUDIT_LIMIT }: FilterOptions = {}) {
+		// Build the query object based on provided filters.
+		const query: Record<string, any> = {}
+
+		if (entity !== undefined) query.entity = entity
+		if (id !== undefined) query.entityId = id
+		if (actor !== undefined) query.actor = actor
+		if (field !== undefined) query['changes.path'] = new RegExp(`^${escapeRegExp(field)}(\\.|$)`)
+
+		// Execute the query. Entries made in the same millisecond are kept in the order they were made.
+		return await AuditModel.find(query).sort({ at: -1, _id: -1 }).limit(Math.min(limit, MAX_AUDIT_LIMIT))
+	}
+
+	/**
+	 * Reverts a product or ingredient to the version before an audit entry, restoring it if it was purged.
+	 * The same checks apply as when restoring a document, and the products listing a reverted ingredient are kept in sync.
+	 * The revert is recorded as an entry of its own, so it can be reverted too.
+	 *
+	 * @param {string} auditId - The id of the audit entry to revert.
+	 * @param {AuditContext} context - Who reverted the change and why. Optional.
+	 * @returns The restored document.
+	 * @throws Will throw an error if the audit entry is not found, if it is the creation of the document, or if another
+	 * document now has the product's brand, flavor, species, lifeStage, and foodType, or the ingredient's name.
+	 */
+	static async revert(auditId: string, context: AuditContext = {}) {
+		// Find the audit entry by id.
+		const entry = await AuditModel.findById(auditId)
+
+		// If entry doesn't exist, throw an error.
+		if (!entry) {
+			throw new Error('Audit entry not found')
+		}
+
+		// There is no earlier version of a document that was created.
+		if (!entry.before) {
+			throw new Error(`Cannot revert the creation of this ${entry.entity}, delete it instead`)
+		}
+
+		const id = String(entry.entityId)
+
+		return await withTransaction(async () => {
+			// Replace the current version, and record the revert in the same transaction.
+			const { current, restored } = entry.entity === 'product'
+				? await Product.revertTo(id, entry.before)
+				: await Ingredient.revertTo(id, entry.before, context)
+
+			await Audit.record(entry.entity as AuditEntity, 'revert', current, restored, context, entry._id)
+
+			return restored
+		})
+	}
+}
+
+export default Audit
@@ -1,8 +1,56 @@
 import mongoose from 'mongoose'
-import { Species } from './productModel'
+import Product, { Species } from './productModel'
+import Audit, { AuditContext } from './auditModel'
+import { DEFAULT_SIMILARITY_THRESHOLD, nameSimilarity, normalizeIngredientName } from '../lib/ingredientNames'
+import { withTransaction } from '../lib/transactions'
+import { escapeRegExp } from '../lib/regex'
+import { IngredientToRate, RatingProvider, RatingSuggestion } from '../lib/ratingProviders'
+
+export const INGREDIENT_CATEGORIES = [
+	'animal protein',
+	'plant protein',
+	'grain',
+	'vegetable',
+	'fruit',
+	'fat/oil',
+	'additive',
+	'preservative',
+	'colorant',
+] as const
+
+export type IngredientCategory = typeof INGREDIENT_CATEGORIES[number]
+
+export const RATING_STATUSES = ['proposed', 'approved'] as const
+export const PROPOSAL_STATUSES = ['proposed', 'approved', 'rejected'] as const
+
+export type RatingStatus = typeof RATING_STATUSES[number]
+export type ProposalStatus = typeof PROPOSAL_STATUSES[number]
+
+export const DEFAULT_REVIEW_LIMIT = 50
+export const MAX_REVIEW_LIMIT = 200
 
 const ingredientSchema = new mongoose.Schema({
 	name: { type: String, required: true },
+	normalizedName: { type: String, index: true }, // e.g. "chicken" for "Chicken (deboned)"
+	aliases: [String], // other names the ingredient is listed under
+	aliasKeys: { type: [String], index: true }, // normalized aliases
+	tags: [{ type: String, lowercase: true, trim: true }], // categories, e.g. poultry, grain or dye
+	category: {
+		type: String,
+		enum: INGREDIENT_CATEGORIES,
+	},
+	sourceAnimal: { type: String, lowercase: true, trim: true }, // e.g. chicken for "Chicken Meal"
+	flags: {
+		byProduct: { type: Boolean, default: false },
+		meal: { type: Boolean, default: false }, // rendered and dried, e.g. "Chicken Meal"
+		artificial: { type: Boolean, default: false },
+	},
+	toxicFor: [
+		{
+			type: String,
+			enum: ['cat', 'dog'],
+		}
+	], // species the ingredient is known to be toxic for
 	ratings: [
 		{
 			species: {
@@ -12,23 +60,114 @@ const ingredientSchema = new mongoose.Schema({
 			},
 			healthRating: Number, // e.g. 10 to -10 scale, (null if unknown)
 			notes: String,
+			status: {
+				type: String,
+				enum: RATING_STATUSES,
+			}, // proposed while a proposal for the species is waiting for review, approved once reviewed, missing if never reviewed
+			reviewedBy: String, // who approved the rating
+			reviewedAt: Date,
+			generatedBy: String, // the provider that suggested the rating (e.g. "rules"), missing if a person set it
 		}
 	],
+	proposals: [
+		{
+			species: {
+				type: String,
+				enum: ['cat', 'dog'],
+				required: true,
+			},
+			healthRating: { type: Number, required: true },
+			notes: String,
+			proposedBy: String,
+			proposedAt: { type: Date, default: Date.now },
+			status: {
+				type: String,
+				enum: PROPOSAL_STATUSES,
+				default: 'proposed',
+			},
+			reviewedBy: String, // the editor who approved or rejected the proposal
+			reviewedAt: Date,
+		}
+	], // ratings suggested by reviewers, which only change `ratings` once an editor approves them
+	deletedAt: Date, // when the ingredient was deleted, missing if it wasn't
+	deletedBy: String, // who deleted it
+	removedFrom: [
+		{
+			product: { type: String, required: true }, // the id of the product
+			name: { type: String, required: true }, // the name the product listed the ingredient under
+			position: { type: Number, required: true },
+		}
+	], // where products listed the ingredient when it was deleted, so that restoring it lists it there again
+})
+
+// Keep the normalized name and aliases in sync with the name and aliases.
+ingredientSchema.pre('save', function () {
+	this.normalizedName = normalizeIngredientName(this.name)
+	this.aliasKeys = this.aliases.map(normalizeIngredientName)
 })
 
 const IngredientModel = mongoose.model('Ingredient', ingredientSchema)
 
+// Suggests ratings for ingredients pushed without one. None by default, see `Ingredient.setRatingProvider`.
+let ratingProvider: RatingProvider | null = null
+
 interface IngredientEntry {
 	id: string
 	name: string
+	aliases?: string[]
+	tags?: string[]
+	category?: IngredientCategory | null
+	sourceAnimal?: string | null
+	flags?: IngredientFlags
+	toxicFor?: Species[]
 	ratings: {
 		id: string
 		species: Species
 		healthRating: number | null
 		notes: string | null
+		status?: RatingStatus | null
+		reviewedBy?: string | null
+		generatedBy?: string | null
 	}[]
 }
 
+export interface IngredientFlags {
+	byProduct?: boolean
+	meal?: boolean
+	artificial?: boolean
+}
+
+export interface IngredientAttributes {
+	category?: IngredientCategory | null
+	sourceAnimal?: string | null
+	flags?: IngredientFlags
+	toxicFor?: Species[]
+}
+
+export interface NewIngredient extends IngredientAttributes {
+	name: string
+	ratings?: { species: Species, healthRating?: number | null, notes?: string | null }[]
+	aliases?: string[]
+	tags?: string[]
+}
+
+interface PushEntry {
+	name: string
+	species: Species
+	healthRating?: number | null
+	notes?: string | null
+}
+
+// The ingredients to push, each with its own species, or names that all share one.
+export type PushEntries = PushEntry[] | { names: string[], species: Species }
+
+export interface SuggestedRating extends RatingSuggestion {
+	generatedBy: string // the name of the provider that suggested the rating
+}
+
+// Suggested ratings by species and normalized ingredient name (see `Ingredient.suggestRatings`).
+export type SuggestedRatings = Map<string, SuggestedRating | null>
+
 interface IngredientInfo {
 	id: string
 	species: Species
@@ -36,13 +175,38 @@ interface IngredientInfo {
 	notes: string | null
 }
 
-interface FilterOptions {
+export interface RatingProposal {
+	species: Species
+	healthRating: number
+	notes?: string | null
+}
+
+export interface ReviewQueueEntry {
+	id: string
+	name: string
+	species: Species
+	healthRating: number | null // the current rating, null if the ingredient is unrated
+	status: RatingStatus | null
+	generatedBy: string | null // the provider that suggested the current rating, null if a person set it
+	productCount: number // how many products for the species list the ingredient
+	proposals: any[] // the proposals for the species that are waiting for review
+}
+
+export interface FilterOptions {
 	id?: string
 	name?: string
+	tag?: string
+	category?: IngredientCategory
+	sourceAnimal?: string
+	byProduct?: boolean
+	meal?: boolean
+	artificial?: boolean
+	toxicFor?: Species
 	species?: string
 	rating?: number | null
 	minRating?: number
 	maxRating?: number
+	includeDeleted?: boolean
 }
 
 /**
@@ -96,31 +260,49 @@ class Ingredient implements IngredientInfo {
 		return IngredientModel
 	}
 
+	/**
+	 * Sets the provider that suggests ratings for ingredients pushed without one (see `lib/ratingProviders`).
+	 *
+	 * @param {RatingProvider | null} provider - The provider, or null to leave missing ratings unknown.
+	 */
+	static setRatingProvider(provider: RatingProvider | null) {
+		ratingProvider = provider
+	}
+
 	/**
 	 * Adds a new ingredient to the database.
 	 * 
-	 * @param {string} name - The name of the ingredient.
-	 * @param {IngredientEntry['ratings']} ratings - An array of rating objects for the ingredient.
-	 * - `species` {Species} - The species for the rating.
-	 * - `healthRating` {Number} - The health rating (10 to -10 scale).
-	 * - `notes` {String} - Any additional details about the ingredient.
+	 * @param {NewIngredient} details - The details of the ingredient.
+	 * - `name` {String} - The name of the ingredient.
+	 * - `ratings` {Array} - The ratings of the ingredient. Optional.
+	 * >- `species` {Species} - The species for the rating.
+	 * >- `healthRating` {Number} - The health rating (10 to -10 scale).
+	 * >- `notes` {String} - Any additional details about the ingredient.
+	 * - `aliases` {String[]} - Other names the ingredient is listed under. Optional.
+	 * - `tags` {String[]} - The categories the ingredient belongs to (e.g., poultry or grain). Optional.
+	 * - `category` {IngredientCategory} - The category of the ingredient (e.g., animal protein or grain). Optional.
+	 * - `sourceAnimal` {String} - The animal the ingredient comes from (e.g., chicken). Optional.
+	 * - `flags` {Object} - Whether the ingredient is a `byProduct`, a `meal` or `artificial`. Optional.
+	 * - `toxicFor` {Species[]} - The species the ingredient is known to be toxic for. Optional.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
+	 * @returns The newly created ingredient document.
 	 * @throws Will throw an error if the ingredient already exists.
 	 */
-	static async add(name: string, ratings: IngredientEntry['ratings']) {
-		// Check if the ingredient already exists.
-		const existing = await IngredientModel.findOne({ name })
+	static async add({ name, ratings = [], aliases = [], tags = [], category, sourceAnimal, flags, toxicFor }: NewIngredient,
+	context: AuditContext = {}) {
+		// Check if the ingredient already exists, under this name or as an alias.
+		const existing = await Ingredient.resolve(name)
 
 		// If it exists, throw an error.
 		if (existing) {
 			throw new Error('Ingredient already exists')
 		}
 
-		// If no ratings provided, initialize as empty array
-		if (!ratings) ratings = []
+		// Create and save the new ingredient, and record it in the audit log.
+		const ingredient = await new IngredientModel({ name, aliases, tags, category, sourceAnimal, flags, toxicFor, ratings }).save()
+		await Audit.record('ingredient', 'create', null, ingredient, context)
 
-		// Create and save the new ingredient.
-		const ingredient = new IngredientModel({ name, ratings })
-		await ingredient.save()
+		return ingredient
 	}
 
 	/**
@@ -129,37 +311,158 @@ class Ingredient implements IngredientInfo {
 	 * @param {Object} filters - An object containing filter criteria.
 	 * - `id`: The id of the ingredient.
 	 * - `name`: The name of the ingredient.
+	 * - `tag`: A category the ingredient belongs to (e.g., poultry or grain).
+	 * - `category`: The category of the ingredient (e.g., animal protein or grain).
+	 * - `sourceAnimal`: The animal the ingredient comes from (e.g., chicken).
+	 * - `byProduct`, `meal`, `artificial`: Whether the ingredient has the flag.
+	 * - `toxicFor`: A species the ingredient is known to be toxic for.
 	 * - `species`: The species (e.g., cat or dog) for the rating.
 	 * - `rating`: The health rating. (null will return all missing ratings)
 	 * - `minRating`: Minimum health rating.
 	 * - `maxRating`: Maximum health rating.
+	 * When `species` is combined with a rating filter, the rating for that species must match.
+	 * - `includeDeleted`: Whether to include deleted ingredients. Defaults to false.
 	 * @returns An array of matching ingredient documents.
 	 * If no filters are provided, returns all ingredients.
 	 */
-	static async find({ id, name, species, rating, minRating, maxRating }: FilterOptions) {
+	static async find(filters: FilterOptions) {
+		const { id, name, tag, category, sourceAnimal, byProduct, meal, artificial, toxicFor, species, rating, minRating, maxRating } = filters
+
+		// Leave out deleted ingredients, unless they are asked for.
+		const notDeleted = filters.includeDeleted ? {} : { deletedAt: null }
+
 		// If id is provided, find by id.
-		if (id) return await IngredientModel.findById(id)
+		if (id) return await IngredientModel.findOne({ _id: id, ...notDeleted })
 
 		// Build the query object based on provided filters.
-		const query: Record<string, any> = {}
+		const query: Record<string, any> = { ...notDeleted }
+
+		if (name !== undefined) query.name = new RegExp(escapeRegExp(name), 'i') // Case-insensitive search for the text
+		if (tag !== undefined) query.tags = tag.trim().toLowerCase()
+		if (category !== undefined) query.category = category
+		if (sourceAnimal !== undefined) query.sourceAnimal = sourceAnimal.trim().toLowerCase()
+		if (toxicFor !== undefined) query.toxicFor = toxicFor
+
+		// Ingredients saved before flags were added have none, so a false flag also matches a missing one.
+		if (byProduct !== undefined) query['flags.byProduct'] = byProduct || { $ne: true }
+		if (meal !== undefined) query['flags.meal'] = meal || { $ne: true }
+		if (artificial !== undefined) query['flags.artificial'] = artificial || { $ne: true }
+
+		// Build the conditions for a single rating, so species and rating filters apply to the same rating.
+		const ratingQuery: Record<string, any> = {}
 
-		if (name !== undefined) query.name = new RegExp(name, 'i') // Case-insensitive regex search
-		if (species !== undefined) query['ratings.species'] = species
+		if (species !== undefined) ratingQuery.species = species
 		if (rating !== undefined) {
-			if (rating === null) {
-				query['ratings.healthRating'] = { $eq: null }
-			} else {
-				query['ratings.healthRating'] = rating
-			}
+			ratingQuery.healthRating = rating
 		} else {
-			if (minRating !== undefined) query['ratings.healthRating'] = { $gte: minRating }
-			if (maxRating !== undefined) query['ratings.healthRating'] = { $lte: maxRating }
+			if (minRating !== undefined) ratingQuery.healthRating = { ...ratingQuery.healthRating, $gte: minRating }
+			if (maxRating !== undefined) ratingQuery.healthRating = { ...ratingQuery.healthRating, $lte: maxRating }
+		}
+
+		if (rating === null) {
+			// Missing ratings include ingredients that have no rating for the species at all.
+			query.$or = [
+				{ ratings: { $elemMatch: ratingQuery } },
+				species !== undefined ? { 'ratings.species': { $ne: species } } : { ratings: { $size: 0 } },
+			]
+		} else if (Object.keys(ratingQuery).length > 0) {
+			query.ratings = { $elemMatch: ratingQuery }
 		}
 
 		// Execute the query.
 		return await IngredientModel.find(query)
 	}
 
+	/**
+	 * Finds all ingredients matching any of the given names.
+	 * Names are matched after normalization, against both the names and aliases of the ingredients. Deleted ingredients are left out.
+	 *
+	 * @param {string[]} names - The names of the ingredients to find.
+	 * @returns An array of matching ingredient documents.
+	 */
+	static async findByNames(names: string[]): Promise<IngredientEntry[]> {
+		const keys = names.map(normalizeIngredientName)
+
+		return await IngredientModel.find({ deletedAt: null, $or: [
+			{ name: { $in: names } },
+			{ normalizedName: { $in: keys } },
+			{ aliasKeys: { $in: keys } },
+		] }) as unknown as IngredientEntry[]
+	}
+
+	/**
+	 * Finds the canonical ingredient for a name, matching the normalized name against the names and aliases of the ingredients.
+	 * Deleted ingredients are left out.
+	 *
+	 * @param {string} name - The name of the ingredient, as listed on a product.
+	 * @returns The matching ingredient document, or null if there is none.
+	 */
+	static async resolve(name: string) {
+		const key = normalizeIngredientName(name)
+
+		return await IngredientModel.findOne({ deletedAt: null, $or: [{ name }, { normalizedName: key }, { aliasKeys: key }] })
+	}
+
+	/**
+	 * Resolves a list of ingredient names to the names of their canonical ingredients.
+	 * Names without a matching ingredient are kept as they are (trimmed), and repeats are removed.
+	 *
+	 * @param {string[]} names - The ingredient names, as listed on a product.
+	 * @returns The canonical ingredient names, in the same order.
+	 */
+	static async resolveNames(names: string[]) {
+		const ingredients = await Ingredient.findByNames(names)
+
+		// Map every normalized name and alias to its canonical name.
+		const canonical = new Map<string, string>()
+
+		for (const ingredient of ingredients) {
+			canonical.set(normalizeIngredientName(ingredient.name), ingredient.name)
+			ingredient.aliases?.forEach(alias => canonical.set(normalizeIngredientName(alias), ingredient.name))
+		}
+
+		const resolved = names.map(name => canonical.get(normalizeIngredientName(name)) ?? name.trim())
+
+		return [...new Set(resolved)]
+	}
+
+	/**
+	 * Finds pairs of ingredients that are likely to be duplicates, based on how similar their names are.
+	 * For each pair, the ingredient with the most ratings is suggested as the one to keep.
+	 *
+	 * @param {Object} options - Options for the report.
+	 * - `threshold` {Number} - The minimum similarity (0 to 1) for a pair to be reported. Defaults to 0.85.
+	 * @returns The likely duplicates, most similar first. Each has the `primary` and `duplicate` ingredient
+	 * (`id`, `name`) and their `similarity`, ready to be passed to `mergeDuplicates`.
+	 */
+	static async findDuplicates({ threshold = DEFAULT_SIMILARITY_THRESHOLD }: { threshold?: number } = {}) {
+		const ingredients = await IngredientModel.find({ deletedAt: null })
+		const duplicates: { primary: { id: string, name: string }, duplicate: { id: string, name: string }, similarity: number }[] = []
+
+		// Compare every pair of ingredients, including their aliases.
+		for (let i = 0; i < ingredients.length; i++) {
+			for (let j = i + 1; j < ingredients.length; j++) {
+				const a = ingredients[i]
+				const b = ingredients[j]
+
+				const similarity = Math.max(...[a.name, ...a.aliases].flatMap(x => [b.name, ...b.aliases].map(y => nameSimilarity(x, y))))
+
+				if (similarity < threshold) continue
+
+				// Keep the ingredient with the most ratings.
+				const [primary, duplicate] = b.ratings.length > a.ratings.length ? [b, a] : [a, b]
+
+				duplicates.push({
+					primary: { id: String(primary._id), name: primary.name },
+					duplicate: { id: String(duplicate._id), name: duplicate.name },
+					similarity: Math.round(similarity * 100) / 100,
+				})
+			}
+		}
+
+		return duplicates.sort((a, b) => b.similarity - a.similarity)
+	}
+
 	/**
 	 * Fetches the rating for a single ingredient for a given species.
 	 *
@@ -215,18 +518,22 @@ class Ingredient implements IngredientInfo {
 	 * @param {string} id - The id of the ingredient to update.
 	 * @param {Object} updates - An object containing the fields to update.
 	 * - `name` {String} - The new name of the ingredient.
-	 * - `ratings` {Array} - An array of new ratings to add or update.
-	 * >- `species` {Species} - The species for the rating.
-	 * >- `healthRating` {Number} - The health rating (10 to -10 scale).
-	 * >- `notes` {String} - Any additional details about the ingredient.
-	 * @returns The updated ingredient document.
+	 * - `aliases` {String[]} - The new list of other names the ingredient is listed under.
+	 * - `tags` {String[]} - The new list of categories the ingredient belongs to.
+	 * - `category` {IngredientCategory} - The new category of the ingredient, or null for none.
+	 * - `sourceAnimal` {String} - The new animal the ingredient comes from, or null for none.
+	 * - `flags` {Object} - The `byProduct`, `meal` and/or `artificial` flags to change.
+	 * - `toxicFor` {Species[]} - The new list of species the ingredient is known to be toxic for.
+	 * Ratings aren't changed here, see `addRating`, `updateRating` and the proposal methods.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
+	 * @returns The updated ingredient document. If the name changed, the products listing the old name are rewritten to the new one.
 	 * @throws Will throw an error if the ingredient is not found or if no updates are provided.
 	 */
-	static async update(id: string, updates: Partial<IngredientEntry>) {
-		const { name, ratings } = updates
+	static async update(id: string, updates: Partial<Omit<IngredientEntry, 'ratings'>>, context: AuditContext = {}) {
+		const { name, aliases, tags, category, sourceAnimal, flags, toxicFor } = updates
 
 		// Find the ingredient by id.
-		const ingredient = await IngredientModel.findById(id)
+		const ingredient = await IngredientModel.findOne({ _id: id, deletedAt: null })
 
 		// If ingredient doesn't exist, throw an error.
 		if (!ingredient) {
@@ -236,70 +543,120 @@ class Ingredient implements IngredientInfo {
 		// Prepare the update object.
 		const update: Record<string, any> = {}
 
-		if (name !== undefined) update.name = name
-		if (ratings !== undefined) update.ratings = ratings
+		if (name !== undefined) {
+			update.name = name
+			update.normalizedName = normalizeIngredientName(name)
+		}
+		if (aliases !== undefined) {
+			update.aliases = aliases
+			update.aliasKeys = aliases.map(normalizeIngredientName)
+		}
+		if (tags !== undefined) update.tags = tags.map(tag => tag.trim().toLowerCase())
+		if (category !== undefined) update.category = category
+		if (sourceAnimal !== undefined) update.sourceAnimal = sourceAnimal?.trim().toLowerCase() ?? null
+		if (flags !== undefined) {
+			// Only change the flags that are provided.
+			for (const [flag, value] of Object.entries(flags)) {
+				if (value !== undefined) update[`flags.${flag}`] = value
+			}
+		}
+		if (toxicFor !== undefined) update.toxicFor = toxicFor
 
 		// If no updates are provided, throw an error.
 		if (Object.keys(update).length === 0) {
 			throw new Error('No updates provided')
 		}
 
-		// Update and return the ingredient.
-		return await IngredientModel.findByIdAndUpdate(id, update, { new: true })
+		return await withTransaction(async () => {
+			// Update the ingredient and record the change in the audit log.
+			const updatedIngredient = await IngredientModel.findByIdAndUpdate(id, update, { new: true })
+			await Audit.record('ingredient', 'update', ingredient, updatedIngredient, context)
+
+			// List the new name on the products that listed the old one.
+			if (name !== undefined && name !== ingredient.name) {
+				await Product.replaceIngredient([ingredient.name], name, { ...context, reason: context.reason ?? `Ingredient ${ingredient.name} renamed to ${name}` })
+			}
+
+			return updatedIngredient
+		})
 	}
 
 	/**
 	 * Adds a new ingredient or updates an existing one based on the name.
+	 * The name is normalized and matched against the names and aliases of existing ingredients.
 	 * If the ingredient exists, updates its rating for the specified species.
 	 * If it doesn't exist, creates a new ingredient with the provided details.
+	 * When no health rating is given and the species isn't rated yet, the rating provider (if any) suggests one,
+	 * which is marked with the provider's name in `generatedBy`. A suggestion never replaces a rating a person set.
+	 * Inside a transaction, pass the suggestion fetched beforehand with `suggestRatings`, so the provider isn't called
+	 * while the transaction is open.
 	 * 
 	 * @param {string} name - The name of the ingredient.
 	 * @param {string} species - The species for the rating ('cat' or 'dog').
 	 * @param {number} healthRating - The health rating (10 to -10 scale).
 	 * @param {string} notes - Any additional details about the rating.
+	 * @param {Object} options - Optional.
+	 * - `suggestion` {SuggestedRating} - The rating suggested for the ingredient, or null if there is none.
+	 * Defaults to asking the rating provider.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
 	 * @returns The created or updated ingredient document.
 	 */
-	static async push(name: string, species: Species, healthRating?: number | null, notes?: string | null) {
-		// Find the ingredient by name.
-		const ingredient = await IngredientModel.findOne({ name })
-
-		// TODO: if `healthRating` is null, use llm to determine rating based on `name` and `species`.
+	static async push(name: string, species: Species, healthRating?: number | null, notes?: string | null,
+		{ suggestion: suggested }: { suggestion?: SuggestedRating | null } = {}, context: AuditContext = {}) {
+		// Find the ingredient by name or alias.
+		const ingredient = await Ingredient.resolve(name)
+		const existingRating = ingredient?.ratings.find(r => r.species === species)
+
+		// If no rating is given and the species isn't rated yet, use the suggested rating, asking the rating provider
+		// for one if none was given.
+		const unrated = (healthRating ?? null) === null && (existingRating?.healthRating ?? null) === null
+		const suggestion = !unrated ? null : suggested !== undefined ? suggested : await Ingredient.suggestRating(ingredient ?? { name }, species)
+
+		const newRating = {
+			species,
+			healthRating: healthRating ?? suggestion?.healthRating ?? null,
+			notes: notes ?? suggestion?.notes ?? null,
+			generatedBy: suggestion?.generatedBy,
+		}
 
 		// If ingredient doesn't exist, add it.
 		if (!ingredient) {
-			const newIngredient = new IngredientModel({
-				name,
-				ratings: [{ 
-					species, 
-					healthRating: healthRating ?? null, 
-					notes: notes ?? null
-				}],
-			})
-			return await newIngredient.save()
-		}
-
-		// Check if a rating for the same species already exists. If so, update the rating and notes.
-		const existingRating = ingredient.ratings.find(r => r.species === species)
+			const newIngredient = new IngredientModel({ name, ratings: [newRating] })
+			await newIngredient.save()
+			await Audit.record('ingredient', 'create', null, newIngredient, context)
+
+			return newIngredient
+		}
+
+		const before = ingredient.toObject()
+
+		// If a rating for the same species already exists, update the rating and notes.
 		if (existingRating) {
 			const update: Record<string, any> = {}
 
 			if (healthRating !== undefined) update.healthRating = healthRating
 			if (notes !== undefined) update.notes = notes
 
+			// A given rating replaces a suggested one, and a suggestion only fills in an unknown rating.
+			if (healthRating !== undefined && healthRating !== null) update.generatedBy = null
+
+			if (suggestion) {
+				Object.assign(update, { healthRating: suggestion.healthRating, notes: notes ?? existingRating.notes ?? suggestion.notes, generatedBy: suggestion.generatedBy })
+			}
+
 			Object.assign(existingRating, update)
 
 			ingredient.markModified('ratings')
 		} else {
 			// If no existing rating for the species, add a new rating.
-			ingredient.ratings.push({ 
-				species,
-				healthRating: healthRating ?? null,
-				notes: notes ?? null
-			})
+			ingredient.ratings.push(newRating)
 		}
 
-		// Save and return the updated ingredient.
-		return await ingredient.save()
+		// Save the updated ingredient and record the change in the audit log.
+		await ingredient.save()
+		await Audit.record('ingredient', 'update', before, ingredient, context)
+
+		return ingredient
 	}
 
 	/**
@@ -311,37 +668,48 @@ class Ingredient implements IngredientInfo {
 	 * - `species` {Species} - The species for the rating ('cat' or 'dog').
 	 * - `healthRating` {Number} - The health rating (10 to -10 scale). Optional.
 	 * - `notes` {String} - Any additional details about the rating. Optional.
-	 * @returns An array of promises for each add/update operation.
+	 * Or an object with the `names` of the ingredients and the `species` they are all rated for.
+	 * @param {Object} options - Optional.
+	 * - `suggestions` {SuggestedRatings} - The ratings suggested for the ingredients, from `suggestRatings`.
+	 * Pass them when pushing inside a transaction. Defaults to asking the rating provider before the transaction.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
+	 * @returns An array of the added or updated ingredient documents.
 	 */
-	static async pushMany(ingredients: ({name: string, species: Species, healthRating?: number | null, notes?: string | null}[] 
-		| {names: string[], species: Species})) {
-		
-		if (Array.isArray(ingredients)) {
-			return ingredients.map(async (ing) => {
-				return await Ingredient.push(ing.name, ing.species, ing.healthRating, ing.notes)
-			})
-		} else {
-			const { names, species } = ingredients
-			return names.map(async (name) => {
-				return await Ingredient.push(name, species)
-			})
-		}
+	static async pushMany(ingredients: PushEntries, { suggestions }: { suggestions?: SuggestedRatings } = {}, context: AuditContext = {}) {
+		const entries = pushEntries(ingredients)
+
+		// Ask the rating provider for any missing ratings before the transaction, since it may be slow.
+		const suggested = suggestions ?? await Ingredient.suggestRatings(entries)
+
+		// Push the ingredients one at a time, so that two names for the same new ingredient don't add it twice,
+		// and so that they can share a transaction.
+		return await withTransaction(async () => {
+			const pushed = []
+
+			for (const ing of entries) {
+				const suggestion = suggested.get(suggestionKey(ing.name, ing.species)) ?? null
+				pushed.push(await Ingredient.push(ing.name, ing.species, ing.healthRating, ing.notes, { suggestion }, context))
+			}
+
+			return pushed
+		})
 	}
 
 	/**
-	 * Adds a new rating to an existing ingredient.
+	 * Adds a new rating to an existing ingredient. A rating added by an editor counts as approved by them.
 	 *
 	 * @param {string} id - The id of the ingredient to add a rating to.
 	 * @param {Object} rating - An object containing the rating details.
 	 * - `species` {Species} - The species for the rating.
 	 * - `healthRating` {Number} - The health rating (10 to -10 scale).
 	 * - `notes` {String} - Any additional details about the rating.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
 	 * @returns The updated ingredient document with the new rating added.
 	 * @throws Will throw an error if the ingredient is not found or if a rating for the same species already exists.
 	 */
-	static async addRating(id: any, { species, healthRating, notes }: any) {
+	static async addRating(id: any, { species, healthRating, notes }: any, context: AuditContext = {}) {
 		// Find the ingredient by id.
-		const ingredient = await IngredientModel.findById(id)
+		const ingredient = await IngredientModel.findOne({ _id: id, deletedAt: null })
 
 		// If ingredient doesn't exist, throw an error.
 		if (!ingredient) {
@@ -353,27 +721,36 @@ class Ingredient implements IngredientInfo {
 			throw new Error(`Rating for species '${species}' already exists`)
 		}
 
-		// Add the new rating.
-		ingredient.ratings.push({ species, healthRating, notes })
+		// Add the new rating, approved by whoever added it.
+		const before = ingredient.toObject()
+		const reviewed = healthRating === undefined || healthRating === null ? {} : { reviewedBy: context.actor ?? null, reviewedAt: new Date() }
+
+		ingredient.ratings.push({ species, healthRating, notes, ...reviewed })
+		syncRatingStatus(ingredient, species)
 		await ingredient.save()
 
-		return await IngredientModel.findById(id)
+		// Record the change in the audit log.
+		const updatedIngredient = await IngredientModel.findById(id)
+		await Audit.record('ingredient', 'update', before, updatedIngredient, context)
+
+		return updatedIngredient
 	}
 
 	/**
-	 * Updates an existing rating for a specific species within an ingredient.
+	 * Updates an existing rating for a specific species within an ingredient. A new health rating counts as approved by the editor who set it.
 	 * 
 	 * @param {string} id - The id of the ingredient containing the rating to update.
 	 * @param {string} species - The species of the rating to update ('cat' or 'dog').
 	 * @param {Object} updates - An object containing the fields to update.
 	 * - `healthRating` {Number} - The new health rating (10 to -10 scale). Optional.
 	 * - `notes` {String} - The new notes for the rating. Optional.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
 	 * @returns The updated ingredient document with the modified rating.
 	 * @throws Will throw an error if the ingredient or rating is not found, or if no updates are provided.
 	 */
-	static async updateRating(id: any, species: string, { healthRating, notes }: any) {
+	static async updateRating(id: any, species: string, { healthRating, notes }: any, context: AuditContext = {}) {
 		// Find the ingredient by id.
-		const ingredient = await IngredientModel.findById(id)
+		const ingredient = await IngredientModel.findOne({ _id: id, deletedAt: null })
 		
 		// If ingredient doesn't exist, throw an error.
 		if (!ingredient) {
@@ -399,16 +776,37 @@ class Ingredient implements IngredientInfo {
 			throw new Error('No updates provided')
 		}
 
+		// A new health rating is approved by whoever set it, and is no longer a suggestion.
+		if (healthRating !== undefined && healthRating !== null) {
+			update.reviewedBy = context.actor ?? null
+			update.reviewedAt = new Date()
+			update.generatedBy = null
+		}
+
 		// Apply the updates to the rating.
+		const before = ingredient.toObject()
 		Object.assign(rating, update)
+		syncRatingStatus(ingredient, species)
 
-		// Save and return the updated ingredient.
-		return await ingredient.save()
+		// Save the updated ingredient and record the change in the audit log.
+		await ingredient.save()
+		await Audit.record('ingredient', 'update', before, ingredient, context)
+
+		return ingredient
 	}
 
-	static async removeRating(id: any, species: string) {
+	/**
+	 * Removes the rating for a specific species from an ingredient.
+	 *
+	 * @param {string} id - The id of the ingredient containing the rating to remove.
+	 * @param {string} species - The species of the rating to remove ('cat' or 'dog').
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
+	 * @returns The updated ingredient document without the rating.
+	 * @throws Will throw an error if the ingredient or rating is not found.
+	 */
+	static async removeRating(id: any, species: string, context: AuditContext = {}) {
 		// Find the ingredient by id.
-		const ingredient = await IngredientModel.findById(id)
+		const ingredient = await IngredientModel.findOne({ _id: id, deletedAt: null })
 		
 		// If ingredient doesn't exist, throw an error.
 		if (!ingredient) {
@@ -424,29 +822,155 @@ class Ingredient implements IngredientInfo {
 		}
 
 		// Remove the rating from the ingredient.
+		const before = ingredient.toObject()
 		ingredient.ratings.splice(ratingIndex, 1)
-		return await ingredient.save()
+
+		// Save the updated ingredient and record the change in the audit log.
+		await ingredient.save()
+		await Audit.record('ingredient', 'update', before, ingredient, context)
+
+		return ingredient
+	}
+
+	/**
+	 * Lists the ingredients that need a review for a species: those without a rating for it, those with a suggested
+	 * rating no one has reviewed, and those with proposals waiting for review (including disputed ratings).
+	 * Deleted ingredients are left out.
+	 *
+	 * @param {Species} species - The species to review the ratings of ('cat' or 'dog').
+	 * @param {Object} options - Options for the queue.
+	 * - `limit` {Number} - The maximum number of ingredients to return. Defaults to 50.
+	 * @returns The ingredients to review, the ones listed on the most products for the species first.
+	 */
+	static async reviewQueue(species: Species, { limit = DEFAULT_REVIEW_LIMIT }: { limit?: number } = {}) {
+		const ingredients = await IngredientModel.find({ deletedAt: null, $or: [
+			{ ratings: { $elemMatch: { species, healthRating: null } } },
+			{ 'ratings.species': { $ne: species } },
+			{ ratings: { $elemMatch: { species, generatedBy: { $ne: null }, reviewedAt: null } } },
+			{ proposals: { $elemMatch: { species, status: 'proposed' } } },
+		] })
+
+		// Count the products that list each ingredient, under its name or any of its aliases.
+		const counts = await Product.countIngredients(species)
+
+		const queue: ReviewQueueEntry[] = ingredients.map(ingredient => {
+			const rating = ingredient.ratings.find(r => r.species === species)
+			const names = new Set([ingredient.name, ...ingredient.aliases].map(normalizeIngredientName))
+
+			return {
+				id: String(ingredient._id),
+				name: ingredient.name,
+				species,
+				healthRating: rating?.healthRating ?? null,
+				status: rating?.status ?? null,
+				generatedBy: rating?.generatedBy ?? null,
+				productCount: [...names].reduce((total, key) => total + (counts.get(key) ?? 0), 0),
+				proposals: ingredient.proposals.filter(p => p.species === species && p.status === 'proposed'),
+			}
+		})
+
+		// Review the most used ingredients first.
+		queue.sort((a, b) => b.productCount - a.productCount || a.name.localeCompare(b.name))
+
+		return queue.slice(0, Math.min(limit, MAX_REVIEW_LIMIT))
+	}
+
+	/**
+	 * Proposes a rating for an ingredient. The proposal waits for an editor to approve or reject it, and the rating
+	 * for the species is marked as proposed until then. If the ingredient has no rating for the species yet,
+	 * an unknown rating is added for it.
+	 *
+	 * @param {string} id - The id of the ingredient.
+	 * @param {RatingProposal} proposal - The proposed rating.
+	 * - `species` {Species} - The species for the rating.
+	 * - `healthRating` {Number} - The proposed health rating (10 to -10 scale).
+	 * - `notes` {String} - Why the rating is proposed. Optional.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
+	 * The `actor` is recorded as who proposed the rating.
+	 * @returns The updated ingredient document.
+	 * @throws Will throw an error if the ingredient is not found.
+	 */
+	static async proposeRating(id: any, { species, healthRating, notes }: RatingProposal, context: AuditContext = {}) {
+		// Find the ingredient by id.
+		const ingredient = await IngredientModel.findOne({ _id: id, deletedAt: null })
+
+		// If ingredient doesn't exist, throw an error.
+		if (!ingredient) {
+			throw new Error('Ingredient not found')
+		}
+
+		const before = ingredient.toObject()
+
+		// Add the proposal, and an unknown rating to show its status on if the species isn't rated yet.
+		ingredient.proposals.push({ species, healthRating, notes: notes ?? null, proposedBy: context.actor ?? null })
+
+		if (!ingredient.ratings.some(r => r.species === species)) {
+			ingredient.ratings.push({ species, healthRating: null, notes: null })
+		}
+
+		syncRatingStatus(ingredient, species)
+
+		// Save the updated ingredient and record the change in the audit log.
+		await ingredient.save()
+		await Audit.record('ingredient', 'update', before, ingredient, context)
+
+		return ingredient
+	}
+
+	/**
+	 * Approves a rating proposal, replacing the rating for its species with the proposed health rating and notes.
+	 *
+	 * @param {string} id - The id of the ingredient.
+	 * @param {string} proposalId - The id of the proposal.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
+	 * The `actor` is recorded as who reviewed the proposal and the rating.
+	 * @returns The updated ingredient document.
+	 * @throws Will throw an error if the ingredient or proposal is not found, or if the proposal has already been reviewed.
+	 */
+	static async approveProposal(id: any, proposalId: string, context: AuditContext = {}) {
+		return await Ingredient.reviewProposal(id, proposalId, 'approved', context)
+	}
+
+	/**
+	 * Rejects a rating proposal. The rating for its species is left as it is.
+	 *
+	 * @param {string} id - The id of the ingredient.
+	 * @param {string} proposalId - The id of the proposal.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
+	 * The `actor` is recorded as who reviewed the proposal.
+	 * @returns The updated ingredient document.
+	 * @throws Will throw an error if the ingredient or proposal is not found, or if the proposal has already been reviewed.
+	 */
+	static async rejectProposal(id: any, proposalId: string, context: AuditContext = {}) {
+		return await Ingredient.reviewProposal(id, proposalId, 'rejected', context)
 	}
 
 	/**
 	 * Merges two ingredients with the same name by combining their ratings.
-	 * The duplicate ingredient is deleted after merging.
+	 * The name and aliases of the duplicate become aliases of the primary ingredient, its tags and toxicity markers
+	 * are added to the primary's, any attributes the primary is missing are copied over, and the duplicate ingredient is deleted after merging
+	 * (it can be restored, but its names keep resolving to the primary ingredient).
 	 * 
 	 * @param {string} primaryId - The id of the primary ingredient to keep.
 	 * @param {string} duplicateId - The id of the duplicate ingredient to merge and delete.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
+	 * The merge is recorded for the primary ingredient, and the deletion for the duplicate.
+	 * Every product listing the duplicate is rewritten to list the primary ingredient instead.
 	 * @returns The updated primary ingredient document.
 	 * @throws Will throw an error if either ingredient is not found.
 	 */
-	static async mergeDuplicates(primaryId: any, duplicateId: any) {
+	static async mergeDuplicates(primaryId: any, duplicateId: any, context: AuditContext = {}) {
 		// Find both ingredients by their ids.
-		const primary = await IngredientModel.findById(primaryId)
-		const duplicate = await IngredientModel.findById(duplicateId)
+		const primary = await IngredientModel.findOne({ _id: primaryId, deletedAt: null })
+		const duplicate = await IngredientModel.findOne({ _id: duplicateId, deletedAt: null })
 
 		// If either ingredient doesn't exist, throw an error.
 		if (!primary || !duplicate) {
 			throw new Error('One or both ingredients not found')
 		}
 
+		const before = primary.toObject()
+
 		// Merge ratings, avoiding duplicates based on species and healthRating.
 		duplicate.ratings.forEach(dr => {
 			// Check if a rating for the same species already exists in primary.
@@ -456,32 +980,349 @@ class Ingredient implements IngredientInfo {
 			if (!exists) primary.ratings.push(dr)
 		})
 
-		// Save the updated primary ingredient.
-		await primary.save()
+		// Keep the duplicate's names as aliases, so they resolve to the primary ingredient.
+		const primaryKey = normalizeIngredientName(primary.name)
+		const known = new Set(primary.aliases.map(normalizeIngredientName))
+
+		for (const alias of [duplicate.name, ...duplicate.aliases]) {
+			const key = normalizeIngredientName(alias)
+
+			if (key !== primaryKey && !known.has(key)) {
+				primary.aliases.push(alias)
+				known.add(key)
+			}
+		}
+
+		// Keep the duplicate's rating proposals, along with the review status of each rating.
+		primary.proposals.push(...duplicate.proposals.map(p => p.toObject()))
+		new Set(primary.ratings.map(r => r.species)).forEach(species => syncRatingStatus(primary, species))
+
+		// Keep the duplicate's tags and toxicity markers.
+		for (const tag of duplicate.tags) {
+			if (!primary.tags.includes(tag)) primary.tags.push(tag)
+		}
+
+		for (const species of duplicate.toxicFor) {
+			if (!primary.toxicFor.includes(species)) primary.toxicFor.push(species)
+		}
+
+		// Fill in any attributes the primary ingredient is missing.
+		if (!primary.category && duplicate.category) primary.category = duplicate.category
+		if (!primary.sourceAnimal && duplicate.sourceAnimal) primary.sourceAnimal = duplicate.sourceAnimal
 
 		// Delete the duplicate ingredient.
-		await IngredientModel.findByIdAndDelete(duplicateId)
+		const duplicateBefore = duplicate.toObject()
+		duplicate.deletedAt = new Date()
+		duplicate.deletedBy = context.actor ?? null
+
+		return await withTransaction(async () => {
+			// Save both ingredients and record the changes in the audit log.
+			await primary.save()
+			await duplicate.save()
+
+			await Audit.record('ingredient', 'merge', before, primary, context)
+			await Audit.record('ingredient', 'delete', duplicateBefore, duplicate, { ...context, reason: context.reason ?? `Merged into ${primary.name}` })
+
+			// List the primary ingredient on the products that listed the duplicate.
+			await Product.replaceIngredient([duplicate.name, ...duplicate.aliases], primary.name,
+				{ ...context, reason: context.reason ?? `Ingredient ${duplicate.name} merged into ${primary.name}` })
 
-		return primary
+			return primary
+		})
 	}
 
 	/**
-	 * Deletes an ingredient from the database.
+	 * Deletes an ingredient. The ingredient is only marked as deleted, so it can be restored until it is purged.
 	 * @param {string} id - The id of the ingredient to delete.
-	 * @returns The deleted ingredient document.
-	 * @throws Will throw an error if the ingredient is not found.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
+	 * The `actor` is recorded as who deleted the ingredient.
+	 * @returns The deleted ingredient document. The ingredient is removed from every product listing it, and where it
+	 * was listed is kept in `removedFrom`, so that restoring the ingredient lists it there again.
+	 * @throws Will throw an error if the ingredient is not found or is already deleted.
+	 */
+	static async delete(id: any, context: AuditContext = {}) {
+		// Find the ingredient by id.
+		const ingredient = await IngredientModel.findOne({ _id: id, deletedAt: null })
+
+		// If ingredient doesn't exist, throw an error.
+		if (!ingredient) {
+			throw new Error('Ingredient not found')
+		}
+
+		// Mark the ingredient as deleted.
+		const before = ingredient.toObject()
+		ingredient.deletedAt = new Date()
+		ingredient.deletedBy = context.actor ?? null
+
+		return await withTransaction(async () => {
+			// Remove the ingredient from the products that list it, remembering where it was listed.
+			const removed = await Product.removeIngredient([ingredient.name, ...ingredient.aliases],
+				{ ...context, reason: context.reason ?? `Ingredient ${ingredient.name} deleted` })
+			ingredient.set('removedFrom', removed)
+
+			// Save the deleted ingredient and record the deletion in the audit log.
+			await ingredient.save()
+			await Audit.record('ingredient', 'delete', before, ingredient, context)
+
+			return ingredient
+		})
+	}
+
+	/**
+	 * Restores a deleted ingredient.
+	 * @param {string} id - The id of the ingredient to restore.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
+	 * @returns The restored ingredient document. The ingredient is listed again where it was on the products it was
+	 * removed from when it was deleted.
+	 * @throws Will throw an error if the ingredient is not found or isn't deleted, or if another ingredient
+	 * now has its name (e.g. after it was merged).
 	 */
-	static async delete(id: any) {
-		// Find and delete the ingredient by id.
-		const ingredient = await IngredientModel.findByIdAndDelete(id)
+	static async restore(id: any, context: AuditContext = {}) {
+		// Find the ingredient by id, including deleted ingredients.
+		const ingredient = await IngredientModel.findById(id)
 
 		// If ingredient doesn't exist, throw an error.
 		if (!ingredient) {
 			throw new Error('Ingredient not found')
 		}
 
+		if (!ingredient.deletedAt) {
+			throw new Error('Ingredient is not deleted')
+		}
+
+		// Check that no other ingredient has taken its name since it was deleted.
+		if (await Ingredient.resolve(ingredient.name)) {
+			throw new Error('Ingredient already exists')
+		}
+
+		// Clear the deletion.
+		const before = ingredient.toObject()
+		const removedFrom = ingredient.removedFrom.map(({ product, name, position }) => ({ product, name, position }))
+		ingredient.deletedAt = null
+		ingredient.deletedBy = null
+		ingredient.set('removedFrom', [])
+
+		return await withTransaction(async () => {
+			// Save the restored ingredient and record it in the audit log.
+			await ingredient.save()
+			await Audit.record('ingredient', 'restore', before, ingredient, context)
+
+			// List the ingredient again on the products it was removed from.
+			await Product.restoreIngredient(removedFrom, { ...context, reason: context.reason ?? `Ingredient ${ingredient.name} restored` })
+
+			return ingredient
+		})
+	}
+
+	/**
+	 * Replaces an ingredient with an earlier version of it, bringing it back if it has been purged since.
+	 * Used to revert changes from the audit log (see `Audit.revert`), which records the change. The products listing
+	 * the ingredient are kept in sync, as when it is renamed, deleted or restored.
+	 *
+	 * @param {string} id - The id of the ingredient.
+	 * @param {Object} version - The earlier version of the ingredient document.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log of the products. Optional.
+	 * @returns The ingredient document before (null if it was purged) and after the change.
+	 * @throws Will throw an error if the version isn't deleted and another ingredient now has its name.
+	 */
+	static async revertTo(id: string, version: any, context: AuditContext = {}) {
+		// Check that no other ingredient has taken the name of the version.
+		const existing = version.deletedAt ? null : await Ingredient.resolve(version.name)
+
+		if (existing && String(existing._id) !== id) {
+			throw new Error('Ingredient already exists')
+		}
+
+		const current = await IngredientModel.findById(id)
+
+		return await withTransaction(async () => {
+			// Replace the current version, or bring the ingredient back if it has been purged since.
+			await IngredientModel.replaceOne({ _id: id }, version, { upsert: true })
+			const restored = (await IngredientModel.findById(id))!
+
+			const wasListed = current !== null && !current.deletedAt
+			const isListed = !version.deletedAt
+			const productContext = { ...context, reason: context.reason ?? `Ingredient ${restored.name} reverted` }
+
+			if (wasListed && isListed && current.name !== restored.name) {
+				// List the reverted name on the products that listed the current one.
+				await Product.replaceIngredient([current.name], restored.name, productContext)
+			} else if (current && !wasListed && isListed) {
+				// List the ingredient again on the products it was removed from when it was deleted.
+				await Product.restoreIngredient(current.removedFrom.map(({ product, name, position }) => ({ product, name, position })), productContext)
+			} else if (wasListed && !isListed) {
+				// Remove the ingredient from the products that list it, as when it is deleted.
+				restored.set('removedFrom', await Product.removeIngredient([current.name, ...current.aliases], productContext))
+				await restored.save()
+			}
+
+			return { current, restored }
+		})
+	}
+
+	/**
+	 * Permanently removes the ingredients that were deleted before a date.
+	 * Each ingredient is recorded in the audit log first, so it can still be brought back by reverting the purge.
+	 * @param {Date} deletedBefore - Ingredients deleted before this date are removed.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
+	 * @returns The removed ingredient documents.
+	 */
+	static async purge(deletedBefore: Date, context: AuditContext = {}) {
+		const ingredients = await IngredientModel.find({ deletedAt: { $lt: deletedBefore } })
+
+		// Remove the ingredients one at a time, recording each in the audit log.
+		for (const ingredient of ingredients) {
+			await IngredientModel.deleteOne({ _id: ingredient._id })
+			await Audit.record('ingredient', 'purge', ingredient, null, context)
+		}
+
+		return ingredients
+	}
+
+	/**
+	 * Asks the rating provider for the ratings of the ingredients that would be pushed without one, for a species
+	 * they aren't rated for yet. The provider may be slow (e.g. an external model), and a transaction may be retried,
+	 * so call this before opening a transaction that pushes the ingredients, and pass the suggestions to `pushMany`.
+	 *
+	 * @param {PushEntries} ingredients - The ingredients to push, as given to `pushMany`.
+	 * @returns The suggested ratings.
+	 */
+	static async suggestRatings(ingredients: PushEntries) {
+		const suggestions: SuggestedRatings = new Map()
+
+		if (!ratingProvider) return suggestions
+
+		for (const { name, species, healthRating } of pushEntries(ingredients)) {
+			const key = suggestionKey(name, species)
+
+			// Skip ingredients given a rating, and names already asked about.
+			if ((healthRating ?? null) !== null || suggestions.has(key)) continue
+
+			// Only ask about ingredients that aren't rated for the species yet.
+			const ingredient = await Ingredient.resolve(name)
+			if ((ingredient?.ratings.find(r => r.species === species)?.healthRating ?? null) !== null) continue
+
+			suggestions.set(key, await Ingredient.suggestRating(ingredient ?? { name }, species))
+		}
+
+		return suggestions
+	}
+
+	/**
+	 * Asks the rating provider for the rating of an ingredient.
+	 * A provider that fails, or suggests a rating outside the scale, leaves the ingredient unrated, so that it never
+	 * stops the ingredient from being added.
+	 *
+	 * @param {IngredientToRate} ingredient - The ingredient to rate.
+	 * @param {Species} species - The species to rate it for.
+	 * @returns The suggested rating, with the name of the provider in `generatedBy`, or null if there is none.
+	 */
+	private static async suggestRating(ingredient: IngredientToRate, species: Species): Promise<SuggestedRating | null> {
+		if (!ratingProvider) return null
+
+		const { name } = ratingProvider
+
+		try {
+			const suggestion = await ratingProvider.suggest(ingredient, species)
+
+			if (!suggestion || !Number.isFinite(suggestion.healthRating) || Math.abs(suggestion.healthRating) > 10) return null
+
+			return { ...suggestion, generatedBy: name }
+		} catch (err: any) {
+			console.error(`Rating provider '${name}' failed to rate ${ingredient.name}:`, err.message)
+			return null
+		}
+	}
+
+	/**
+	 * Approves or rejects a rating proposal.
+	 *
+	 * @param {string} id - The id of the ingredient.
+	 * @param {string} proposalId - The id of the proposal.
+	 * @param {ProposalStatus} status - The decision ('approved' or 'rejected').
+	 * @param {AuditContext} context - Who made the change and why, for the audit log.
+	 * @returns The updated ingredient document.
+	 * @throws Will throw an error if the ingredient or proposal is not found, or if the proposal has already been reviewed.
+	 */
+	private static async reviewProposal(id: any, proposalId: string, status: Exclude<ProposalStatus, 'proposed'>, context: AuditContext) {
+		// Find the ingredient by id.
+		const ingredient = await IngredientModel.findOne({ _id: id, deletedAt: null })
+
+		// If ingredient doesn't exist, throw an error.
+		if (!ingredient) {
+			throw new Error('Ingredient not found')
+		}
+
+		// Find the proposal, which can only be reviewed once.
+		const proposal = ingredient.proposals.find(p => String(p._id) === String(proposalId))
+
+		if (!proposal) {
+			throw new Error('Proposal not found')
+		}
+
+		if (proposal.status !== 'proposed') {
+			throw new Error(`Proposal has already been ${proposal.status}`)
+		}
+
+		const before = ingredient.toObject()
+		const reviewed = { reviewedBy: context.actor ?? null, reviewedAt: new Date() }
+
+		Object.assign(proposal, { status, ...reviewed })
+
+		// Replace the rating with the approved one.
+		if (status === 'approved') {
+			const approved = { healthRating: proposal.healthRating, notes: proposal.notes ?? null, generatedBy: null, ...reviewed }
+			const rating = ingredient.ratings.find(r => r.species === proposal.species)
+
+			if (rating) Object.assign(rating, approved)
+			else ingredient.ratings.push({ species: proposal.species, ...approved })
+		}
+
+		syncRatingStatus(ingredient, proposal.species)
+
+		// Save the updated ingredient and record the change in the audit log.
+		await ingredient.save()
+		await Audit.record('ingredient', 'update', before, ingredient, context)
+
 		return ingredient
 	}
 }
 
-module.exports = Ingredient
+/**
+ * Sets the review status of the rating for a species: proposed while a proposal for the species is waiting for review,
+ * approved if it has been reviewed, and none otherwise.
+ *
+ * @param {Object} ingredient - The ingredient document.
+ * @param {string} species - The species of the rating.
+ */
+function syncRatingStatus(ingredient: any, species: string) {
+	const rating = ingredient.ratings.find((r: any) => r.species === species)
+	if (!rating) return
+
+	const pending = ingredient.proposals.some((p: any) => p.species === species && p.status === 'proposed')
+
+	rating.status = pending ? 'proposed' : rating.reviewedAt ? 'approved' : null
+}
+
+/**
+ * Lists the ingredients to push, each with its species.
+ *
+ * @param {PushEntries} ingredients - The ingredients, as given to `pushMany`.
+ * @returns The ingredients.
+ */
+function pushEntries(ingredients: PushEntries): PushEntry[] {
+	return Array.isArray(ingredients) ? ingredients : ingredients.names.map(name => ({ name, species: ingredients.species }))
+}
+
+/**
+ * Returns the key of the rating suggested for an ingredient and a species, in `SuggestedRatings`.
+ *
+ * @param {string} name - The name of the ingredient.
+ * @param {Species} species - The species of the rating.
+ * @returns The key.
+ */
+function suggestionKey(name: string, species: Species) {
+	return `${species}:${normalizeIngredientName(name)}`
+}
+
+export default Ingredient
@@ -0,0 +1,264 @@
+import mongoose from 'mongoose'
+import Product, { FOOD_TYPES, FoodType, SPECIES, Species } from './productModel'
+import { ACTIVITY_LEVELS, ActivityLevel } from '../lib/feeding'
+
+export const PET_LIFE_STAGES = ['adult', 'young'] as const
+
+export type PetLifeStage = typeof PET_LIFE_STAGES[number]
+
+const petSchema = new mongoose.Schema({
+	name: { type: String, required: true },
+	species: {
+		type: String,
+		enum: SPECIES,
+		required: true,
+	},
+	age: { type: Number, required: true }, // years
+	weight: { type: Number, required: true }, // lbs
+	lifeStage: {
+		type: String,
+		enum: PET_LIFE_STAGES,
+		required: true,
+	},
+	activityLevel: {
+		type: String,
+		enum: ACTIVITY_LEVELS,
+		default: 'normal',
+	},
+	neutered: { type: Boolean, default: true }, // or spayed
+	preferredFoodType: {
+		type: String,
+		enum: FOOD_TYPES,
+	},
+	excludedIngredients: [String], // e.g. allergies
+	excludedCategories: [String], // e.g. poultry or grain
+})
+
+const PetModel = mongoose.model('Pet', petSchema)
+
+interface PetEntry {
+	name: string
+	species: Species
+	age: number
+	weight: number
+	lifeStage: PetLifeStage
+	activityLevel: ActivityLevel
+	neutered: boolean
+	preferredFoodType: FoodType | null
+	excludedIngredients: string[]
+	excludedCategories: string[]
+}
+
+export interface FilterOptions {
+	id?: string
+	name?: string
+	species?: Species
+}
+
+/**
+ * Pet class to manage saved pet profiles and interactions with the database.
+ */
+class Pet {
+	//////////////////////
+	/// STATIC METHODS ///
+	//////////////////////
+
+	/**
+	 * Gets the Pet mongoose model.
+	 *
+	 * @returns {Promise<mongoose.Model>} The Pet mongoose model.
+	 */
+	static async getModel() {
+		return PetModel
+	}
+
+	/**
+	 * Adds a new pet to the database.
+	 *
+	 * @param {string} name - The name of the pet.
+	 * @param {Species} species - The species of the pet (e.g., cat or dog).
+	 * @param {number} age - The age of the pet (in years).
+	 * @param {number} weight - The weight of the pet (in lbs).
+	 * @param {PetLifeStage} lifeStage - The life stage of the pet (e.g., adult or young).
+	 * @param {ActivityLevel} activityLevel - How active the pet is (low, normal or high). Defaults to normal.
+	 * @param {FoodType} preferredFoodType - The type of food the pet prefers (e.g., dry or wet). Optional.
+	 * @param {string[]} excludedIngredients - Ingredients the pet must avoid, such as allergies. Optional.
+	 * @param {string[]} excludedCategories - Categories of ingredients the pet must avoid (e.g., poultry or grain). Optional.
+	 * @param {boolean} neutered - Whether the pet is neutered or spayed. Defaults to true.
+	 * @returns The newly created pet document.
+	 */
+	static async add(name: string, species: Species, age: number, weight: number, lifeStage: PetLifeStage,
+	activityLevel?: ActivityLevel, preferredFoodType?: FoodType | null, excludedIngredients?: string[], excludedCategories?: string[],
+	neutered?: boolean) {
+		// Create and save the new pet.
+		const pet = new PetModel({ name, species, age, weight, lifeStage, activityLevel, neutered, preferredFoodType, excludedIngredients, excludedCategories })
+		return await pet.save()
+	}
+
+	/**
+	 * Finds pets based on provided filters.
+	 *
+	 * @param {Object} filters - An object containing filter criteria.
+	 * - `id`: The id of the pet.
+	 * - `name`: The name of the pet.
+	 * - `species`: The species of the pet (e.g., cat or dog).
+	 * @returns An array of matching pet documents, or a single pet if `id` is provided.
+	 * If no filters are provided, returns all pets.
+	 */
+	static async find({ id, name, species }: FilterOptions) {
+		// If id is provided, find by id.
+		if (id) return await PetModel.findById(id)
+
+		// Build the query object based on provided filters.
+		const query: Record<string, any> = {}
+
+		if (name !== undefined) query.name = name
+		if (species !== undefined) query.species = species
+
+		// Execute the query.
+		return await PetModel.find(query)
+	}
+
+	/**
+	 * Updates an existing pet's details.
+	 *
+	 * @param {string} id - The id of the pet to update.
+	 * @param {Object} updates - An object containing the fields to update.
+	 * - `name` {String} - The new name of the pet.
+	 * - `species` {Species} - The new species of the pet.
+	 * - `age` {Number} - The new age of the pet (in years).
+	 * - `weight` {Number} - The new weight of the pet (in lbs).
+	 * - `lifeStage` {PetLifeStage} - The new life stage of the pet.
+	 * - `activityLevel` {ActivityLevel} - How active the pet now is.
+	 * - `neutered` {Boolean} - Whether the pet is now neutered or spayed.
+	 * - `preferredFoodType` {FoodType} - The new preferred type of food, or null for no preference.
+	 * - `excludedIngredients` {String[]} - The new list of ingredients the pet must avoid.
+	 * - `excludedCategories` {String[]} - The new list of categories of ingredients the pet must avoid.
+	 * @returns The updated pet document.
+	 * @throws Will throw an error if the pet is not found or if no updates are provided.
+	 */
+	static async update(id: string, updates: Partial<PetEntry>) {
+		const { name, species, age, weight, lifeStage, activityLevel, neutered, preferredFoodType, excludedIngredients, excludedCategories } = updates
+
+		// Find the pet by id.
+		const pet = await PetModel.findById(id)
+
+		// If pet doesn't exist, throw an error.
+		if (!pet) {
+			throw new Error('Pet not found')
+		}
+
+		// Prepare the update object.
+		const update: Record<string, any> = {}
+
+		if (name !== undefined) update.name = name
+		if (species !== undefined) update.species = species
+		if (age !== undefined) update.age = age
+		if (weight !== undefined) update.weight = weight
+		if (lifeStage !== undefined) update.lifeStage = lifeStage
+		if (activityLevel !== undefined) update.activityLevel = activityLevel
+		if (neutered !== undefined) update.neutered = neutered
+		if (preferredFoodType !== undefined) update.preferredFoodType = preferredFoodType
+		if (excludedIngredients !== undefined) update.excludedIngredients = excludedIngredients
+		if (excludedCategories !== undefined) update.excludedCategories = excludedCategories
+
+		// If no updates are provided, throw an error.
+		if (Object.keys(update).length === 0) {
+			throw new Error('No updates provided')
+		}
+
+		// Update and return the pet.
+		return await PetModel.findByIdAndUpdate(id, update, { new: true })
+	}
+
+	/**
+	 * Calculates how much of a product to feed a saved pet, and what it costs.
+	 * If no row of the product's feeding chart covers the pet, the serving is calculated from the pet's
+	 * energy requirement, using its species, weight, age, neuter status and activity level.
+	 *
+	 * @param {string} id - The id of the pet.
+	 * @param {string} productId - The id of the product.
+	 * @returns The serving for the pet, where it came from and the min/max daily, monthly and yearly cost of each size,
+	 * as returned by `Product.getFeedingCost`.
+	 * @throws Will throw an error if the pet or product is not found, or if neither the feeding chart nor the
+	 * product's calories can be used.
+	 */
+	static async getFeeding(id: string, productId: string) {
+		const pet = await Pet.getOne(id)
+
+		return await Product.getFeedingCost(productId, {
+			age: pet.age,
+			weight: pet.weight,
+			neutered: pet.neutered ?? undefined,
+			activityLevel: pet.activityLevel ?? undefined,
+		})
+	}
+
+	/**
+	 * Recommends products for a saved pet, ranked by ingredient quality and cost per day.
+	 * Products are filtered by the pet's species, life stage and preferred food type, and any product
+	 * containing one of the pet's excluded ingredients, or an ingredient in an excluded category, is left out.
+	 *
+	 * @param {string} id - The id of the pet.
+	 * @param {Object} options - Ranking options.
+	 * - `qualityWeight` {Number} - How much quality counts compared to cost (0 to 1).
+	 * - `budget` {Number} - The maximum cost per month. Optional.
+	 * @returns The ranked, skipped and excluded products, as returned by `Product.recommend`.
+	 * @throws Will throw an error if the pet is not found.
+	 */
+	static async recommend(id: string, { qualityWeight, budget }: { qualityWeight?: number, budget?: number } = {}) {
+		const pet = await Pet.getOne(id)
+
+		return await Product.recommend({
+			species: pet.species,
+			lifeStage: pet.lifeStage,
+			age: pet.age,
+			weight: pet.weight,
+			neutered: pet.neutered ?? undefined,
+			activityLevel: pet.activityLevel ?? undefined,
+			foodType: pet.preferredFoodType ?? undefined,
+			excludedIngredients: pet.excludedIngredients,
+			excludedCategories: pet.excludedCategories,
+			budget,
+		}, { qualityWeight })
+	}
+
+	/**
+	 * Deletes a pet from the database.
+	 *
+	 * @param {string} id - The id of the pet to delete.
+	 * @returns The deleted pet document.
+	 * @throws Will throw an error if the pet is not found.
+	 */
+	static async delete(id: string) {
+		// Find and delete the pet by id.
+		const pet = await PetModel.findByIdAndDelete(id)
+
+		// If pet doesn't exist, throw an error.
+		if (!pet) {
+			throw new Error('Pet not found')
+		}
+
+		return pet
+	}
+
+	/**
+	 * Finds a pet by id.
+	 *
+	 * @param {string} id - The id of the pet.
+	 * @returns The pet document.
+	 * @throws Will throw an error if the pet is not found.
+	 */
+	private static async getOne(id: string) {
+		const pet = await PetModel.findById(id)
+
+		// If pet doesn't exist, throw an error.
+		if (!pet) {
+			throw new Error('Pet not found')
+		}
+
+		return pet
+	}
+}
+
+export default Pet
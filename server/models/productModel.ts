@@ -1,25 +1,65 @@
 const mongoose = require('mongoose')
-const Ingredient = require('./ingredientModel')
+import Ingredient from './ingredientModel'
+import Audit, { AuditContext } from './auditModel'
+import { calculateQualityScore, QualityScore, RatedIngredient } from '../lib/qualityScore'
+import { ActivityLevel, averageDailyCost, calculateSizeCosts, DAYS_PER_MONTH, energyRequirement, EnergyRequirement, FeedingChartRow,
+	findFeedingRow, SizeCost } from '../lib/feeding'
+import { DEFAULT_QUALITY_WEIGHT, rankCandidates } from '../lib/recommendations'
+import { normalizeIngredientName } from '../lib/ingredientNames'
+import { ExclusionReason, Exclusions, findExclusionReasons, hasExclusions } from '../lib/exclusions'
+import { Calories, dryMatterBasis, GuaranteedAnalysis, kcalPerServing, servingForCalories } from '../lib/nutrition'
+import { priceStats, PriceRecord, recordPrice } from '../lib/priceHistory'
+import { bestOffer, bestPrice, Offer } from '../lib/offers'
+import { ValidationIssue } from '../lib/validation'
+import { withTransaction } from '../lib/transactions'
+import { escapeRegExp } from '../lib/regex'
+
+export const SPECIES = ['cat', 'dog'] as const
+export const LIFE_STAGES = ['adult', 'young', 'all'] as const
+export const FOOD_TYPES = ['dry', 'wet'] as const
+export const UNITS = ['lb', 'can'] as const
+
+export type Packaging = 'bag' | 'case' | 'can'
+export type Species = typeof SPECIES[number]
+export type FoodType = typeof FOOD_TYPES[number]
+export type LifeStage = typeof LIFE_STAGES[number]
+export type Unit = typeof UNITS[number]
+
+export const DEFAULT_PRICE_SOURCE = 'manual'
+export const IMPORT_PRICE_SOURCE = 'import'
 
 const productSchema = new mongoose.Schema({
 	brand: String,
 	flavor: String,
 	species: {
 		type: String,
-		enum: ['cat', 'dog'],
+		enum: SPECIES,
 		required: true,
 	},
 	lifeStage: {
 		type: String,
-		enum: ['adult', 'young', 'all'],
+		enum: LIFE_STAGES,
 		required: true,
 	},
 	foodType: {
 		type: String,
-		enum: ['dry', 'wet'],
+		enum: FOOD_TYPES,
 		required: true,
 	},
 	ingredients: [String],
+	cupsPerLb: Number, // density of dry food, used to convert lbs into cups
+	guaranteedAnalysis: {
+		protein: { min: Number, max: Number }, // percent, as fed
+		fat: { min: Number, max: Number },
+		fiber: { min: Number, max: Number },
+		moisture: { min: Number, max: Number },
+	},
+	calories: {
+		kcalPerCup: Number,
+		kcalPerCan: Number,
+		kcalPerKg: Number,
+	},
+	aafcoStatement: String, // e.g. "formulated to meet the nutritional levels established by the AAFCO Cat Food Nutrient Profiles for maintenance"
 	sizes: [
 		{
 			packaging: String, // e.g. bag, case, can
@@ -27,11 +67,29 @@ const productSchema = new mongoose.Schema({
 			count: Number,
 			unit: {
 				type: String,
-				enum: ['lb', 'can'],
+				enum: UNITS,
 				required: true,
 			},
-			links: [String],
+			upc: String, // the barcode of the size, used to match retailer price feeds
+			offers: [
+				{
+					retailer: String, // e.g. chewy, petco or amazon
+					url: String,
+					price: Number,
+					shipping: { type: Number, default: 0 },
+					subscribeDiscount: { type: Number, default: 0 }, // percent off when subscribing
+					inStock: { type: Boolean, default: true },
+					lastCheckedAt: { type: Date, default: Date.now },
+				}
+			],
 			imageUrls: [String],
+			priceHistory: [
+				{
+					price: Number,
+					recordedAt: { type: Date, default: Date.now },
+					source: String, // e.g. manual, import or a retailer feed
+				}
+			],
 		},
 	],
 	feedingChart: [
@@ -44,30 +102,33 @@ const productSchema = new mongoose.Schema({
 			maxServing: Number,
 		}
 	],
+	deletedAt: Date, // when the product was deleted, missing if it wasn't
+	deletedBy: String, // who deleted it
 })
 
 const ProductModel = mongoose.model('Product', productSchema)
 
-export type Packaging = 'bag' | 'case' | 'can'
-export type Species = 'cat' | 'dog'
-export type FoodType = 'dry' | 'wet'
-export type LifeStage = 'adult' | 'young' | 'all'
-export type Unit = 'lb' | 'can'
-
-interface ProductEntry {
+export interface ProductEntry {
 	brand: string
 	flavor: string
 	species: Species
 	lifeStage: LifeStage
 	foodType: FoodType
 	ingredients: string[]
+	cupsPerLb?: number | null
+	guaranteedAnalysis?: GuaranteedAnalysis | null
+	calories?: Calories | null
+	aafcoStatement?: string | null
 	sizes: {
+		_id?: string
 		packaging: string
 		price: number
 		count: number
 		unit: Unit
-		links: string[]
+		upc?: string | null
+		offers?: Offer[]
 		imageUrls: string[]
+		priceHistory?: PriceRecord[]
 	}[]
 	feedingChart: {
 		minAge: number
@@ -87,8 +148,46 @@ interface ProductInfo {
 	lifeStage: LifeStage
 	foodType: FoodType
 	ingredients: ProductEntry['ingredients']
+	cupsPerLb: number | null
 	sizes: ProductEntry['sizes']
 	feedingChart: ProductEntry['feedingChart']
+	guaranteedAnalysis: GuaranteedAnalysis
+	calories: Calories
+	aafcoStatement: string | null
+}
+
+export interface Nutrition {
+	guaranteedAnalysis?: GuaranteedAnalysis | null
+	calories?: Calories | null
+	aafcoStatement?: string | null
+}
+
+export interface Deletion {
+	deletedAt: Date | null
+	deletedBy: string | null
+}
+
+export interface FeedingDetails {
+	age: number // years
+	weight: number // lbs
+	neutered?: boolean
+	activityLevel?: ActivityLevel
+	kcalPerDay?: number
+}
+
+export type ServingSource = 'feedingChart' | 'energyFormula' | 'calories'
+
+export interface PetProfile {
+	species: Species
+	lifeStage: LifeStage
+	age: number
+	weight: number
+	neutered?: boolean
+	activityLevel?: ActivityLevel
+	foodType?: FoodType
+	budget?: number
+	excludedIngredients?: string[]
+	excludedCategories?: string[]
 }
 
 export interface FilterOptions {
@@ -98,6 +197,59 @@ export interface FilterOptions {
 	species?: Species
 	lifeStage?: LifeStage
 	foodType?: FoodType
+	search?: string
+	includesIngredients?: string[]
+	excludesIngredients?: string[]
+	minProteinDM?: number
+	maxProteinDM?: number
+	minFatDM?: number
+	maxFatDM?: number
+	includeDeleted?: boolean
+}
+
+export type SortField = 'brand' | 'price' | 'qualityScore' | 'costPerDay' | 'proteinDM' | 'fatDM'
+
+export const SORT_FIELDS: SortField[] = ['brand', 'price', 'qualityScore', 'costPerDay', 'proteinDM', 'fatDM']
+
+export const DEFAULT_PAGE_SIZE = 20
+export const MAX_PAGE_SIZE = 100
+
+export interface ListOptions {
+	sort?: SortField
+	order?: 'asc' | 'desc'
+	limit?: number
+	cursor?: string
+	pet?: { age: number, weight: number }
+	exclusions?: Exclusions
+}
+
+export const DUPLICATE_POLICIES = ['skip', 'update', 'fail'] as const
+
+export type DuplicatePolicy = typeof DUPLICATE_POLICIES[number]
+
+export type ImportStatus = 'created' | 'updated' | 'skipped' | 'invalid' | 'failed'
+
+export interface ImportResult {
+	row: number
+	brand: string | null
+	flavor: string | null
+	status: ImportStatus
+	productId: string | null
+	error: string | null
+	issues?: ValidationIssue[]
+}
+
+export interface IngredientListing {
+	product: string // the id of the product
+	name: string // the name the product listed the ingredient under
+	position: number // where in the ingredient list it was listed, starting at 0
+}
+
+export interface ExcludedProduct {
+	productId: string
+	brand: string
+	flavor: string
+	reasons: ExclusionReason[]
 }
 
 /**
@@ -111,11 +263,16 @@ class Product implements ProductInfo {
 	private _lifeStage: LifeStage
 	private _foodType: FoodType
 	private _ingredients: ProductInfo['ingredients']
+	private _cupsPerLb: number | null
 	private _sizes: ProductInfo['sizes']
 	private _feedingChart: ProductInfo['feedingChart']
+	private _nutrition: Nutrition
+	private _quality: QualityScore
+	private _deletion: Deletion
 
 	private constructor(id: string, brand: string, flavor: string, species: Species, lifeStage: LifeStage, foodType: FoodType, 
-	ingredients: ProductInfo['ingredients'], sizes: ProductInfo['sizes'], feedingChart: ProductInfo['feedingChart']) {
+	ingredients: ProductInfo['ingredients'], cupsPerLb: number | null, sizes: ProductInfo['sizes'], feedingChart: ProductInfo['feedingChart'],
+	nutrition: Nutrition, quality: QualityScore, deletion: Deletion = { deletedAt: null, deletedBy: null }) {
 		this._id = id
 		this._brand = brand
 		this._flavor = flavor
@@ -123,8 +280,12 @@ class Product implements ProductInfo {
 		this._lifeStage = lifeStage
 		this._foodType = foodType
 		this._ingredients = ingredients
+		this._cupsPerLb = cupsPerLb
 		this._sizes = sizes
 		this._feedingChart = feedingChart
+		this._nutrition = nutrition
+		this._quality = quality
+		this._deletion = deletion
 	}
 
 	get id() {
@@ -155,6 +316,10 @@ class Product implements ProductInfo {
 		return [...this._ingredients]
 	}
 
+	get cupsPerLb() {
+		return this._cupsPerLb
+	}
+
 	get sizes() {
 		return [...this._sizes]
 	}
@@ -163,8 +328,128 @@ class Product implements ProductInfo {
 		return [...this._feedingChart]
 	}
 
+	get guaranteedAnalysis() {
+		return { ...this._nutrition.guaranteedAnalysis }
+	}
+
+	get calories() {
+		return { ...this._nutrition.calories }
+	}
+
+	get aafcoStatement() {
+		return this._nutrition.aafcoStatement ?? null
+	}
+
+	get dryMatter() {
+		return dryMatterBasis(this._nutrition.guaranteedAnalysis)
+	}
+
 	get qualityScore() {
-		return 0
+		return this._quality.score
+	}
+
+	get qualityConfidence() {
+		return this._quality.confidence
+	}
+
+	get qualityBreakdown() {
+		return [...this._quality.breakdown]
+	}
+
+	get deletedAt() {
+		return this._deletion.deletedAt
+	}
+
+	get deletedBy() {
+		return this._deletion.deletedBy
+	}
+
+	toJSON() {
+		return {
+			id: this.id,
+			brand: this.brand,
+			flavor: this.flavor,
+			species: this.species,
+			lifeStage: this.lifeStage,
+			foodType: this.foodType,
+			ingredients: this.ingredients,
+			cupsPerLb: this.cupsPerLb,
+			sizes: this.sizes.map(({ priceHistory, ...size }) => ({
+				...size,
+				bestOffer: bestOffer(size.offers),
+				priceStats: priceStats(priceHistory ?? [], size.price),
+			})),
+			feedingChart: this.feedingChart,
+			guaranteedAnalysis: this.guaranteedAnalysis,
+			calories: this.calories,
+			aafcoStatement: this.aafcoStatement,
+			dryMatter: this.dryMatter,
+			qualityScore: this.qualityScore,
+			qualityConfidence: this.qualityConfidence,
+			qualityBreakdown: this.qualityBreakdown,
+			deletedAt: this.deletedAt,
+			deletedBy: this.deletedBy,
+		}
+	}
+
+	/**
+	 * Calculates the cost of feeding the product to a pet.
+	 * The serving comes from the product's feeding chart. If no row of the chart covers the pet, the pet's
+	 * maintenance energy requirement is calculated instead, and served using the product's calories.
+	 * If the calories the pet needs per day are given, they are always used instead of the chart.
+	 *
+	 * @param {FeedingDetails} pet - The details of the pet.
+	 * - `age` {Number} - The age of the pet (in years).
+	 * - `weight` {Number} - The weight of the pet (in lbs).
+	 * - `neutered` {Boolean} - Whether the pet is neutered or spayed. Defaults to true.
+	 * - `activityLevel` {ActivityLevel} - How active the pet is (low, normal or high). Defaults to normal.
+	 * - `kcalPerDay` {Number} - The calories the pet needs per day. Optional.
+	 * @returns The serving used (`feedingChartRow`), where it came from (`source`: 'feedingChart', 'energyFormula'
+	 * or 'calories'), the energy requirement of the pet if it was calculated (`energy`), the cost of each size,
+	 * and the size with the lowest average cost per day.
+	 * @throws Will throw an error if no feeding chart row covers the pet and the calories of the product are unknown,
+	 * if there are no sizes, or if a size cannot be converted into servings.
+	 */
+	costFor({ age, weight, neutered, activityLevel, kcalPerDay }: FeedingDetails) {
+		let row: FeedingChartRow | null = null
+		let source: ServingSource = 'feedingChart'
+		let energy: EnergyRequirement | null = null
+
+		if (kcalPerDay === undefined) {
+			// Find the feeding chart row that covers the pet.
+			row = findFeedingRow(this.feedingChart, { age, weight })
+
+			// If no row covers the pet, fall back to the energy formula if the product's calories are known.
+			if (!row && kcalPerServing(this) !== null) {
+				energy = energyRequirement({ species: this.species, age, weight, neutered, activityLevel })
+				kcalPerDay = energy.mer
+				source = 'energyFormula'
+			}
+		} else {
+			source = 'calories'
+		}
+
+		if (kcalPerDay !== undefined) {
+			// Serve enough of the food to provide the calories.
+			const serving = servingForCalories(kcalPerDay, this)
+			row = { minServing: serving, maxServing: serving }
+		}
+
+		// If no row covers the pet, throw an error.
+		if (!row) {
+			throw new Error(`No feeding chart entry covers a ${weight} lb pet aged ${age} years, and the calories of the product are unknown`)
+		}
+
+		const costs = calculateSizeCosts(this.sizes, row, this)
+
+		if (costs.length === 0) {
+			throw new Error('No sizes available')
+		}
+
+		// Find the size with the lowest average cost per day.
+		const cheapestSize = costs.reduce((cheapest, cost) => averageDailyCost(cost) < averageDailyCost(cheapest) ? cost : cheapest)
+
+		return { feedingChartRow: row, source, energy, costs, cheapestSize, dailyCost: averageDailyCost(cheapestSize) }
 	}
 
 	//////////////////////
@@ -180,52 +465,150 @@ class Product implements ProductInfo {
 		return ProductModel
 	}
 
+	/**
+	 * Creates Product instances from product documents, scoring each one by the ratings of its ingredients.
+	 * Ingredients known to be toxic for the product's species count as the worst rating.
+	 * The ingredients of all the products are looked up in a single query.
+	 *
+	 * @param {Array} products - The product documents to load.
+	 * @returns An array of Product instances in the same order as the documents.
+	 */
+	static async fromDocuments(products: any[]) {
+		// Fetch every ingredient used by the products at once.
+		const names = [...new Set(products.flatMap(product => product.ingredients as string[]))]
+		const ingredients = await Ingredient.findByNames(names)
+		const aliases = new Map(ingredients.map(ingredient => [ingredient.id, ingredient.aliases ?? []]))
+
+		return await Promise.all(products.map(async product => {
+			// Get the ratings of the ingredients for the product's species, keyed by every name they are listed under.
+			const rated = await Ingredient.getAll(ingredients, product.species)
+			const byKey = new Map<string, RatedIngredient>()
+
+			for (const ingredient of rated) {
+				for (const name of [ingredient.name, ...aliases.get(ingredient.id) ?? []]) {
+					byKey.set(normalizeIngredientName(name), ingredient)
+				}
+			}
+
+			// Mark the ingredients that are toxic for the species, whether or not they are rated.
+			for (const ingredient of ingredients) {
+				if (!ingredient.toxicFor?.includes(product.species)) continue
+
+				for (const name of [ingredient.name, ...ingredient.aliases ?? []]) {
+					const key = normalizeIngredientName(name)
+					byKey.set(key, { name: ingredient.name, healthRating: byKey.get(key)?.healthRating ?? null, toxic: true })
+				}
+			}
+
+			const entry = product.toObject()
+
+			// Match the product's ingredients to their ratings.
+			const ratings = new Map<string, RatedIngredient>()
+
+			for (const name of entry.ingredients as string[]) {
+				const rating = byKey.get(normalizeIngredientName(name))
+				if (rating) ratings.set(name, rating)
+			}
+
+			return new Product(
+				String(product._id),
+				entry.brand,
+				entry.flavor,
+				entry.species,
+				entry.lifeStage,
+				entry.foodType,
+				entry.ingredients,
+				entry.cupsPerLb ?? null,
+				entry.sizes,
+				entry.feedingChart,
+				{ guaranteedAnalysis: entry.guaranteedAnalysis, calories: entry.calories, aafcoStatement: entry.aafcoStatement },
+				calculateQualityScore(entry.ingredients, ratings),
+				{ deletedAt: entry.deletedAt ?? null, deletedBy: entry.deletedBy ?? null }
+			)
+		}))
+	}
+
+	/**
+	 * Creates a Product instance from a product document, including its quality score.
+	 *
+	 * @param {Object} product - The product document to load.
+	 * @returns The Product instance.
+	 */
+	static async fromDocument(product: any) {
+		const [loaded] = await Product.fromDocuments([product])
+		return loaded
+	}
+
 	/**
 	 * Add a new product to the database.
 	 * 
-	 * @param {string} brand - The brand of the product.
-	 * @param {string} flavor - The flavor of the product.
-	 * @param {Species} species - The species (e.g., cat or dog) for the product.
-	 * @param {LifeStage} lifeStage - The target life stage of the pet (e.g., adult, young, all).
-	 * @param {FoodType} foodType - The foodType of the product (e.g., dry or wet).
-	 * @param {Array} ingredients - List of ingredient names in the product.
-	 * @param {Array} sizes - List of available sizes with details.
-	 * - `packaging:` {Packaging} - The packaging of the product (e.g., bag, case, can).
-	 * - `price:` {Number} - The price of the product for this size.
-	 * - `count:` {Number} - The quantity of units in this size.
-	 * - `unit:` {Unit} - The unit of measurement.
-	 * - `links:` {String[]} - URLs to purchase or learn more about this product.
-	 * - `imageUrls:` {String[]} - URLs of images for this product.
-	 * @param {Array} feedingChart - Feeding chart details.
-	 * - `minAge` {Number} - The minimum age of the pet (in years).
-	 * - `maxAge` {Number} - The maximum age of the pet (in years).
-	 * - `minWeight` {Number} - The minimum weight of the pet (in lbs).
-	 * - `maxWeight` {Number} - The maximum weight of the pet (in lbs).
-	 * - `minServing` {Number} - The minimum serving size (cups or cans per day).
-	 * - `maxServing` {Number} - The maximum serving size (cups or cans per day).
+	 * @param {ProductEntry & Nutrition} details - The details of the product.
+	 * - `brand` {String} - The brand of the product.
+	 * - `flavor` {String} - The flavor of the product.
+	 * - `species` {Species} - The species (e.g., cat or dog) for the product.
+	 * - `lifeStage` {LifeStage} - The target life stage of the pet (e.g., adult, young, all).
+	 * - `foodType` {FoodType} - The foodType of the product (e.g., dry or wet).
+	 * - `ingredients` {Array} - List of ingredient names in the product. Names are resolved to their canonical ingredients.
+	 * - `sizes` {Array} - List of available sizes with details.
+	 * >- `packaging` {Packaging} - The packaging of the product (e.g., bag, case, can).
+	 * >- `price` {Number} - The price of the product for this size.
+	 * >- `count` {Number} - The quantity of units in this size.
+	 * >- `unit` {Unit} - The unit of measurement.
+	 * >- `upc` {String} - The UPC barcode of this size. Optional.
+	 * >- `offers` {Offer[]} - The offers of retailers for this size (`retailer`, `url`, `price`, `shipping`,
+	 * `subscribeDiscount`, `inStock` and `lastCheckedAt`).
+	 * >- `imageUrls` {String[]} - URLs of images for this product.
+	 * - `feedingChart` {Array} - Feeding chart details.
+	 * >- `minAge` {Number} - The minimum age of the pet (in years).
+	 * >- `maxAge` {Number} - The maximum age of the pet (in years).
+	 * >- `minWeight` {Number} - The minimum weight of the pet (in lbs).
+	 * >- `maxWeight` {Number} - The maximum weight of the pet (in lbs).
+	 * >- `minServing` {Number} - The minimum serving size (cups or cans per day).
+	 * >- `maxServing` {Number} - The maximum serving size (cups or cans per day).
+	 * - `cupsPerLb` {Number} - The number of cups in a pound of the food. Required to calculate the cost of dry food.
+	 * - `guaranteedAnalysis` {GuaranteedAnalysis} - The `min` and `max` percentage (as fed) of `protein`, `fat`, `fiber` and `moisture`. Optional.
+	 * - `calories` {Calories} - The `kcalPerCup`, `kcalPerCan` and/or `kcalPerKg` of the food. Optional.
+	 * - `aafcoStatement` {String} - The AAFCO nutritional adequacy statement. Optional.
+	 * @param {Object} options - Options for the price history. Optional.
+	 * - `source` {String} - Where the prices came from (e.g., manual or import). Defaults to 'manual'.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
 	 * @returns The newly created product document.
 	 * @throws Will throw an error if a product with the same brand, flavor, species, lifeStage, and foodType already exists.
 	 */
-	static async add(brand: string, flavor: string, species: Species, lifeStage: LifeStage, foodType: FoodType,
-	ingredients: ProductEntry['ingredients'], sizes: ProductEntry['sizes'], feedingChart: ProductEntry['feedingChart']) {
+	static async add(details: ProductEntry & Nutrition, { source = DEFAULT_PRICE_SOURCE }: { source?: string } = {}, context: AuditContext = {}) {
+		const { brand, flavor, species, lifeStage, foodType, feedingChart, cupsPerLb, guaranteedAnalysis, calories, aafcoStatement } = details
+
 		// Check if a product with the same brand, flavor, species, lifeStage, and foodType already exists.
-		const existingProduct = await ProductModel.findOne({ brand, flavor, species, lifeStage, foodType })
+		const existingProduct = await Product.findDuplicate({ brand, flavor, species, lifeStage, foodType })
 
 		// If it exists, throw an error.
 		if (existingProduct) {
 			throw new Error('Product already exists')
 		}
 
+		// Resolve the ingredients to the names of their canonical ingredients.
+		const ingredients = await Ingredient.resolveNames(details.ingredients)
+
 		// Create and save the new product.
-		const newProduct = new ProductModel({ brand, flavor, species, lifeStage, foodType, ingredients, sizes, feedingChart })
+		// Record the starting price of each size.
+		const sizes = details.sizes.map(size => ({ ...size, priceHistory: recordPrice([], size.price, source) }))
+
+		const newProduct = new ProductModel({ brand, flavor, species, lifeStage, foodType, ingredients, cupsPerLb, sizes, feedingChart,
+			guaranteedAnalysis, calories, aafcoStatement })
+
+		// Ask the rating provider for the ratings of any new ingredients before the transaction, since it may be slow.
+		const suggestions = await Ingredient.suggestRatings({ names: ingredients, species })
 
-		console.log('LIST OF INGREDIENTS:', ingredients, 'FOR SPECIES:', species)
+		return await withTransaction(async () => {
+			// Push ingredients to the Ingredient collection, adding any missing ones, in the same transaction as the product.
+			await Ingredient.pushMany({ names: ingredients, species }, { suggestions }, context)
 
-		// Push ingredients to the Ingredient collection, adding any missing ones.
-		Ingredient.pushMany({ names: ingredients, species })
+			// Save the new product and record it in the audit log.
+			const product = await newProduct.save()
+			await Audit.record('product', 'create', null, product, context)
 
-		// Save and return the new product.
-		return await newProduct.save()
+			return product
+		})
 	}
 
 	/**
@@ -238,30 +621,273 @@ class Product implements ProductInfo {
 	 * - `species`: The target species for the product (e.g., cat or dog).
 	 * - `lifeStage`: The life stage of the pet (e.g., adult, young, all).
 	 * - `foodType`: The type of food (e.g., dry or wet).
-	 * @returns A list of products matching the provided filters.
-	 * If no filters are provided, returns all products.
+	 * - `search`: Text to search for in the brand, flavor and ingredients (case-insensitive).
+	 * - `includesIngredients`: Ingredients the product must contain.
+	 * - `excludesIngredients`: Ingredients the product must not contain.
+	 * - `minProteinDM`, `maxProteinDM`: The range of protein on a dry matter basis (percent).
+	 * - `minFatDM`, `maxFatDM`: The range of fat on a dry matter basis (percent).
+	 * Products without a known dry matter value are left out when it is filtered on.
+	 * - `includeDeleted`: Whether to include deleted products. Defaults to false.
+	 * @returns The product with the id, or null if there is none, when an `id` is given.
+	 * Otherwise, a list of products matching the provided filters. If no filters are provided, returns all products.
 	 */
+	static find(filters: FilterOptions & { id: string }): Promise<any>
+	static find(filters: FilterOptions & { id?: undefined }): Promise<any[]>
+	static find(filters: FilterOptions): Promise<any>
 	static async find(filters: FilterOptions) {
-		const { id, brand, flavor, species, lifeStage, foodType } = filters
+		const { id, brand, flavor, species, lifeStage, foodType, search, includesIngredients, excludesIngredients } = filters
+		const { minProteinDM, maxProteinDM, minFatDM, maxFatDM, includeDeleted } = filters
+
+		// Leave out deleted products, unless they are asked for.
+		const notDeleted = includeDeleted ? {} : { deletedAt: null }
 
 		// If id is provided, find by id.
-		if (id) return await ProductModel.findById(id)
+		if (id) return await ProductModel.findOne({ _id: id, ...notDeleted })
 		
 		// Build the query object based on provided filters.
-		const query: Record<string, any> = {}
+		const query: Record<string, any> = { ...notDeleted }
 
 		if (brand !== undefined) query.brand = brand
 		if (flavor !== undefined) query.flavor = flavor
 		if (species !== undefined) query.species = species
 		if (lifeStage !== undefined) query.lifeStage = { $in: [lifeStage, 'all'] }
 		if (foodType !== undefined) query.foodType = foodType
+		if (search !== undefined) {
+			const pattern = new RegExp(escapeRegExp(search), 'i')
+			query.$or = [{ brand: pattern }, { flavor: pattern }, { ingredients: pattern }]
+		}
+
+		// Match ingredients by their canonical names, ignoring case.
+		const ingredientPatterns = async (names: string[]) =>
+			(await Ingredient.resolveNames(names)).map(name => new RegExp(`^${escapeRegExp(name)}$`, 'i'))
 
-		console.log('Product find query:', query)
+		if (includesIngredients?.length) query.ingredients = { ...query.ingredients, $all: await ingredientPatterns(includesIngredients) }
+		if (excludesIngredients?.length) query.ingredients = { ...query.ingredients, $nin: await ingredientPatterns(excludesIngredients) }
 
-		// Execute the query and return the results.
-		return await ProductModel.find( 
-			
-		)
+		// Execute the query.
+		const products = await ProductModel.find(query)
+
+		// Dry matter values are calculated, so they are filtered after the query.
+		const inRange = (value: number | null, min?: number, max?: number) =>
+			(min === undefined && max === undefined) || (value !== null && (min === undefined || value >= min) && (max === undefined || value <= max))
+
+		return products.filter((product: any) => {
+			const dryMatter = dryMatterBasis(product.guaranteedAnalysis)
+			return inRange(dryMatter.protein, minProteinDM, maxProteinDM) && inRange(dryMatter.fat, minFatDM, maxFatDM)
+		})
+	}
+
+	/**
+	 * Splits product documents into the ones that are allowed and the ones that contain an excluded
+	 * ingredient or an ingredient in an excluded category, such as an allergy.
+	 * The ingredients are resolved through the Ingredient collection, so aliases and tags are taken into account.
+	 *
+	 * @param {Array} products - The product documents to check.
+	 * @param {Exclusions} exclusions - The exclusions to apply.
+	 * - `ingredients` {String[]} - The ingredients to exclude (e.g., chicken).
+	 * - `categories` {String[]} - The categories of ingredients to exclude (e.g., poultry or grain).
+	 * @returns The allowed product documents, and the excluded products with the ingredients that caused each exclusion.
+	 */
+	static async applyExclusions<T extends { _id: any, brand: string, flavor: string, ingredients: string[] }>(products: T[], exclusions: Exclusions) {
+		const excluded: ExcludedProduct[] = []
+
+		if (!hasExclusions(exclusions)) return { allowed: products, excluded }
+
+		// Fetch every ingredient used by the products at once.
+		const names = [...new Set(products.flatMap(product => product.ingredients))]
+		const known = await Ingredient.findByNames(names)
+
+		const allowed = products.filter(product => {
+			const reasons = findExclusionReasons(product.ingredients, exclusions, known)
+
+			if (reasons.length === 0) return true
+
+			excluded.push({ productId: String(product._id), brand: product.brand, flavor: product.flavor, reasons })
+			return false
+		})
+
+		return { allowed, excluded }
+	}
+
+	/**
+	 * Retrieves a page of products based on provided filters, with their quality scores.
+	 *
+	 * @param {FilterOptions} filters - The filter criteria, as used by `find`. The `id` filter is ignored.
+	 * @param {ListOptions} options - Sorting and paging options.
+	 * - `sort` {SortField} - The field to sort by ('brand', 'price', 'qualityScore', 'costPerDay', 'proteinDM' or 'fatDM').
+	 * Defaults to 'brand'. `price` is the price of the cheapest size at its best offer, and `proteinDM` and `fatDM` are on a dry matter basis.
+	 * Products without a value to sort by are listed last.
+	 * - `order` {String} - The sort order ('asc' or 'desc'). Defaults to 'asc'.
+	 * - `limit` {Number} - The maximum number of products in the page. Defaults to 20, up to 100.
+	 * - `cursor` {String} - The cursor of the page, as returned with the previous page.
+	 * - `pet` {Object} - The `age` and `weight` of the pet. Required to sort by cost per day.
+	 * - `exclusions` {Exclusions} - The `ingredients` and `categories` of ingredients to leave out.
+	 * @returns The page of products.
+	 * - `total` {Number} - The number of products matching the filters.
+	 * - `count` {Number} - The number of products in the page.
+	 * - `nextCursor` {String|null} - The cursor of the next page, or null if this is the last page.
+	 * - `products` {Product[]} - The products in the page.
+	 * - `excluded` {ExcludedProduct[]} - The products left out by the exclusions, and the ingredients that caused it.
+	 * @throws Will throw an error if the cursor is invalid, or if sorting by cost per day without a pet.
+	 */
+	static async list(filters: FilterOptions, { sort = 'brand', order = 'asc', limit = DEFAULT_PAGE_SIZE, cursor, pet, exclusions = {} }: ListOptions = {}) {
+		if (sort === 'costPerDay' && !pet) {
+			throw new Error('The age and weight of the pet are required to sort by cost per day')
+		}
+
+		const offset = cursor ? decodeCursor(cursor) : 0
+		limit = Math.min(Math.max(1, limit), MAX_PAGE_SIZE)
+
+		const found = await Product.find({ ...filters, id: undefined })
+
+		// Leave out the products with excluded ingredients.
+		const { allowed: documents, excluded } = await Product.applyExclusions(found, exclusions)
+
+		// Sort by a value of each product. Missing values are always listed last.
+		const sortBy = <T>(items: T[], value: (item: T) => number | string | null) => {
+			const direction = order === 'asc' ? 1 : -1
+
+			return items
+				.map(item => ({ item, value: value(item) }))
+				.sort((a, b) => {
+					if (a.value === null || b.value === null) return a.value === b.value ? 0 : a.value === null ? 1 : -1
+					return a.value < b.value ? -direction : a.value > b.value ? direction : 0
+				})
+				.map(({ item }) => item)
+		}
+
+		let products: Product[]
+
+		if (sort === 'brand' || sort === 'price' || sort === 'proteinDM' || sort === 'fatDM') {
+			// Sort and page the documents first, so only the page has to be scored.
+			const sorted = sort === 'brand' ? sortBy(documents, doc => `${doc.brand ?? ''} ${doc.flavor ?? ''}`.toLowerCase())
+				: sort === 'price' ? sortBy(documents, doc => doc.sizes.length ? Math.min(...doc.sizes.map((size: any) => bestPrice(size))) : null)
+				: sort === 'proteinDM' ? sortBy(documents, doc => dryMatterBasis(doc.guaranteedAnalysis).protein)
+				: sortBy(documents, doc => dryMatterBasis(doc.guaranteedAnalysis).fat)
+
+			products = await Product.fromDocuments(sorted.slice(offset, offset + limit))
+		} else {
+			// Quality scores and costs are calculated, so every product has to be scored before sorting.
+			const scored = await Product.fromDocuments(documents)
+
+			const sorted = sort === 'qualityScore'
+				? sortBy(scored, product => product.qualityScore)
+				: sortBy(scored, product => {
+					try {
+						return product.costFor(pet!).dailyCost
+					} catch {
+						return null
+					}
+				})
+
+			products = sorted.slice(offset, offset + limit)
+		}
+
+		return {
+			total: documents.length,
+			count: products.length,
+			nextCursor: offset + limit < documents.length ? encodeCursor(offset + limit) : null,
+			products,
+			excluded,
+		}
+	}
+
+	/**
+	 * Recommends products for a pet, ranked by ingredient quality and cost per day.
+	 * Products are filtered by the pet's species, life stage and food type in the same way as `find`.
+	 *
+	 * @param {PetProfile} pet - The details of the pet.
+	 * - `species` {Species} - The species of the pet (e.g., cat or dog).
+	 * - `lifeStage` {LifeStage} - The life stage of the pet (e.g., adult or young).
+	 * - `age` {Number} - The age of the pet (in years).
+	 * - `weight` {Number} - The weight of the pet (in lbs).
+	 * - `neutered` {Boolean} - Whether the pet is neutered or spayed. Used when a feeding chart does not cover the pet. Optional.
+	 * - `activityLevel` {ActivityLevel} - How active the pet is. Used when a feeding chart does not cover the pet. Optional.
+	 * - `foodType` {FoodType} - The preferred type of food (e.g., dry or wet). Optional.
+	 * - `budget` {Number} - The maximum cost per month. Optional.
+	 * - `excludedIngredients` {String[]} - Ingredients the pet must avoid. Optional.
+	 * - `excludedCategories` {String[]} - Categories of ingredients the pet must avoid (e.g., poultry or grain). Optional.
+	 * @param {Object} options - Ranking options.
+	 * - `qualityWeight` {Number} - How much quality counts compared to cost (0 to 1). Defaults to 0.5.
+	 * @returns The ranked products with the cheapest size of each, the products that were skipped with the reason why,
+	 * and the products that were excluded with the ingredients that caused it.
+	 */
+	static async recommend({ species, lifeStage, age, weight, neutered, activityLevel, foodType, budget, excludedIngredients, excludedCategories }: PetProfile,
+	{ qualityWeight = DEFAULT_QUALITY_WEIGHT }: { qualityWeight?: number } = {}) {
+		// Find the products that suit the pet, leaving out the ones with excluded ingredients.
+		const found = await Product.find({ species, lifeStage, foodType })
+		const { allowed, excluded } = await Product.applyExclusions(found, { ingredients: excludedIngredients, categories: excludedCategories })
+
+		// Score the remaining products.
+		const products = await Product.fromDocuments(allowed)
+
+		const candidates: { product: Product, qualityScore: number | null, dailyCost: number, cheapestSize: SizeCost, source: ServingSource }[] = []
+		const skipped: { productId: string, brand: string, flavor: string, reason: string }[] = []
+
+		for (const product of products) {
+			const skip = (reason: string) => skipped.push({ productId: product.id, brand: product.brand, flavor: product.flavor, reason })
+
+			// Find the cheapest size for the pet, skipping products that cannot be costed.
+			let cost: ReturnType<Product['costFor']>
+
+			try {
+				cost = product.costFor({ age, weight, neutered, activityLevel })
+			} catch (err: any) {
+				skip(err.message)
+				continue
+			}
+
+			// Skip products that are over budget.
+			if (budget !== undefined && cost.dailyCost * DAYS_PER_MONTH > budget) {
+				skip('Over budget')
+				continue
+			}
+
+			candidates.push({ product, qualityScore: product.qualityScore, dailyCost: cost.dailyCost, cheapestSize: cost.cheapestSize, source: cost.source })
+		}
+
+		return {
+			results: rankCandidates(candidates, qualityWeight),
+			skipped,
+			excluded,
+		}
+	}
+
+	/**
+	 * Calculates the cost of feeding a product to a pet, using the product's feeding chart or,
+	 * if no row covers the pet, the pet's energy requirement and the product's calories (see `costFor`).
+	 *
+	 * @param {string} id - The ID of the product.
+	 * @param {FeedingDetails} pet - The details of the pet.
+	 * - `age` {Number} - The age of the pet (in years).
+	 * - `weight` {Number} - The weight of the pet (in lbs).
+	 * - `neutered` {Boolean} - Whether the pet is neutered or spayed. Defaults to true.
+	 * - `activityLevel` {ActivityLevel} - How active the pet is (low, normal or high). Defaults to normal.
+	 * - `kcalPerDay` {Number} - The calories the pet needs per day. Optional.
+	 * @returns The serving used (`feedingChartRow`), where it came from (`source`), the energy requirement of the pet
+	 * if it was calculated (`energy`), and the min/max daily, monthly and yearly cost of each size.
+	 * @throws Will throw an error if the product is not found, if no feeding chart row covers the pet and the
+	 * calories of the product are unknown, or if a size cannot be converted into servings.
+	 */
+	static async getFeedingCost(id: string, pet: FeedingDetails) {
+		// Find the product by id.
+		const product = await ProductModel.findOne({ _id: id, deletedAt: null })
+
+		// If product doesn't exist, throw an error.
+		if (!product) {
+			throw new Error('Product not found')
+		}
+
+		const { feedingChartRow, source, energy, costs } = (await Product.fromDocument(product)).costFor(pet)
+
+		return {
+			productId: String(product._id),
+			servingUnit: product.foodType === 'dry' ? 'cup' : 'can',
+			source,
+			energy,
+			feedingChartRow,
+			costs,
+		}
 	}
 
 	/**
@@ -275,12 +901,18 @@ class Product implements ProductInfo {
 	 * - `lifeStage` {LifeStage} - The new lifeStage category (e.g., adult or young) for the product.
 	 * - `foodType` {FoodType} - The new foodType of the product (e.g., dry or wet).
 	 * - `ingredients` {Array} - The new list of ingredients in the product.
-	 * - `sizes` {Array} - The new list of available sizes with details.
+	 * - `cupsPerLb` {Number} - The new number of cups in a pound of the food.
+	 * - `guaranteedAnalysis` {GuaranteedAnalysis} - The new guaranteed analysis (as fed percentages).
+	 * - `calories` {Calories} - The new calories of the food.
+	 * - `aafcoStatement` {String} - The new AAFCO nutritional adequacy statement.
+	 * - `sizes` {Array} - The new list of available sizes with details. Each size is matched to the size it replaces
+	 * by its `_id`, or else by its UPC, or else by its packaging, count and unit, keeping that size's price history.
 	 * >- `packaging` {Packaging} - The packaging of the product (e.g., bag, case, can).
 	 * >- `price` {Number} - The price of the product for this size.
 	 * >- `count` {Number} - The quantity of units in this size.
 	 * >- `unit` {Unit} - The unit of measurement.
-	 * >- `links` {String[]} - URLs to purchase or learn more about this product.
+	 * >- `upc` {String} - The UPC barcode of this size.
+	 * >- `offers` {Offer[]} - The offers of retailers for this size. Defaults to the offers of the size it replaces.
 	 * >- `imageUrls` {String[]} - URLs of images for this product.
 	 * - `feedingChart` {Array} - The new feeding chart details.
 	 * >- `minAge` {Number} - The minimum age of the pet (in years).
@@ -289,14 +921,18 @@ class Product implements ProductInfo {
 	 * >- `maxWeight` {Number} - The maximum weight of the pet (in lbs).
 	 * >- `minServing` {Number} - The minimum serving size (cups or cans per day).
 	 * >- `maxServing` {Number} - The maximum serving size (cups or cans per day).
+	 * @param {Object} options - Options for the price history. Optional.
+	 * - `source` {String} - Where changed prices came from (e.g., manual or import). Defaults to 'manual'.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
 	 * @return The updated product document.
 	 * @throws Will throw an error if the product is not found or if no updates are provided.
 	 */
-	static async update(id: string, updates: Partial<ProductEntry>) {
-		const { brand, flavor, species, lifeStage, foodType, ingredients, sizes, feedingChart } = updates
+	static async update(id: string, updates: Partial<ProductEntry>, { source = DEFAULT_PRICE_SOURCE }: { source?: string } = {}, context: AuditContext = {}) {
+		const { brand, flavor, species, lifeStage, foodType, ingredients, cupsPerLb, sizes, feedingChart } = updates
+		const { guaranteedAnalysis, calories, aafcoStatement } = updates
 
 		// Find the product by id.
-		const product = await ProductModel.findById(id)
+		const product = await ProductModel.findOne({ _id: id, deletedAt: null })
 		
 		// If product doesn't exist, throw an error.
 		if (!product) {
@@ -312,11 +948,30 @@ class Product implements ProductInfo {
 		if (lifeStage !== undefined) update.lifeStage = lifeStage
 		if (foodType !== undefined) update.foodType = foodType
 		if (ingredients !== undefined) {
-			update.ingredients = ingredients
+			// Resolve the ingredients to the names of their canonical ingredients.
+			update.ingredients = await Ingredient.resolveNames(ingredients)
+		}
+		if (cupsPerLb !== undefined) update.cupsPerLb = cupsPerLb
+		if (guaranteedAnalysis !== undefined) update.guaranteedAnalysis = guaranteedAnalysis
+		if (calories !== undefined) update.calories = calories
+		if (aafcoStatement !== undefined) update.aafcoStatement = aafcoStatement
+		if (sizes !== undefined) {
+			// Match each size to the size it replaces, so that the sizes that are kept keep their id, offers and price
+			// history, recording any change in price. Sizes without an id (e.g. from a CSV catalog) are matched too.
+			const unmatched = [...product.sizes]
+
+			update.sizes = sizes.map(size => {
+				const existing = matchSize(unmatched, size)
+				if (existing) unmatched.splice(unmatched.indexOf(existing), 1)
 
-			// Push ingredients to the Ingredient collection, adding any missing ones.
+				return {
+					...size,
+					_id: existing?._id ?? size._id,
+					offers: size.offers ?? existing?.offers ?? [],
+					priceHistory: recordPrice(existing?.priceHistory ?? [], size.price, source),
+				}
+			})
 		}
-		if (sizes !== undefined) update.sizes = sizes
 		if (feedingChart !== undefined) update.feedingChart = feedingChart
 
 		// If no updates are provided, throw an error.
@@ -324,8 +979,25 @@ class Product implements ProductInfo {
 			throw new Error('No updates provided')
 		}
 
-		// Update and return the product.
-		return await ProductModel.findByIdAndUpdate(id, update, { new: true })
+		// If the ingredients or species change, ask the rating provider for the ratings of any new ingredients or
+		// species before the transaction, since it may be slow.
+		const pushed = update.ingredients !== undefined || update.species !== undefined
+			? { names: update.ingredients ?? product.ingredients, species: update.species ?? product.species }
+			: null
+		const suggestions = pushed ? await Ingredient.suggestRatings(pushed) : undefined
+
+		return await withTransaction(async () => {
+			// Push ingredients to the Ingredient collection, adding any missing ones and any ratings for a new species.
+			if (pushed) {
+				await Ingredient.pushMany(pushed, { suggestions }, context)
+			}
+
+			// Update the product and record the change in the audit log.
+			const updatedProduct = await ProductModel.findByIdAndUpdate(id, update, { new: true })
+			await Audit.record('product', 'update', product, updatedProduct, context)
+
+			return updatedProduct
+		})
 	}
 
 	/**
@@ -337,16 +1009,21 @@ class Product implements ProductInfo {
 	 * - `price` {Number} - The price of the product for this size.
 	 * - `count` {Number} - The quantity of units in this size.
 	 * - `unit` {Unit} - The unit of measurement.
-	 * - `links` {String[]} - URLs to purchase or learn more about this product.
+	 * - `upc` {String} - The UPC barcode of this size. Optional.
+	 * - `offers` {Offer[]} - The offers of retailers for this size.
 	 * - `imageUrls` {String[]} - URLs of images for this product.
+	 * @param {Object} options - Options for the price history.
+	 * - `source` {String} - Where the price came from (e.g., manual or import). Defaults to 'manual'.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
 	 * @returns The updated product document with the new size added.
 	 * @throws Will throw an error if the product is not found or if size details are incomplete.
 	 */
-	static async addSize(productId: string, size: ProductEntry['sizes'][0]) {
-		const { packaging, price, count, unit, links, imageUrls } = size
+	static async addSize(productId: string, size: ProductEntry['sizes'][0], { source = DEFAULT_PRICE_SOURCE }: { source?: string } = {},
+	context: AuditContext = {}) {
+		const { packaging, price, count, unit, upc, offers, imageUrls } = size
 
 		// Find the product by id.
-		const product = await ProductModel.findById(productId)
+		const product = await ProductModel.findOne({ _id: productId, deletedAt: null })
 
 		// If product doesn't exist, throw an error.
 		if (!product) {
@@ -359,10 +1036,14 @@ class Product implements ProductInfo {
 		}
 
 		// Add the new size to the product.
-		product.sizes.push({ packaging, price, count, unit, links: links ?? [], imageUrls: imageUrls ?? [] })
+		const before = product.toObject()
+		product.sizes.push({ packaging, price, count, unit, upc, offers: offers ?? [], imageUrls: imageUrls ?? [], priceHistory: recordPrice([], price, source) })
+
+		// Save the updated product and record the change in the audit log.
+		const updatedProduct = await product.save()
+		await Audit.record('product', 'update', before, updatedProduct, context)
 
-		// Save the updated product.
-		return await product.save()
+		return updatedProduct
 	}
 
 	/**
@@ -375,16 +1056,21 @@ class Product implements ProductInfo {
 	 * - `price` {Number} - The new price of the product for this size.
 	 * - `count` {Number} - The new quantity of units in this size.
 	 * - `unit` {Unit} - The new unit of measurement.
-	 * - `links` {String[]} - The new URLs to purchase or learn more about this product.
+	 * - `upc` {String} - The new UPC barcode of this size.
+	 * - `offers` {Offer[]} - The new offers of retailers for this size.
 	 * - `imageUrls` {String[]} - The new URLs of images for this product.
-	 * @return The updated product document with the modified size.
+	 * @param {Object} options - Options for the price history.
+	 * - `source` {String} - Where a new price came from (e.g., manual or import). Defaults to 'manual'.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
+	 * @return The updated product document with the modified size. A change in price is added to the size's price history.
 	 * @throws Will throw an error if the product or size is not found, or if no updates are provided.
 	 */
-	static async updateSize(productId: string, sizeId: string, updates: Partial<ProductEntry['sizes'][0]>) {
-		const { packaging, price, count, unit, links, imageUrls } = updates
+	static async updateSize(productId: string, sizeId: string, updates: Partial<ProductEntry['sizes'][0]>,
+	{ source = DEFAULT_PRICE_SOURCE }: { source?: string } = {}, context: AuditContext = {}) {
+		const { packaging, price, count, unit, upc, offers, imageUrls } = updates
 
 		// Find the product by id.
-		const product = await ProductModel.findById(productId)
+		const product = await ProductModel.findOne({ _id: productId, deletedAt: null })
 		
 		// If product doesn't exist, throw an error.
 		if (!product) {
@@ -406,7 +1092,8 @@ class Product implements ProductInfo {
 		if (price !== undefined) update.price = price
 		if (count !== undefined) update.count = count
 		if (unit !== undefined) update.unit = unit
-		if (links !== undefined) update.links = links
+		if (upc !== undefined) update.upc = upc
+		if (offers !== undefined) update.offers = offers
 		if (imageUrls !== undefined) update.imageUrls = imageUrls
 
 		// If no updates are provided, throw an error.
@@ -414,11 +1101,55 @@ class Product implements ProductInfo {
 			throw new Error('No updates provided')
 		}
 
+		// Record the new price, if it changed.
+		if (price !== undefined) update.priceHistory = recordPrice(size.priceHistory, price, source)
+
 		// Apply the updates to the size.
+		const before = product.toObject()
 		Object.assign(size, update)
 
-		// Save and return the updated product.
-		return await product.save()
+		// Save the updated product and record the change in the audit log.
+		const updatedProduct = await product.save()
+		await Audit.record('product', 'update', before, updatedProduct, context)
+
+		return updatedProduct
+	}
+
+	/**
+	 * Gets the price history of a size of a product.
+	 *
+	 * @param {string} productId - The ID of the product containing the size.
+	 * @param {string} sizeId - The ID of the size.
+	 * @returns The current `price` of the size, its `history` (oldest first, each with the `price`, when it was
+	 * `recordedAt` and its `source`) and its price statistics (`stats`).
+	 * @throws Will throw an error if the product or size is not found.
+	 */
+	static async getPriceHistory(productId: string, sizeId: string) {
+		// Find the product by id.
+		const product = await ProductModel.findOne({ _id: productId, deletedAt: null })
+
+		// If product doesn't exist, throw an error.
+		if (!product) {
+			throw new Error('Product not found')
+		}
+
+		// Find the size by id within the product's sizes array.
+		const size = product.sizes.id(sizeId)
+
+		// If size doesn't exist, throw an error.
+		if (!size) {
+			throw new Error('Size not found')
+		}
+
+		const history: PriceRecord[] = size.toObject().priceHistory ?? []
+
+		return {
+			productId: String(product._id),
+			sizeId: String(size._id),
+			price: size.price,
+			history: history.map(({ price, recordedAt, source }) => ({ price, recordedAt, source: source ?? null })),
+			stats: priceStats(history, size.price),
+		}
 	}
 
 	/**
@@ -426,12 +1157,13 @@ class Product implements ProductInfo {
 	 * 
 	 * @param {string} productId - The ID of the product from which the size will be removed.
 	 * @param {string} sizeId - The ID of the size to remove.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
 	 * @returns The updated product document with the size removed.
 	 * @throws Will throw an error if the product or size is not found.
 	 */
-	static async removeSize(productId: any, sizeId: any) {
+	static async removeSize(productId: any, sizeId: any, context: AuditContext = {}) {
 		// Find the product by id.
-		const product = await ProductModel.findById(productId)
+		const product = await ProductModel.findOne({ _id: productId, deletedAt: null })
 
 		// If product doesn't exist, throw an error.
 		if (!product) {
@@ -447,31 +1179,392 @@ class Product implements ProductInfo {
 		}
 
 		// Remove the size from the product's sizes array.
-		size.remove()
+		const before = product.toObject()
+		size.deleteOne()
+
+		// Save the updated product and record the change in the audit log.
+		const updatedProduct = await product.save()
+		await Audit.record('product', 'update', before, updatedProduct, context)
 
-		// Save the updated product.
-		return await product.save()
+		return updatedProduct
 	}
 
 	/**
-	 * Deletes a product from the database.
+	 * Adds many products at once, such as when importing a catalog. Products are added one at a time, in order.
+	 * A product is a duplicate if a product with the same brand, flavor, species, lifeStage, and foodType already exists,
+	 * including one added earlier in the same import. Prices are recorded in the price history with the 'import' source.
+	 *
+	 * @param {Array} entries - The products to add, each with its `row` in the catalog and the `product` details,
+	 * in the same shape as the arguments of `Product.add`.
+	 * @param {Object} options - The import options.
+	 * - `onDuplicate` {DuplicatePolicy} - What to do with a duplicate: 'skip' it, 'update' the existing product with it,
+	 * or 'fail' the row. Defaults to 'fail'.
+	 * @param {AuditContext} context - Who imported the products and why, for the audit log. Optional.
+	 * @returns The result of each row: whether the product was `created`, `updated`, `skipped` or `failed`, and why it failed.
+	 */
+	static async importMany(entries: { row: number, product: ProductEntry & Nutrition }[], { onDuplicate = 'fail' }: { onDuplicate?: DuplicatePolicy } = {},
+	context: AuditContext = {}) {
+		const results: ImportResult[] = []
+
+		for (const { row, product } of entries) {
+			const { brand, flavor, species, lifeStage, foodType, ingredients, sizes, feedingChart, cupsPerLb } = product
+			const { guaranteedAnalysis, calories, aafcoStatement } = product
+
+			const result = (status: ImportStatus, productId: string | null = null, error: string | null = null) =>
+				results.push({ row, brand, flavor, status, productId, error })
+
+			try {
+				// Check if the product already exists.
+				const existing = await Product.findDuplicate({ brand, flavor, species, lifeStage, foodType })
+
+				if (!existing) {
+					const added = await Product.add(product, { source: IMPORT_PRICE_SOURCE }, context)
+					result('created', String(added._id))
+				} else if (onDuplicate === 'skip') {
+					result('skipped', String(existing._id))
+				} else if (onDuplicate === 'update') {
+					await Product.update(String(existing._id), { ingredients, sizes, feedingChart, cupsPerLb, guaranteedAnalysis, calories, aafcoStatement },
+						{ source: IMPORT_PRICE_SOURCE }, context)
+					result('updated', String(existing._id))
+				} else {
+					result('failed', String(existing._id), 'Product already exists')
+				}
+			} catch (err: any) {
+				result('failed', null, err.message)
+			}
+		}
+
+		return results
+	}
+
+	/**
+	 * Exports products for a catalog, in the same shape used to add them.
+	 * Each size keeps its `_id`, so that importing the catalog again with `onDuplicate: 'update'` keeps its price history.
+	 *
+	 * @param {FilterOptions} filters - The filters to apply, as used by `Product.find`.
+	 * @returns The products, each with its `id`. Price histories are left out.
+	 */
+	static async exportAll(filters: Omit<FilterOptions, 'id'> = {}) {
+		const products = await Product.find(filters)
+
+		return products.map((document: any) => {
+			const { _id, __v, sizes, feedingChart, ...product } = document.toObject()
+
+			return {
+				id: String(_id),
+				...product,
+				sizes: sizes.map(({ priceHistory, offers, ...size }: any) => ({
+					...size,
+					_id: String(size._id),
+					offers: offers.map(({ _id, ...offer }: any) => offer),
+				})),
+				feedingChart: feedingChart.map(({ _id, ...row }: any) => row),
+			}
+		})
+	}
+
+	/**
+	 * Replaces an ingredient in the ingredient list of every product, including deleted ones, such as when the
+	 * ingredient is merged into another one. Names are matched after normalization.
+	 *
+	 * @param {string[]} names - The names of the ingredient (e.g. its name and aliases).
+	 * @param {string} replacement - The name to list instead.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
+	 * @returns The updated product documents.
+	 */
+	static async replaceIngredient(names: string[], replacement: string, context: AuditContext = {}) {
+		const keys = new Set(names.map(normalizeIngredientName))
+		const matches = (name: string) => keys.has(normalizeIngredientName(name))
+
+		return await withTransaction(async () => {
+			const products = (await ProductModel.find({})).filter((product: any) => product.ingredients.some(matches))
+
+			for (const product of products) {
+				const before = product.toObject()
+
+				// Replace the matching names in place, so the order of the label is kept, without listing the replacement twice.
+				const ingredients: string[] = []
+
+				for (const name of product.ingredients as string[]) {
+					const listed = matches(name) ? replacement : name
+					if (!(listed === replacement && ingredients.includes(listed))) ingredients.push(listed)
+				}
+
+				product.ingredients = ingredients
+
+				// Save the product and record the change in the audit log.
+				await product.save()
+				await Audit.record('product', 'update', before, product, context)
+			}
+
+			return products
+		})
+	}
+
+	/**
+	 * Removes an ingredient from the ingredient list of every product, including deleted ones, such as when the
+	 * ingredient is deleted. Names are matched after normalization.
+	 *
+	 * @param {string[]} names - The names of the ingredient (e.g. its name and aliases).
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
+	 * @returns Where the ingredient was listed, so that it can be listed there again with `restoreIngredient`.
+	 */
+	static async removeIngredient(names: string[], context: AuditContext = {}) {
+		const keys = new Set(names.map(normalizeIngredientName))
+		const matches = (name: string) => keys.has(normalizeIngredientName(name))
+
+		return await withTransaction(async () => {
+			const products = (await ProductModel.find({})).filter((product: any) => product.ingredients.some(matches))
+			const removed: IngredientListing[] = []
+
+			for (const product of products) {
+				const before = product.toObject()
+				const ingredients = product.ingredients as string[]
+
+				// Remember where the ingredient was listed, then remove it.
+				ingredients.forEach((name, position) => {
+					if (matches(name)) removed.push({ product: String(product._id), name, position })
+				})
+
+				product.ingredients = ingredients.filter(name => !matches(name))
+
+				// Save the product and record the change in the audit log.
+				await product.save()
+				await Audit.record('product', 'update', before, product, context)
+			}
+
+			return removed
+		})
+	}
+
+	/**
+	 * Lists an ingredient again where it was removed from products (see `removeIngredient`), such as when the
+	 * ingredient is restored. Products that were purged since, or that list the ingredient again, are left alone.
+	 *
+	 * @param {IngredientListing[]} listings - Where the ingredient was listed.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
+	 * @returns The updated product documents.
+	 */
+	static async restoreIngredient(listings: IngredientListing[], context: AuditContext = {}) {
+		// Group the listings by product.
+		const byProduct = new Map<string, IngredientListing[]>()
+
+		for (const listing of listings) {
+			byProduct.set(listing.product, [...byProduct.get(listing.product) ?? [], listing])
+		}
+
+		return await withTransaction(async () => {
+			const restored = []
+
+			for (const [id, productListings] of byProduct) {
+				const product = await ProductModel.findById(id)
+				if (!product) continue
+
+				const ingredients = [...product.ingredients as string[]]
+				const listed = new Set(ingredients.map(normalizeIngredientName))
+				const missing = productListings.filter(({ name }) => !listed.has(normalizeIngredientName(name)))
+
+				if (missing.length === 0) continue
+
+				// Insert the names in order of position, so each lands where it was listed.
+				const before = product.toObject()
+
+				for (const { name, position } of missing.sort((a, b) => a.position - b.position)) {
+					ingredients.splice(Math.min(position, ingredients.length), 0, name)
+				}
+
+				product.ingredients = ingredients
+
+				// Save the product and record the change in the audit log.
+				await product.save()
+				await Audit.record('product', 'update', before, product, context)
+
+				restored.push(product)
+			}
+
+			return restored
+		})
+	}
+
+	/**
+	 * Counts how many products list each ingredient. Deleted products are left out.
+	 *
+	 * @param {Species} species - Only count the products for this species. Optional.
+	 * @returns A map from each normalized ingredient name to the number of products that list it.
+	 */
+	static async countIngredients(species?: Species) {
+		const query: Record<string, any> = { deletedAt: null }
+		if (species !== undefined) query.species = species
+
+		const counts = new Map<string, number>()
+
+		for (const product of await ProductModel.find(query, { ingredients: 1 })) {
+			// Count each ingredient once per product, even if it is listed under two names.
+			for (const key of new Set((product.ingredients as string[]).map(normalizeIngredientName))) {
+				counts.set(key, (counts.get(key) ?? 0) + 1)
+			}
+		}
+
+		return counts
+	}
+
+	/**
+	 * Deletes a product. The product is only marked as deleted, so it can be restored until it is purged.
 	 *
 	 * @param {string} id - The ID of the product to delete.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
+	 * The `actor` is recorded as who deleted the product.
 	 * @returns The deleted product document.
-	 * @throws Will throw an error if the product is not found.
+	 * @throws Will throw an error if the product is not found or is already deleted.
 	 */
-	static async delete(id: any) {
+	static async delete(id: any, context: AuditContext = {}) {
 		// Find the product by id.
-		const deletedProduct = await ProductModel.findByIdAndDelete(id)
+		const product = await ProductModel.findOne({ _id: id, deletedAt: null })
 
 		// If product doesn't exist, throw an error.
-		if (!deletedProduct) {
+		if (!product) {
 			throw new Error('Product not found')
 		}
 
+		// Mark the product as deleted.
+		const before = product.toObject()
+		product.deletedAt = new Date()
+		product.deletedBy = context.actor ?? null
+
+		// Save the deleted product and record the deletion in the audit log.
+		await product.save()
+		await Audit.record('product', 'delete', before, product, context)
+
 		// Return the deleted product.
-		return deletedProduct
+		return product
+	}
+
+	/**
+	 * Finds the product that has the same brand, flavor, species, lifeStage, and foodType as a product, which would make
+	 * them duplicates. Deleted products are left out.
+	 *
+	 * @param {Object} details - The `brand`, `flavor`, `species`, `lifeStage` and `foodType` of the product.
+	 * @param {string} exceptId - The id of the product itself, so it isn't found as its own duplicate. Optional.
+	 * @returns The duplicate product document, or null if there is none.
+	 */
+	static async findDuplicate({ brand, flavor, species, lifeStage, foodType }: Pick<ProductEntry, 'brand' | 'flavor' | 'species' | 'lifeStage' | 'foodType'>,
+	exceptId?: string) {
+		const query: Record<string, any> = { brand, flavor, species, lifeStage, foodType, deletedAt: null }
+		if (exceptId !== undefined) query._id = { $ne: exceptId }
+
+		return await ProductModel.findOne(query)
+	}
+
+	/**
+	 * Replaces a product with an earlier version of it, bringing it back if it has been purged since.
+	 * Used to revert changes from the audit log (see `Audit.revert`), which records the change.
+	 *
+	 * @param {string} id - The id of the product.
+	 * @param {Object} version - The earlier version of the product document.
+	 * @returns The product document before (null if it was purged) and after the change.
+	 * @throws Will throw an error if the version isn't deleted and another product with the same brand, flavor,
+	 * species, lifeStage, and foodType has been added since.
+	 */
+	static async revertTo(id: string, version: any) {
+		if (!version.deletedAt && await Product.findDuplicate(version, id)) {
+			throw new Error('Product already exists')
+		}
+
+		const current = await ProductModel.findById(id)
+
+		// Replace the current version, or bring the product back if it has been purged since.
+		await ProductModel.replaceOne({ _id: id }, version, { upsert: true })
+
+		return { current, restored: await ProductModel.findById(id) }
+	}
+
+	/**
+	 * Restores a deleted product.
+	 *
+	 * @param {string} id - The ID of the product to restore.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
+	 * @returns The restored product document.
+	 * @throws Will throw an error if the product is not found or isn't deleted, or if a product with the same brand, flavor,
+	 * species, lifeStage, and foodType has been added since it was deleted.
+	 */
+	static async restore(id: any, context: AuditContext = {}) {
+		// Find the product by id, including deleted products.
+		const product = await ProductModel.findById(id)
+
+		// If product doesn't exist, throw an error.
+		if (!product) {
+			throw new Error('Product not found')
+		}
+
+		if (!product.deletedAt) {
+			throw new Error('Product is not deleted')
+		}
+
+		// Check that the product hasn't been added again since it was deleted.
+		if (await Product.findDuplicate(product)) {
+			throw new Error('Product already exists')
+		}
+
+		// Clear the deletion.
+		const before = product.toObject()
+		product.deletedAt = null
+		product.deletedBy = null
+
+		// Save the restored product and record it in the audit log.
+		await product.save()
+		await Audit.record('product', 'restore', before, product, context)
+
+		return product
 	}
+
+	/**
+	 * Permanently removes the products that were deleted before a date.
+	 * Each product is recorded in the audit log first, so it can still be brought back by reverting the purge.
+	 *
+	 * @param {Date} deletedBefore - Products deleted before this date are removed.
+	 * @param {AuditContext} context - Who made the change and why, for the audit log. Optional.
+	 * @returns The removed product documents.
+	 */
+	static async purge(deletedBefore: Date, context: AuditContext = {}) {
+		const products = await ProductModel.find({ deletedAt: { $lt: deletedBefore } })
+
+		// Remove the products one at a time, recording each in the audit log.
+		for (const product of products) {
+			await ProductModel.deleteOne({ _id: product._id })
+			await Audit.record('product', 'purge', product, null, context)
+		}
+
+		return products
+	}
+}
+
+/**
+ * Finds the size that an updated size replaces: the size with its id, or else the size with its UPC, or else the
+ * size with the same packaging, count and unit.
+ *
+ * @param {Object[]} sizes - The sizes of the product that haven't been matched yet.
+ * @param {Object} size - The updated size.
+ * @returns The matching size, or undefined if it is a new size.
+ */
+function matchSize(sizes: any[], size: ProductEntry['sizes'][number]) {
+	if (size._id) return sizes.find(existing => String(existing._id) === String(size._id))
+
+	return (size.upc ? sizes.find(existing => existing.upc === size.upc) : undefined)
+		?? sizes.find(existing => existing.packaging === size.packaging && existing.count === size.count && existing.unit === size.unit)
+}
+
+function encodeCursor(offset: number) {
+	return Buffer.from(String(offset)).toString('base64url')
+}
+
+function decodeCursor(cursor: string) {
+	const offset = Number(Buffer.from(cursor, 'base64url').toString())
+
+	if (!Number.isInteger(offset) || offset < 0) {
+		throw new Error('Invalid cursor')
+	}
+
+	return offset
 }
 
 export default Product
@@ -0,0 +1,247 @@
+import mongoose from 'mongoose'
+import { hashPassword, verifyPassword } from '../lib/passwords'
+
+export const ROLES = ['viewer', 'reviewer', 'editor', 'admin'] as const
+
+export type Role = typeof ROLES[number]
+
+const userSchema = new mongoose.Schema({
+	email: {
+		type: String,
+		required: true,
+		unique: true,
+		lowercase: true,
+		trim: true,
+	},
+	name: String,
+	passwordHash: { type: String, required: true }, // scrypt `salt:hash`, never returned
+	role: {
+		type: String,
+		enum: ROLES,
+		default: 'viewer',
+	},
+	createdAt: { type: Date, default: Date.now },
+}, {
+	toJSON: {
+		transform: (_doc: any, user: any) => {
+			delete user.passwordHash
+			return user
+		},
+	},
+})
+
+const UserModel = mongoose.model('User', userSchema)
+
+interface UserEntry {
+	email: string
+	name: string | null
+	password: string
+	role: Role
+}
+
+export interface FilterOptions {
+	id?: string
+	email?: string
+	role?: Role
+}
+
+/**
+ * Returns true if a role has at least the access of another role (viewer < reviewer < editor < admin).
+ *
+ * @param {Role} role - The role to check.
+ * @param {Role} required - The role that is required.
+ * @returns True if the role is at least the required role.
+ */
+export function hasRole(role: Role, required: Role) {
+	return ROLES.indexOf(role) >= ROLES.indexOf(required)
+}
+
+/**
+ * User class to manage user accounts and interactions with the database.
+ */
+class User {
+	//////////////////////
+	/// STATIC METHODS ///
+	//////////////////////
+
+	/**
+	 * Gets the User mongoose model.
+	 *
+	 * @returns {Promise<mongoose.Model>} The User mongoose model.
+	 */
+	static async getModel() {
+		return UserModel
+	}
+
+	/**
+	 * Adds a new user to the database.
+	 *
+	 * @param {string} email - The email address the user logs in with.
+	 * @param {string} password - The password of the user. It is hashed before it is saved.
+	 * @param {Role} role - The role of the user (viewer, reviewer, editor or admin). Defaults to viewer.
+	 * @param {string} name - The name of the user. Optional.
+	 * @returns The newly created user document.
+	 * @throws Will throw an error if a user with the same email already exists, or if the password is too short.
+	 */
+	static async add(email: string, password: string, role: Role = 'viewer', name?: string | null) {
+		// Check if a user with the same email already exists.
+		const existingUser = await User.findByEmail(email)
+
+		// If it exists, throw an error.
+		if (existingUser) {
+			throw new Error('User already exists')
+		}
+
+		// Create and save the new user.
+		const user = new UserModel({ email, name, role, passwordHash: await hashPassword(password) })
+		return await user.save()
+	}
+
+	/**
+	 * Checks the email and password of a user.
+	 *
+	 * @param {string} email - The email address of the user.
+	 * @param {string} password - The password of the user.
+	 * @returns The user document.
+	 * @throws Will throw an error if no user has the email or the password is wrong.
+	 */
+	static async authenticate(email: string, password: string) {
+		const user = await User.findByEmail(email)
+
+		// Give the same error whether the email or the password is wrong.
+		if (!user || !await verifyPassword(password, user.passwordHash)) {
+			throw new Error('Invalid email or password')
+		}
+
+		return user
+	}
+
+	/**
+	 * Finds users based on provided filters.
+	 *
+	 * @param {Object} filters - An object containing filter criteria.
+	 * - `id`: The id of the user.
+	 * - `email`: The email address of the user.
+	 * - `role`: The role of the user.
+	 * @returns An array of matching user documents, or a single user if `id` is provided.
+	 * If no filters are provided, returns all users.
+	 */
+	static async find({ id, email, role }: FilterOptions) {
+		// If id is provided, find by id.
+		if (id) return await UserModel.findById(id)
+
+		// Build the query object based on provided filters.
+		const query: Record<string, any> = {}
+
+		if (email !== undefined) query.email = email.trim().toLowerCase()
+		if (role !== undefined) query.role = role
+
+		// Execute the query.
+		return await UserModel.find(query)
+	}
+
+	/**
+	 * Finds a user by their email address, ignoring case and surrounding whitespace.
+	 *
+	 * @param {string} email - The email address of the user.
+	 * @returns The user document, or null if no user has the email.
+	 */
+	static async findByEmail(email: string) {
+		return await UserModel.findOne({ email: email.trim().toLowerCase() })
+	}
+
+	/**
+	 * Updates an existing user's details.
+	 *
+	 * @param {string} id - The id of the user to update.
+	 * @param {Object} updates - An object containing the fields to update.
+	 * - `email` {String} - The new email address of the user.
+	 * - `name` {String} - The new name of the user.
+	 * - `password` {String} - The new password of the user.
+	 * - `role` {Role} - The new role of the user.
+	 * @returns The updated user document.
+	 * @throws Will throw an error if the user is not found, if no updates are provided, or if the last admin would lose their role.
+	 */
+	static async update(id: string, updates: Partial<UserEntry>) {
+		const { email, name, password, role } = updates
+
+		// Find the user by id.
+		const user = await UserModel.findById(id)
+
+		// If user doesn't exist, throw an error.
+		if (!user) {
+			throw new Error('User not found')
+		}
+
+		// Prepare the update object.
+		const update: Record<string, any> = {}
+
+		if (email !== undefined) {
+			// Check that no other user has the email.
+			const existingUser = await UserModel.findOne({ email: email.trim().toLowerCase(), _id: { $ne: id } })
+
+			if (existingUser) {
+				throw new Error('User already exists')
+			}
+
+			update.email = email
+		}
+		if (name !== undefined) update.name = name
+		if (password !== undefined) update.passwordHash = await hashPassword(password)
+		if (role !== undefined) update.role = role
+
+		// If no updates are provided, throw an error.
+		if (Object.keys(update).length === 0) {
+			throw new Error('No updates provided')
+		}
+
+		// Don't lock everyone out by demoting the last admin.
+		if (user.role === 'admin' && role !== undefined && role !== 'admin') {
+			await User.checkNotLastAdmin()
+		}
+
+		// Update and return the user.
+		return await UserModel.findByIdAndUpdate(id, update, { new: true, runValidators: true })
+	}
+
+	/**
+	 * Deletes a user from the database.
+	 *
+	 * @param {string} id - The id of the user to delete.
+	 * @returns The deleted user document.
+	 * @throws Will throw an error if the user is not found, or if they are the last admin.
+	 */
+	static async delete(id: string) {
+		// Find the user by id.
+		const user = await UserModel.findById(id)
+
+		// If user doesn't exist, throw an error.
+		if (!user) {
+			throw new Error('User not found')
+		}
+
+		// Don't lock everyone out by deleting the last admin.
+		if (user.role === 'admin') {
+			await User.checkNotLastAdmin()
+		}
+
+		await user.deleteOne()
+
+		return user
+	}
+
+	/**
+	 * Throws if there is only one admin left.
+	 *
+	 * @throws Will throw an error if there is only one admin.
+	 */
+	private static async checkNotLastAdmin() {
+		const admins = await UserModel.countDocuments({ role: 'admin' })
+
+		if (admins <= 1) {
+			throw new Error('Cannot remove the last admin')
+		}
+	}
+}
+
+export default User
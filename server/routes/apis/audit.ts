@@ -0,0 +1,37 @@
+import { Router, Request, Response } from 'express'
+import Audit, {FilterOptions as AuditFilterOptions} from '../../models/auditModel'
+import { sendError } from './errors'
+import { validateRequest } from './validate'
+import { auditContext, requireRole } from './access'
+import { auditQuerySchema } from './schemas'
+
+const router = Router()
+
+// Anyone with an account can read the audit log, but only editors can revert changes.
+router.use(requireRole('viewer'))
+
+router.get('/', validateRequest('query', auditQuerySchema), async (req: Request, res: Response) => {
+	// Get the filters from query parameters.
+	const {entity, id, actor, field, limit} = req.query
+
+	// Build the filter object.
+	const filters: AuditFilterOptions = {}
+
+	if (entity !== undefined) filters.entity = entity as AuditFilterOptions['entity']
+	if (id !== undefined) filters.id = String(id)
+	if (actor !== undefined) filters.actor = String(actor)
+	if (field !== undefined) filters.field = String(field)
+	if (limit !== undefined) filters.limit = Number(limit)
+
+	Audit.find(filters)
+		.then(entries => res.json(entries))
+		.catch(err => sendError(res, err))
+})
+
+router.post('/:id/revert', requireRole('editor'), async (req: Request, res: Response) => {
+	Audit.revert(req.params.id, auditContext(req, res))
+		.then(document => res.json(document))
+		.catch(err => sendError(res, err))
+})
+
+export default router
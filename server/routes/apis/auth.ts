@@ -0,0 +1,21 @@
+import { Router, Request, Response } from 'express'
+import User from '../../models/userModel'
+import { TOKEN_TTL_SECONDS } from '../../lib/tokens'
+import { sendError } from './errors'
+import { validateRequest } from './validate'
+import { authenticate, issueToken } from './access'
+import { loginSchema } from './schemas'
+
+const router = Router()
+
+router.post('/login', validateRequest('body', loginSchema), async (req: Request, res: Response) => {
+	User.authenticate(req.body.email, req.body.password)
+		.then(user => res.json({token: issueToken(user), expiresIn: TOKEN_TTL_SECONDS, user}))
+		.catch(err => sendError(res, err))
+})
+
+router.get('/me', authenticate, async (req: Request, res: Response) => {
+	res.json(res.locals.user)
+})
+
+export default router
@@ -0,0 +1,33 @@
+import { Response } from 'express'
+
+/**
+ * Maps error messages thrown by the models to HTTP status codes.
+ * Errors that don't match any of these are treated as bad requests.
+ */
+const STATUS_CODES: [RegExp, number][] = [
+	[/authentication required|invalid token|token expired|invalid email or password/i, 401],
+	[/permission denied/i, 403],
+	[/not found/i, 404],
+	[/already exists/i, 409],
+]
+
+/**
+ * Returns the HTTP status code for an error thrown by a model.
+ *
+ * @param {Error} err - The error to get the status code for.
+ * @returns The HTTP status code.
+ */
+export function statusFor(err: Error) {
+	const match = STATUS_CODES.find(([pattern]) => pattern.test(err.message))
+	return match ? match[1] : 400
+}
+
+/**
+ * Sends an error as a JSON response with the matching HTTP status code.
+ *
+ * @param {Response} res - The response to send the error with.
+ * @param {Error} err - The error to send.
+ */
+export function sendError(res: Response, err: Error) {
+	res.status(statusFor(err)).json({error: err.message})
+}
@@ -1,9 +1,21 @@
 import { Router } from 'express'
 import productRouter from './products'
+import ingredientRouter from './ingredients'
+import petRouter from './pets'
+import recommendationRouter from './recommendations'
+import authRouter from './auth'
+import userRouter from './users'
+import auditRouter from './audit'
 
 const router = Router()
 
 router.use('/products', productRouter)
+router.use('/ingredients', ingredientRouter)
+router.use('/pets', petRouter)
+router.use('/recommendations', recommendationRouter)
+router.use('/auth', authRouter)
+router.use('/users', userRouter)
+router.use('/audit', auditRouter)
 
 router.use('/', (req, res) => {
 	res.send('Welcome to the HealthyBites API.')
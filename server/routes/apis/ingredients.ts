@@ -0,0 +1,150 @@
+import { Router, Request, Response } from 'express'
+import Ingredient, {FilterOptions as IngredientFilterOptions} from '../../models/ingredientModel'
+import { Species } from '../../models/productModel'
+import { sendError } from './errors'
+import { validateRequest } from './validate'
+import { auditContext, guardWrites, requireRole } from './access'
+import { duplicatesQuerySchema, getQuerySchema, ingredientQuerySchema, ingredientSchema, ingredientUpdateSchema, mergeSchema, proposalSchema, ratingSchema, ratingUpdateSchema,
+	reviewQuerySchema, speciesParamsSchema } from './schemas'
+
+const router = Router()
+
+// Reviewers can propose ratings, which editors then approve or reject.
+router.post('/:id/proposals', requireRole('reviewer'), validateRequest('body', proposalSchema), async (req: Request, res: Response) => {
+	Ingredient.proposeRating(req.params.id, req.body, auditContext(req, res))
+		.then(ingredient => res.status(201).json(ingredient))
+		.catch(err => sendError(res, err))
+})
+
+// Anyone can read ingredients, but only editors can change them.
+router.use(guardWrites('editor'))
+
+router.get('/', validateRequest('query', ingredientQuerySchema), async (req: Request, res: Response) => {
+	// Get the filters from query parameters.
+	const {name, tag, category, sourceAnimal, byProduct, meal, artificial, toxicFor, species, rating, minRating, maxRating, includeDeleted} = req.query
+
+	// Build the filter object.
+	const filters: IngredientFilterOptions = {}
+
+	if (name !== undefined) filters.name = String(name)
+	if (tag !== undefined) filters.tag = String(tag)
+	if (category !== undefined) filters.category = category as IngredientFilterOptions['category']
+	if (sourceAnimal !== undefined) filters.sourceAnimal = String(sourceAnimal)
+	if (byProduct !== undefined) filters.byProduct = byProduct === 'true'
+	if (meal !== undefined) filters.meal = meal === 'true'
+	if (artificial !== undefined) filters.artificial = artificial === 'true'
+	if (toxicFor !== undefined) filters.toxicFor = toxicFor as IngredientFilterOptions['toxicFor']
+	if (species !== undefined) filters.species = String(species)
+	if (rating !== undefined) filters.rating = rating === 'null' ? null : Number(rating)
+	if (minRating !== undefined) filters.minRating = Number(minRating)
+	if (maxRating !== undefined) filters.maxRating = Number(maxRating)
+	if (includeDeleted !== undefined) filters.includeDeleted = includeDeleted === 'true'
+
+	// Fetch ingredients from the database based on filters.
+	Ingredient.find(filters)
+		.then(ingredients => res.json(ingredients))
+		.catch(err => sendError(res, err))
+})
+
+router.get('/unrated', validateRequest('query', ingredientQuerySchema), async (req: Request, res: Response) => {
+	// Build the filter object for the ingredients that are missing a rating.
+	const filters: IngredientFilterOptions = {rating: null}
+
+	if (req.query.species !== undefined) filters.species = String(req.query.species)
+
+	Ingredient.find(filters)
+		.then(ingredients => res.json(ingredients))
+		.catch(err => sendError(res, err))
+})
+
+router.get('/review', validateRequest('query', reviewQuerySchema), async (req: Request, res: Response) => {
+	const {species, limit} = req.query
+
+	Ingredient.reviewQueue(species as Species, limit !== undefined ? {limit: Number(limit)} : {})
+		.then(queue => res.json(queue))
+		.catch(err => sendError(res, err))
+})
+
+router.get('/duplicates', validateRequest('query', duplicatesQuerySchema), async (req: Request, res: Response) => {
+	const options = req.query.threshold !== undefined ? {threshold: Number(req.query.threshold)} : {}
+
+	Ingredient.findDuplicates(options)
+		.then(duplicates => res.json(duplicates))
+		.catch(err => sendError(res, err))
+})
+
+router.get('/:id', validateRequest('query', getQuerySchema), async (req: Request, res: Response) => {
+	Ingredient.find({id: req.params.id, includeDeleted: req.query.includeDeleted === 'true'})
+		.then(ingredient => {
+			// If ingredient doesn't exist, return a 404.
+			if (!ingredient) throw new Error('Ingredient not found')
+
+			res.json(ingredient)
+		})
+		.catch(err => sendError(res, err))
+})
+
+router.post('/', validateRequest('body', ingredientSchema), async (req: Request, res: Response) => {
+	Ingredient.add(req.body, auditContext(req, res))
+		.then(ingredient => res.status(201).json(ingredient))
+		.catch(err => sendError(res, err))
+})
+
+router.patch('/:id', validateRequest('body', ingredientUpdateSchema, {partial: true}), async (req: Request, res: Response) => {
+	Ingredient.update(req.params.id, req.body, auditContext(req, res))
+		.then(ingredient => res.json(ingredient))
+		.catch(err => sendError(res, err))
+})
+
+router.delete('/:id', async (req: Request, res: Response) => {
+	Ingredient.delete(req.params.id, auditContext(req, res))
+		.then(ingredient => res.json(ingredient))
+		.catch(err => sendError(res, err))
+})
+
+router.post('/:id/restore', async (req: Request, res: Response) => {
+	Ingredient.restore(req.params.id, auditContext(req, res))
+		.then(ingredient => res.json(ingredient))
+		.catch(err => sendError(res, err))
+})
+
+router.post('/:id/ratings', validateRequest('body', ratingSchema), async (req: Request, res: Response) => {
+	Ingredient.addRating(req.params.id, req.body, auditContext(req, res))
+		.then(ingredient => res.status(201).json(ingredient))
+		.catch(err => sendError(res, err))
+})
+
+router.patch('/:id/ratings/:species', validateRequest('params', speciesParamsSchema),
+validateRequest('body', ratingUpdateSchema, {partial: true}), async (req: Request, res: Response) => {
+	Ingredient.updateRating(req.params.id, req.params.species, req.body, auditContext(req, res))
+		.then(ingredient => res.json(ingredient))
+		.catch(err => sendError(res, err))
+})
+
+router.delete('/:id/ratings/:species', validateRequest('params', speciesParamsSchema), async (req: Request, res: Response) => {
+	Ingredient.removeRating(req.params.id, req.params.species, auditContext(req, res))
+		.then(ingredient => res.json(ingredient))
+		.catch(err => sendError(res, err))
+})
+
+router.post('/:id/proposals/:proposalId/approve', async (req: Request, res: Response) => {
+	Ingredient.approveProposal(req.params.id, req.params.proposalId, auditContext(req, res))
+		.then(ingredient => res.json(ingredient))
+		.catch(err => sendError(res, err))
+})
+
+router.post('/:id/proposals/:proposalId/reject', async (req: Request, res: Response) => {
+	Ingredient.rejectProposal(req.params.id, req.params.proposalId, auditContext(req, res))
+		.then(ingredient => res.json(ingredient))
+		.catch(err => sendError(res, err))
+})
+
+router.post('/:id/merge', validateRequest('body', mergeSchema), async (req: Request, res: Response) => {
+	const {duplicateId} = req.body
+
+	Ingredient.mergeDuplicates(req.params.id, duplicateId, auditContext(req, res))
+		.then(ingredient => res.json(ingredient))
+		.catch(err => sendError(res, err))
+})
+
+export default router
@@ -0,0 +1,75 @@
+import { Router, Request, Response } from 'express'
+import Pet, {FilterOptions as PetFilterOptions} from '../../models/petModel'
+import { sendError } from './errors'
+import { validateRequest } from './validate'
+import { petQuerySchema, petRecommendationQuerySchema, petSchema } from './schemas'
+
+const router = Router()
+
+router.get('/', validateRequest('query', petQuerySchema), async (req: Request, res: Response) => {
+	// Get the filters from query parameters.
+	const {name, species} = req.query
+
+	// Build the filter object.
+	const filters: PetFilterOptions = {}
+
+	if (name !== undefined) filters.name = String(name)
+	if (species !== undefined) filters.species = species as PetFilterOptions['species']
+
+	Pet.find(filters)
+		.then(pets => res.json(pets))
+		.catch(err => sendError(res, err))
+})
+
+router.get('/:id', async (req: Request, res: Response) => {
+	Pet.find({id: req.params.id})
+		.then(pet => {
+			// If pet doesn't exist, return a 404.
+			if (!pet) throw new Error('Pet not found')
+
+			res.json(pet)
+		})
+		.catch(err => sendError(res, err))
+})
+
+router.post('/', validateRequest('body', petSchema), async (req: Request, res: Response) => {
+	const {name, species, age, weight, lifeStage, activityLevel, preferredFoodType, excludedIngredients, excludedCategories, neutered} = req.body
+
+	Pet.add(name, species, age, weight, lifeStage, activityLevel, preferredFoodType, excludedIngredients, excludedCategories, neutered)
+		.then(pet => res.status(201).json(pet))
+		.catch(err => sendError(res, err))
+})
+
+router.patch('/:id', validateRequest('body', petSchema, {partial: true}), async (req: Request, res: Response) => {
+	Pet.update(req.params.id, req.body)
+		.then(pet => res.json(pet))
+		.catch(err => sendError(res, err))
+})
+
+router.delete('/:id', async (req: Request, res: Response) => {
+	Pet.delete(req.params.id)
+		.then(pet => res.json(pet))
+		.catch(err => sendError(res, err))
+})
+
+router.get('/:id/feeding/:productId', async (req: Request, res: Response) => {
+	Pet.getFeeding(req.params.id, req.params.productId)
+		.then(feeding => res.json(feeding))
+		.catch(err => sendError(res, err))
+})
+
+router.get('/:id/recommendations', validateRequest('query', petRecommendationQuerySchema), async (req: Request, res: Response) => {
+	const {qualityWeight, budget} = req.query
+
+	// Build the ranking options.
+	const options: {qualityWeight?: number, budget?: number} = {}
+
+	if (qualityWeight !== undefined) options.qualityWeight = Number(qualityWeight)
+	if (budget !== undefined) options.budget = Number(budget)
+
+	Pet.recommend(req.params.id, options)
+		.then(recommendations => res.json(recommendations))
+		.catch(err => sendError(res, err))
+})
+
+export default router
@@ -1,37 +1,227 @@
-import { Router, Request, Response } from 'express'
-import Product, {FilterOptions as ProductFilterOptions} from '../../models/productModel'
+import express, { Router, Request, Response } from 'express'
+import Product, {DuplicatePolicy, FeedingDetails, FilterOptions as ProductFilterOptions, ImportResult, ListOptions, Nutrition, ProductEntry}
+	from '../../models/productModel'
+import { catalogFromCsv, catalogFromJson, catalogToCsv, CatalogRow } from '../../lib/productCatalog'
+import { validate } from '../../lib/validation'
+import { sendError } from './errors'
+import { validateRequest } from './validate'
+import { splitList } from './query'
+import { auditContext, guardWrites } from './access'
+import { costQuerySchema, exportQuerySchema, getQuerySchema, importQuerySchema, productQuerySchema, productSchema, sizeSchema, sizeUpdateSchema } from './schemas'
+
+// Catalogs can have hundreds of products, so they are allowed to be larger than other requests.
+// JSON catalogs are read by the parser mounted for imports in app.ts, ahead of the default one.
+export const CATALOG_SIZE_LIMIT = '5mb'
 
 const router = Router()
 
-router.get('/', async (req: Request, res: Response) => {
+// Anyone can read products, but only editors can change them.
+router.use(guardWrites('editor'))
+
+router.get('/', validateRequest('query', productQuerySchema), async (req: Request, res: Response) => {
 	// Get the filters from query parameters.
-	const {id, brand, flavor, species, lifeStage, foodType} = req.query
+	const {id, brand, flavor, species, lifeStage, foodType, search, includesIngredients, excludesIngredients, includeDeleted} = req.query
+
+	// If id is provided, return the single product.
+	if (id !== undefined) {
+		try {
+			const product = await Product.find({id: String(id), includeDeleted: includeDeleted === 'true'})
+			res.json(product && await Product.fromDocument(product))
+		} catch (err: any) {
+			sendError(res, err)
+		}
+
+		return
+	}
 
 	// Build the filter object.
 	const filters: ProductFilterOptions = {}
 
-	if (id !== undefined) filters.id = String(id)
 	if (brand !== undefined) filters.brand = String(brand)
 	if (flavor !== undefined) filters.flavor = String(flavor)
 	if (species !== undefined) filters.species = species as ProductFilterOptions['species']
 	if (lifeStage !== undefined) filters.lifeStage = lifeStage as ProductFilterOptions['lifeStage']
 	if (foodType !== undefined) filters.foodType = foodType as ProductFilterOptions['foodType']
+	if (search !== undefined) filters.search = String(search)
+	if (includeDeleted !== undefined) filters.includeDeleted = includeDeleted === 'true'
+	if (includesIngredients !== undefined) filters.includesIngredients = splitList(includesIngredients)
+
+	// Build the nutrition filters, on a dry matter basis.
+	const {minProteinDM, maxProteinDM, minFatDM, maxFatDM} = req.query
+
+	if (minProteinDM !== undefined) filters.minProteinDM = Number(minProteinDM)
+	if (maxProteinDM !== undefined) filters.maxProteinDM = Number(maxProteinDM)
+	if (minFatDM !== undefined) filters.minFatDM = Number(minFatDM)
+	if (maxFatDM !== undefined) filters.maxFatDM = Number(maxFatDM)
+
+	// Build the sorting and paging options.
+	const {sort, order, limit, cursor, age, weight, excludesCategories} = req.query
+	const options: ListOptions = {}
+
+	if (sort !== undefined) options.sort = sort as ListOptions['sort']
+	if (order !== undefined) options.order = order as ListOptions['order']
+	if (limit !== undefined) options.limit = Number(limit)
+	if (cursor !== undefined) options.cursor = String(cursor)
+	if (age !== undefined && weight !== undefined) options.pet = {age: Number(age), weight: Number(weight)}
+
+	// Excluded ingredients and categories are left out of the page, with the reason why.
+	options.exclusions = {}
+
+	if (excludesIngredients !== undefined) options.exclusions.ingredients = splitList(excludesIngredients)
+	if (excludesCategories !== undefined) options.exclusions.categories = splitList(excludesCategories)
+
+	// Fetch a page of products from the database, scored by the quality of their ingredients.
+	Product.list(filters, options)
+		.then(page => res.json(page))
+		.catch(err => sendError(res, err))
+})
+
+router.post('/import', validateRequest('query', importQuerySchema), express.text({type: 'text/csv', limit: CATALOG_SIZE_LIMIT}),
+async (req: Request, res: Response) => {
+	const onDuplicate = (req.query.onDuplicate ?? 'fail') as DuplicatePolicy
+
+	// Read the products of the catalog, from CSV or JSON.
+	let rows: CatalogRow[]
+
+	try {
+		rows = req.is('text/csv') ? catalogFromCsv(req.body) : catalogFromJson(req.body)
+	} catch (err: any) {
+		sendError(res, err)
+		return
+	}
+
+	// Validate every row, so that only valid products are imported.
+	const checked = rows.map(row => ({...row, issues: [...row.issues, ...validate(productSchema, row.product)]}))
+
+	const invalid: ImportResult[] = checked
+		.filter(({issues}) => issues.length > 0)
+		.map(({row, product, issues}) => ({row, brand: product.brand ?? null, flavor: product.flavor ?? null, status: 'invalid', productId: null,
+			error: 'Invalid product', issues}))
+
+	// The valid rows match the product schema, so they have every field needed to add a product.
+	const valid = checked
+		.filter(({issues}) => issues.length === 0)
+		.map(({row, product}) => ({row, product: product as ProductEntry & Nutrition}))
+
+	// Import the valid products, handling duplicates as asked.
+	Product.importMany(valid, {onDuplicate}, auditContext(req, res))
+		.then(imported => {
+			const results = [...invalid, ...imported].sort((a, b) => a.row - b.row)
+			const count = (status: ImportResult['status']) => results.filter(result => result.status === status).length
+
+			res.json({
+				created: count('created'),
+				updated: count('updated'),
+				skipped: count('skipped'),
+				invalid: count('invalid'),
+				failed: count('failed'),
+				results,
+			})
+		})
+		.catch(err => sendError(res, err))
+})
+
+router.get('/export', validateRequest('query', exportQuerySchema), async (req: Request, res: Response) => {
+	const {format, brand, species, lifeStage, foodType} = req.query
+
+	// Build the filter object.
+	const filters: ProductFilterOptions = {}
+
+	if (brand !== undefined) filters.brand = String(brand)
+	if (species !== undefined) filters.species = species as ProductFilterOptions['species']
+	if (lifeStage !== undefined) filters.lifeStage = lifeStage as ProductFilterOptions['lifeStage']
+	if (foodType !== undefined) filters.foodType = foodType as ProductFilterOptions['foodType']
 
-	// Fetch products from the database based on filters.
-	const products = await Product.find(filters)
+	Product.exportAll(filters)
+		.then(products => {
+			if (format === 'csv') {
+				res.attachment('products.csv').type('text/csv').send(catalogToCsv(products))
+				return
+			}
 
-	// Return the products as JSON.
-	res.json(products)
+			res.json(products)
+		})
+		.catch(err => sendError(res, err))
 })
 
-router.post('/', async (req: Request, res: Response) => {
-	const {brand, flavor, species, lifeStage, foodType, ingredients, sizes, feedingChart} = req.body 
+router.get('/:id/cost', validateRequest('query', costQuerySchema), async (req: Request, res: Response) => {
+	// Get the pet's details from query parameters.
+	const weight = Number(req.query.weight)
+	const age = Number(req.query.age)
+	const {neutered, activityLevel, kcalPerDay} = req.query
+
+	// Build the details used when the feeding chart does not cover the pet.
+	const pet: FeedingDetails = {weight, age}
+
+	if (neutered !== undefined) pet.neutered = neutered === 'true'
+	if (activityLevel !== undefined) pet.activityLevel = activityLevel as FeedingDetails['activityLevel']
+	if (kcalPerDay !== undefined) pet.kcalPerDay = Number(kcalPerDay)
 
-	Product.add(brand, flavor, species, lifeStage, foodType, ingredients, sizes, feedingChart)
-		.then(product => res.status(201).json(product))
-		.catch(err => res.status(400).json({error: err.message}))
+	Product.getFeedingCost(req.params.id, pet)
+		.then(cost => res.json(cost))
+		.catch(err => sendError(res, err))
 })
 
+router.post('/', validateRequest('body', productSchema), async (req: Request, res: Response) => {
+	Product.add(req.body, {}, auditContext(req, res))
+		.then(async product => res.status(201).json(await Product.fromDocument(product)))
+		.catch(err => sendError(res, err))
+})
+
+router.get('/:id', validateRequest('query', getQuerySchema), async (req: Request, res: Response) => {
+	Product.find({id: req.params.id, includeDeleted: req.query.includeDeleted === 'true'})
+		.then(async product => {
+			// If product doesn't exist, return a 404.
+			if (!product) throw new Error('Product not found')
+
+			res.json(await Product.fromDocument(product))
+		})
+		.catch(err => sendError(res, err))
+})
+
+router.patch('/:id', validateRequest('body', productSchema, {partial: true}), async (req: Request, res: Response) => {
+	Product.update(req.params.id, req.body, {}, auditContext(req, res))
+		.then(async product => res.json(await Product.fromDocument(product)))
+		.catch(err => sendError(res, err))
+})
 
+router.delete('/:id', async (req: Request, res: Response) => {
+	Product.delete(req.params.id, auditContext(req, res))
+		.then(async product => res.json(await Product.fromDocument(product)))
+		.catch(err => sendError(res, err))
+})
+
+router.post('/:id/restore', async (req: Request, res: Response) => {
+	Product.restore(req.params.id, auditContext(req, res))
+		.then(async product => res.json(await Product.fromDocument(product)))
+		.catch(err => sendError(res, err))
+})
+
+router.post('/:id/sizes', validateRequest('body', sizeSchema), async (req: Request, res: Response) => {
+	Product.addSize(req.params.id, req.body, {}, auditContext(req, res))
+		.then(async product => res.status(201).json(await Product.fromDocument(product)))
+		.catch(err => sendError(res, err))
+})
+
+router.get('/:id/sizes/:sizeId/price-history', async (req: Request, res: Response) => {
+	Product.getPriceHistory(req.params.id, req.params.sizeId)
+		.then(history => res.json(history))
+		.catch(err => sendError(res, err))
+})
+
+router.patch('/:id/sizes/:sizeId', validateRequest('body', sizeUpdateSchema, {partial: true}), async (req: Request, res: Response) => {
+	// Where a new price came from is not part of the size itself.
+	const {priceSource, ...updates} = req.body
+
+	Product.updateSize(req.params.id, req.params.sizeId, updates, {source: priceSource}, auditContext(req, res))
+		.then(async product => res.json(await Product.fromDocument(product)))
+		.catch(err => sendError(res, err))
+})
+
+router.delete('/:id/sizes/:sizeId', async (req: Request, res: Response) => {
+	Product.removeSize(req.params.id, req.params.sizeId, auditContext(req, res))
+		.then(async product => res.json(await Product.fromDocument(product)))
+		.catch(err => sendError(res, err))
+})
 
 export default router
\ No newline at end of file
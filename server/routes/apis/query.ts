@@ -0,0 +1,11 @@
+// Helpers for reading query parameters.
+
+/**
+ * Splits a comma-separated query parameter into a list of trimmed, non-empty items.
+ *
+ * @param {unknown} value - The value of the query parameter.
+ * @returns The items in the list.
+ */
+export function splitList(value: unknown) {
+	return String(value).split(',').map(item => item.trim()).filter(Boolean)
+}
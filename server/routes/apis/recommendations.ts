@@ -0,0 +1,37 @@
+import { Router, Request, Response } from 'express'
+import Product, {PetProfile} from '../../models/productModel'
+import { sendError } from './errors'
+import { validateRequest } from './validate'
+import { splitList } from './query'
+import { recommendationQuerySchema } from './schemas'
+
+const router = Router()
+
+router.get('/', validateRequest('query', recommendationQuerySchema), async (req: Request, res: Response) => {
+	// Get the pet's details from query parameters.
+	const {species, lifeStage, foodType, age, weight, neutered, activityLevel, budget, qualityWeight, excludesIngredients, excludesCategories} = req.query
+
+	// Build the pet profile.
+	const pet: PetProfile = {
+		species: species as PetProfile['species'],
+		lifeStage: lifeStage as PetProfile['lifeStage'],
+		age: Number(age),
+		weight: Number(weight),
+	}
+
+	if (neutered !== undefined) pet.neutered = neutered === 'true'
+	if (activityLevel !== undefined) pet.activityLevel = activityLevel as PetProfile['activityLevel']
+	if (foodType !== undefined) pet.foodType = foodType as PetProfile['foodType']
+	if (budget !== undefined) pet.budget = Number(budget)
+	if (excludesIngredients !== undefined) pet.excludedIngredients = splitList(excludesIngredients)
+	if (excludesCategories !== undefined) pet.excludedCategories = splitList(excludesCategories)
+
+	const options = qualityWeight !== undefined ? {qualityWeight: Number(qualityWeight)} : {}
+
+	// Rank the products for the pet.
+	Product.recommend(pet, options)
+		.then(recommendations => res.json(recommendations))
+		.catch(err => sendError(res, err))
+})
+
+export default router
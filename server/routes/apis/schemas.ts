@@ -0,0 +1,378 @@
+// Validation schemas for the bodies and query parameters of API requests.
+import { absent, lessOrEqual, Schema } from '../../lib/validation'
+import { DUPLICATE_POLICIES, FOOD_TYPES, LIFE_STAGES, MAX_PAGE_SIZE, SORT_FIELDS, SPECIES, UNITS } from '../../models/productModel'
+import { PET_LIFE_STAGES } from '../../models/petModel'
+import { ACTIVITY_LEVELS } from '../../lib/feeding'
+import { INGREDIENT_CATEGORIES, MAX_REVIEW_LIMIT } from '../../models/ingredientModel'
+import { ROLES } from '../../models/userModel'
+import { AUDIT_ENTITIES, MAX_AUDIT_LIMIT } from '../../models/auditModel'
+import { MIN_PASSWORD_LENGTH } from '../../lib/passwords'
+
+const MIN_HEALTH_RATING = -10
+const MAX_HEALTH_RATING = 10
+
+// Query parameters for getting a single product or ingredient.
+export const getQuerySchema: Schema = {
+	fields: {
+		includeDeleted: { type: 'boolean' },
+	},
+}
+
+////////////////
+/// PRODUCTS ///
+////////////////
+
+export const offerSchema: Schema = {
+	fields: {
+		retailer: { type: 'string', required: true },
+		url: { type: 'string', required: true },
+		price: { type: 'number', required: true, min: 0 },
+		shipping: { type: 'number', min: 0 },
+		subscribeDiscount: { type: 'number', min: 0, max: 100 },
+		inStock: { type: 'boolean' },
+		lastCheckedAt: { type: 'string' },
+	},
+}
+
+export const sizeSchema: Schema = {
+	fields: {
+		packaging: { type: 'string', required: true },
+		price: { type: 'number', required: true, min: 0 },
+		count: { type: 'number', required: true, min: 0 },
+		unit: { type: 'enum', values: UNITS, required: true },
+		upc: { type: 'string', nullable: true },
+		offers: { type: 'array', items: { type: 'object', schema: offerSchema } },
+		imageUrls: { type: 'array', items: { type: 'string', required: true } },
+	},
+}
+
+export const sizeUpdateSchema: Schema = {
+	fields: {
+		...sizeSchema.fields,
+		priceSource: { type: 'string' },
+	},
+}
+
+export const feedingChartRowSchema: Schema = {
+	fields: {
+		minAge: { type: 'number', min: 0 },
+		maxAge: { type: 'number', min: 0 },
+		minWeight: { type: 'number', min: 0 },
+		maxWeight: { type: 'number', min: 0 },
+		minServing: { type: 'number', required: true, min: 0 },
+		maxServing: { type: 'number', required: true, min: 0 },
+	},
+	checks: [
+		lessOrEqual('minAge', 'maxAge'),
+		lessOrEqual('minWeight', 'maxWeight'),
+		lessOrEqual('minServing', 'maxServing'),
+	],
+}
+
+export const nutrientRangeSchema: Schema = {
+	fields: {
+		min: { type: 'number', min: 0, max: 100, nullable: true },
+		max: { type: 'number', min: 0, max: 100, nullable: true },
+	},
+	checks: [
+		lessOrEqual('min', 'max'),
+	],
+}
+
+export const guaranteedAnalysisSchema: Schema = {
+	fields: {
+		protein: { type: 'object', schema: nutrientRangeSchema },
+		fat: { type: 'object', schema: nutrientRangeSchema },
+		fiber: { type: 'object', schema: nutrientRangeSchema },
+		moisture: { type: 'object', schema: nutrientRangeSchema },
+	},
+}
+
+export const caloriesSchema: Schema = {
+	fields: {
+		kcalPerCup: { type: 'number', min: 0, nullable: true },
+		kcalPerCan: { type: 'number', min: 0, nullable: true },
+		kcalPerKg: { type: 'number', min: 0, nullable: true },
+	},
+}
+
+export const productSchema: Schema = {
+	fields: {
+		brand: { type: 'string', required: true },
+		flavor: { type: 'string', required: true },
+		species: { type: 'enum', values: SPECIES, required: true },
+		lifeStage: { type: 'enum', values: LIFE_STAGES, required: true },
+		foodType: { type: 'enum', values: FOOD_TYPES, required: true },
+		ingredients: { type: 'array', items: { type: 'string', required: true }, required: true },
+		cupsPerLb: { type: 'number', min: 0, nullable: true },
+		sizes: { type: 'array', items: { type: 'object', schema: sizeSchema }, required: true },
+		feedingChart: { type: 'array', items: { type: 'object', schema: feedingChartRowSchema }, required: true },
+		guaranteedAnalysis: { type: 'object', schema: guaranteedAnalysisSchema, nullable: true },
+		calories: { type: 'object', schema: caloriesSchema, nullable: true },
+		aafcoStatement: { type: 'string', nullable: true },
+	},
+}
+
+export const productQuerySchema: Schema = {
+	fields: {
+		id: { type: 'string' },
+		brand: { type: 'string' },
+		flavor: { type: 'string' },
+		species: { type: 'enum', values: SPECIES },
+		lifeStage: { type: 'enum', values: LIFE_STAGES },
+		foodType: { type: 'enum', values: FOOD_TYPES },
+		search: { type: 'string' },
+		includesIngredients: { type: 'string' },
+		excludesIngredients: { type: 'string' },
+		excludesCategories: { type: 'string' },
+		minProteinDM: { type: 'number', min: 0, max: 100 },
+		maxProteinDM: { type: 'number', min: 0, max: 100 },
+		minFatDM: { type: 'number', min: 0, max: 100 },
+		maxFatDM: { type: 'number', min: 0, max: 100 },
+		sort: { type: 'enum', values: SORT_FIELDS },
+		order: { type: 'enum', values: ['asc', 'desc'] },
+		limit: { type: 'number', min: 1, max: MAX_PAGE_SIZE },
+		cursor: { type: 'string' },
+		age: { type: 'number', min: 0 },
+		weight: { type: 'number', min: 0 },
+		includeDeleted: { type: 'boolean' },
+	},
+	checks: [
+		lessOrEqual('minProteinDM', 'maxProteinDM'),
+		lessOrEqual('minFatDM', 'maxFatDM'),
+		query => query.sort === 'costPerDay' && (query.age == null || query.weight == null)
+			? { field: 'sort', message: 'requires the age and weight of the pet to sort by cost per day' }
+			: null,
+	],
+}
+
+export const importQuerySchema: Schema = {
+	fields: {
+		onDuplicate: { type: 'enum', values: DUPLICATE_POLICIES },
+	},
+}
+
+export const exportQuerySchema: Schema = {
+	fields: {
+		format: { type: 'enum', values: ['json', 'csv'] },
+		brand: { type: 'string' },
+		species: { type: 'enum', values: SPECIES },
+		lifeStage: { type: 'enum', values: LIFE_STAGES },
+		foodType: { type: 'enum', values: FOOD_TYPES },
+	},
+}
+
+export const costQuerySchema: Schema = {
+	fields: {
+		weight: { type: 'number', required: true, min: 0 },
+		age: { type: 'number', required: true, min: 0 },
+		neutered: { type: 'boolean' },
+		activityLevel: { type: 'enum', values: ACTIVITY_LEVELS },
+		kcalPerDay: { type: 'number', min: 0 },
+	},
+}
+
+export const recommendationQuerySchema: Schema = {
+	fields: {
+		species: { type: 'enum', values: SPECIES, required: true },
+		lifeStage: { type: 'enum', values: LIFE_STAGES, required: true },
+		age: { type: 'number', required: true, min: 0 },
+		weight: { type: 'number', required: true, min: 0 },
+		neutered: { type: 'boolean' },
+		activityLevel: { type: 'enum', values: ACTIVITY_LEVELS },
+		foodType: { type: 'enum', values: FOOD_TYPES },
+		budget: { type: 'number', min: 0 },
+		qualityWeight: { type: 'number', min: 0, max: 1 },
+		excludesIngredients: { type: 'string' },
+		excludesCategories: { type: 'string' },
+	},
+}
+
+///////////////////
+/// INGREDIENTS ///
+///////////////////
+
+export const ratingSchema: Schema = {
+	fields: {
+		species: { type: 'enum', values: SPECIES, required: true },
+		healthRating: { type: 'number', min: MIN_HEALTH_RATING, max: MAX_HEALTH_RATING, nullable: true },
+		notes: { type: 'string', nullable: true },
+	},
+}
+
+export const ratingUpdateSchema: Schema = {
+	fields: {
+		healthRating: { type: 'number', min: MIN_HEALTH_RATING, max: MAX_HEALTH_RATING, nullable: true },
+		notes: { type: 'string', nullable: true },
+	},
+}
+
+export const ingredientFlagsSchema: Schema = {
+	fields: {
+		byProduct: { type: 'boolean' },
+		meal: { type: 'boolean' },
+		artificial: { type: 'boolean' },
+	},
+}
+
+export const ingredientSchema: Schema = {
+	fields: {
+		name: { type: 'string', required: true },
+		aliases: { type: 'array', items: { type: 'string', required: true } },
+		tags: { type: 'array', items: { type: 'string', required: true } },
+		category: { type: 'enum', values: INGREDIENT_CATEGORIES, nullable: true },
+		sourceAnimal: { type: 'string', nullable: true },
+		flags: { type: 'object', schema: ingredientFlagsSchema },
+		toxicFor: { type: 'array', items: { type: 'enum', values: SPECIES, required: true } },
+		ratings: { type: 'array', items: { type: 'object', schema: ratingSchema } },
+	},
+}
+
+// Ratings are changed one species at a time, or through proposals, so their review status is kept.
+export const ingredientUpdateSchema: Schema = {
+	fields: {
+		name: ingredientSchema.fields.name,
+		aliases: ingredientSchema.fields.aliases,
+		tags: ingredientSchema.fields.tags,
+		category: ingredientSchema.fields.category,
+		sourceAnimal: ingredientSchema.fields.sourceAnimal,
+		flags: ingredientSchema.fields.flags,
+		toxicFor: ingredientSchema.fields.toxicFor,
+	},
+	checks: [
+		absent('ratings', 'must be changed through the ratings or proposals of the ingredient'),
+	],
+}
+
+export const ingredientQuerySchema: Schema = {
+	fields: {
+		name: { type: 'string' },
+		tag: { type: 'string' },
+		category: { type: 'enum', values: INGREDIENT_CATEGORIES },
+		sourceAnimal: { type: 'string' },
+		byProduct: { type: 'boolean' },
+		meal: { type: 'boolean' },
+		artificial: { type: 'boolean' },
+		toxicFor: { type: 'enum', values: SPECIES },
+		species: { type: 'enum', values: SPECIES },
+		rating: { type: 'number', min: MIN_HEALTH_RATING, max: MAX_HEALTH_RATING, nullable: true },
+		minRating: { type: 'number', min: MIN_HEALTH_RATING, max: MAX_HEALTH_RATING },
+		maxRating: { type: 'number', min: MIN_HEALTH_RATING, max: MAX_HEALTH_RATING },
+		includeDeleted: { type: 'boolean' },
+	},
+	checks: [
+		lessOrEqual('minRating', 'maxRating'),
+	],
+}
+
+export const duplicatesQuerySchema: Schema = {
+	fields: {
+		threshold: { type: 'number', min: 0, max: 1 },
+	},
+}
+
+export const proposalSchema: Schema = {
+	fields: {
+		species: { type: 'enum', values: SPECIES, required: true },
+		healthRating: { type: 'number', min: MIN_HEALTH_RATING, max: MAX_HEALTH_RATING, required: true },
+		notes: { type: 'string', nullable: true },
+	},
+}
+
+export const reviewQuerySchema: Schema = {
+	fields: {
+		species: { type: 'enum', values: SPECIES, required: true },
+		limit: { type: 'number', min: 1, max: MAX_REVIEW_LIMIT },
+	},
+}
+
+export const speciesParamsSchema: Schema = {
+	fields: {
+		species: { type: 'enum', values: SPECIES, required: true },
+	},
+}
+
+export const mergeSchema: Schema = {
+	fields: {
+		duplicateId: { type: 'string', required: true },
+	},
+}
+
+////////////
+/// PETS ///
+////////////
+
+export const petSchema: Schema = {
+	fields: {
+		name: { type: 'string', required: true },
+		species: { type: 'enum', values: SPECIES, required: true },
+		age: { type: 'number', required: true, min: 0 },
+		weight: { type: 'number', required: true, min: 0 },
+		lifeStage: { type: 'enum', values: PET_LIFE_STAGES, required: true },
+		activityLevel: { type: 'enum', values: ACTIVITY_LEVELS },
+		neutered: { type: 'boolean' },
+		preferredFoodType: { type: 'enum', values: FOOD_TYPES, nullable: true },
+		excludedIngredients: { type: 'array', items: { type: 'string', required: true } },
+		excludedCategories: { type: 'array', items: { type: 'string', required: true } },
+	},
+}
+
+export const petQuerySchema: Schema = {
+	fields: {
+		name: { type: 'string' },
+		species: { type: 'enum', values: SPECIES },
+	},
+}
+
+export const petRecommendationQuerySchema: Schema = {
+	fields: {
+		budget: { type: 'number', min: 0 },
+		qualityWeight: { type: 'number', min: 0, max: 1 },
+	},
+}
+
+/////////////
+/// USERS ///
+/////////////
+
+export const loginSchema: Schema = {
+	fields: {
+		email: { type: 'string', required: true },
+		password: { type: 'string', required: true },
+	},
+}
+
+export const userSchema: Schema = {
+	fields: {
+		email: { type: 'string', required: true },
+		password: { type: 'string', required: true },
+		name: { type: 'string', nullable: true },
+		role: { type: 'enum', values: ROLES },
+	},
+	checks: [
+		user => typeof user.password === 'string' && user.password.length < MIN_PASSWORD_LENGTH
+			? { field: 'password', message: `must be at least ${MIN_PASSWORD_LENGTH} characters` }
+			: null,
+	],
+}
+
+export const userQuerySchema: Schema = {
+	fields: {
+		email: { type: 'string' },
+		role: { type: 'enum', values: ROLES },
+	},
+}
+
+/////////////
+/// AUDIT ///
+/////////////
+
+export const auditQuerySchema: Schema = {
+	fields: {
+		entity: { type: 'enum', values: AUDIT_ENTITIES },
+		id: { type: 'string' },
+		actor: { type: 'string' },
+		field: { type: 'string' },
+		limit: { type: 'number', min: 1, max: MAX_AUDIT_LIMIT },
+	},
+}
@@ -0,0 +1,59 @@
+import { Router, Request, Response } from 'express'
+import User, {FilterOptions as UserFilterOptions} from '../../models/userModel'
+import { sendError } from './errors'
+import { validateRequest } from './validate'
+import { requireRole } from './access'
+import { userQuerySchema, userSchema } from './schemas'
+
+const router = Router()
+
+// Managing users is only for admins.
+router.use(requireRole('admin'))
+
+router.get('/', validateRequest('query', userQuerySchema), async (req: Request, res: Response) => {
+	// Get the filters from query parameters.
+	const {email, role} = req.query
+
+	// Build the filter object.
+	const filters: UserFilterOptions = {}
+
+	if (email !== undefined) filters.email = String(email)
+	if (role !== undefined) filters.role = role as UserFilterOptions['role']
+
+	User.find(filters)
+		.then(users => res.json(users))
+		.catch(err => sendError(res, err))
+})
+
+router.get('/:id', async (req: Request, res: Response) => {
+	User.find({id: req.params.id})
+		.then(user => {
+			// If user doesn't exist, return a 404.
+			if (!user) throw new Error('User not found')
+
+			res.json(user)
+		})
+		.catch(err => sendError(res, err))
+})
+
+router.post('/', validateRequest('body', userSchema), async (req: Request, res: Response) => {
+	const {email, password, role, name} = req.body
+
+	User.add(email, password, role, name)
+		.then(user => res.status(201).json(user))
+		.catch(err => sendError(res, err))
+})
+
+router.patch('/:id', validateRequest('body', userSchema, {partial: true}), async (req: Request, res: Response) => {
+	User.update(req.params.id, req.body)
+		.then(user => res.json(user))
+		.catch(err => sendError(res, err))
+})
+
+router.delete('/:id', async (req: Request, res: Response) => {
+	User.delete(req.params.id)
+		.then(user => res.json(user))
+		.catch(err => sendError(res, err))
+})
+
+export default router
@@ -0,0 +1,27 @@
+import { NextFunction, Request, Response } from 'express'
+import { Schema, validate, ValidateOptions } from '../../lib/validation'
+
+/**
+ * Creates middleware that validates part of a request against a schema.
+ * Invalid requests are rejected with a 400 listing every failing field.
+ * Query and route parameters are strings, so they are coerced into the types the schema expects.
+ *
+ * @param {string} part - The part of the request to validate ('body', 'query' or 'params').
+ * @param {Schema} schema - The schema to validate against.
+ * @param {ValidateOptions} options - Validation options.
+ * - `partial` {Boolean} - If true, missing fields are allowed (e.g., for updates).
+ * @returns The validation middleware.
+ */
+export function validateRequest(part: 'body' | 'query' | 'params', schema: Schema, options: ValidateOptions = {}) {
+	return (req: Request, res: Response, next: NextFunction) => {
+		const issues = validate(schema, req[part] ?? {}, { coerce: part !== 'body', ...options })
+
+		// If anything is invalid, reject the request.
+		if (issues.length > 0) {
+			res.status(400).json({error: 'Invalid request', issues})
+			return
+		}
+
+		next()
+	}
+}
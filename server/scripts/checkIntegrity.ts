@@ -0,0 +1,148 @@
+// Checks that the ingredients listed on products match the Ingredient collection, and reports every mismatch.
+//
+// Usage: npm run check:integrity
+// Exits with a failure code if any product lists an ingredient that is missing, deleted, listed under
+// another name, or has no rating entry for the product's species. Unused ingredients are reported, but are not a failure.
+import mongoose from 'mongoose'
+import Product from '../models/productModel'
+import Ingredient from '../models/ingredientModel'
+import { normalizeIngredientName } from '../lib/ingredientNames'
+
+export interface IntegrityProduct {
+	_id: any
+	brand: string
+	flavor: string
+	species: string
+	ingredients: string[]
+}
+
+export interface IntegrityIngredient {
+	_id: any
+	name: string
+	aliases?: string[]
+	ratings?: { species: string }[]
+	deletedAt?: Date | null
+}
+
+export interface ListedIngredient {
+	productId: string
+	brand: string
+	flavor: string
+	ingredient: string // the name listed on the product
+}
+
+export interface IntegrityReport {
+	missing: ListedIngredient[] // no ingredient has the name
+	deleted: (ListedIngredient & { ingredientId: string })[] // only a deleted ingredient has the name
+	nonCanonical: (ListedIngredient & { canonical: string })[] // listed under an alias or another spelling
+	missingSpecies: (ListedIngredient & { species: string })[] // the ingredient has no rating entry for the product's species
+	unused: { ingredientId: string, name: string }[] // not listed on any product
+}
+
+/**
+ * Compares the ingredients listed on products with the Ingredient collection.
+ * Names are matched after normalization, against the names and aliases of the ingredients.
+ *
+ * @param {IntegrityProduct[]} products - The products to check.
+ * @param {IntegrityIngredient[]} ingredients - Every ingredient, including deleted ones.
+ * @returns The mismatches, by kind.
+ */
+export function findIntegrityIssues(products: IntegrityProduct[], ingredients: IntegrityIngredient[]): IntegrityReport {
+	const report: IntegrityReport = { missing: [], deleted: [], nonCanonical: [], missingSpecies: [], unused: [] }
+
+	// Index the ingredients by every name they are listed under, preferring ones that aren't deleted.
+	const active = new Map<string, IntegrityIngredient>()
+	const deleted = new Map<string, IntegrityIngredient>()
+
+	for (const ingredient of ingredients) {
+		const index = ingredient.deletedAt ? deleted : active
+
+		for (const name of [ingredient.name, ...ingredient.aliases ?? []]) {
+			const key = normalizeIngredientName(name)
+			if (!index.has(key)) index.set(key, ingredient)
+		}
+	}
+
+	const used = new Set<IntegrityIngredient>()
+
+	for (const product of products) {
+		for (const name of product.ingredients) {
+			const listed = { productId: String(product._id), brand: product.brand, flavor: product.flavor, ingredient: name }
+			const key = normalizeIngredientName(name)
+			const ingredient = active.get(key)
+
+			if (!ingredient) {
+				const deletedIngredient = deleted.get(key)
+
+				if (deletedIngredient) report.deleted.push({ ...listed, ingredientId: String(deletedIngredient._id) })
+				else report.missing.push(listed)
+
+				continue
+			}
+
+			used.add(ingredient)
+
+			if (ingredient.name !== name) report.nonCanonical.push({ ...listed, canonical: ingredient.name })
+
+			if (!ingredient.ratings?.some(rating => rating.species === product.species)) {
+				report.missingSpecies.push({ ...listed, species: product.species })
+			}
+		}
+	}
+
+	report.unused = ingredients
+		.filter(ingredient => !ingredient.deletedAt && !used.has(ingredient))
+		.map(ingredient => ({ ingredientId: String(ingredient._id), name: ingredient.name }))
+
+	return report
+}
+
+/**
+ * Returns true if a report has mismatches that need fixing. Unused ingredients are not counted.
+ *
+ * @param {IntegrityReport} report - The report.
+ * @returns True if any product lists a missing, deleted, non-canonical or unrated ingredient.
+ */
+export function hasIntegrityIssues(report: IntegrityReport) {
+	return report.missing.length + report.deleted.length + report.nonCanonical.length + report.missingSpecies.length > 0
+}
+
+/**
+ * Checks every product that isn't deleted against the Ingredient collection.
+ *
+ * @returns The integrity report.
+ */
+export async function checkIntegrity() {
+	const products: IntegrityProduct[] = await Product.find({})
+	const ingredients = await Ingredient.find({ includeDeleted: true }) as IntegrityIngredient[]
+
+	return findIntegrityIssues(products, ingredients)
+}
+
+async function main() {
+	// Connect to the database.
+	await import('../database')
+
+	const report = await checkIntegrity()
+	const describe = ({ brand, flavor, ingredient }: ListedIngredient) => `${brand} ${flavor}: ${ingredient}`
+
+	for (const listed of report.missing) console.log(`missing: ${describe(listed)}`)
+	for (const listed of report.deleted) console.log(`deleted: ${describe(listed)} (ingredient ${listed.ingredientId})`)
+	for (const listed of report.nonCanonical) console.log(`non-canonical: ${describe(listed)}, should be ${listed.canonical}`)
+	for (const listed of report.missingSpecies) console.log(`no ${listed.species} rating: ${describe(listed)}`)
+	for (const { name } of report.unused) console.log(`unused: ${name}`)
+
+	console.log(`${report.missing.length} missing, ${report.deleted.length} deleted, ${report.nonCanonical.length} non-canonical, ` +
+		`${report.missingSpecies.length} without a rating for the species, ${report.unused.length} unused`)
+
+	if (hasIntegrityIssues(report)) process.exitCode = 1
+}
+
+if (require.main === module) {
+	main()
+		.catch(err => {
+			console.error('Integrity check failed:', err.message)
+			process.exitCode = 1
+		})
+		.finally(() => mongoose.disconnect())
+}
@@ -0,0 +1,62 @@
+// Creates an admin user, or makes an existing user an admin.
+//
+// Usage: npm run create-admin -- --email=admin@example.com --password=[PASSWORD] [--name=Admin]
+// - `--email`: The email address the admin logs in with.
+// - `--password`: The password of the admin. Required for a new user, and replaces the password of an existing one.
+// - `--name`: The name of the admin. Optional.
+import mongoose from 'mongoose'
+import User from '../models/userModel'
+
+/**
+ * Creates an admin user, or gives an existing user the admin role.
+ *
+ * @param {Object} details - The details of the admin.
+ * - `email` {String} - The email address of the admin.
+ * - `password` {String} - The password of the admin. Optional for an existing user.
+ * - `name` {String} - The name of the admin. Optional.
+ * @returns The admin user and whether it was `created` or `promoted`.
+ * @throws Will throw an error if a new user has no password.
+ */
+export async function createAdmin({ email, password, name }: { email: string, password?: string, name?: string }) {
+	const existing = await User.findByEmail(email)
+
+	// Make an existing user an admin, changing their password if one is given.
+	if (existing) {
+		const user = await User.update(String(existing._id), { role: 'admin', password, name })
+		return { user, action: 'promoted' as const }
+	}
+
+	if (!password) {
+		throw new Error('Missing --password for a new user')
+	}
+
+	const user = await User.add(email, password, 'admin', name)
+	return { user, action: 'created' as const }
+}
+
+async function main() {
+	const args = process.argv.slice(2)
+	const option = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=').slice(1).join('=')
+
+	const email = option('email')
+
+	if (!email) {
+		throw new Error('Missing --email')
+	}
+
+	// Connect to the database.
+	await import('../database')
+
+	const { user, action } = await createAdmin({ email, password: option('password'), name: option('name') })
+
+	console.log(`Admin ${user?.email} ${action}`)
+}
+
+if (require.main === module) {
+	main()
+		.catch(err => {
+			console.error('Creating the admin failed:', err.message)
+			process.exitCode = 1
+		})
+		.finally(() => mongoose.disconnect())
+}
@@ -0,0 +1,248 @@
+// Imports retailer price feeds (CSV or JSON) into the prices of product sizes.
+//
+// Usage: npm run import:prices -- --file=path/to/feed.csv [--source=chewy] [--dry-run]
+// - `--file`: The feed to import. `.json` files are read as JSON, anything else as CSV.
+// - `--source`: Where the prices came from, recorded in the price history. Defaults to `import`,
+//   unless a row has its own `source`.
+// - `--dry-run`: Print the report without updating any prices.
+//
+// Each row has a `price`, and either the `upc` of the size or its `brand`, `flavor`, `packaging` and `count`.
+// `species`, `lifeStage` and `foodType` can be added to tell apart products with the same brand and flavor.
+import fs from 'fs'
+import path from 'path'
+import mongoose from 'mongoose'
+import Product from '../models/productModel'
+import { parseCsv } from '../lib/csv'
+
+export const DEFAULT_IMPORT_SOURCE = 'import'
+
+export type FeedFormat = 'csv' | 'json'
+
+export interface PriceRow {
+	row: number // The position of the row in the feed, starting at 1.
+	upc: string | null
+	brand: string | null
+	flavor: string | null
+	packaging: string | null
+	count: number | null
+	species: string | null
+	lifeStage: string | null
+	foodType: string | null
+	price: number | null
+	source: string | null
+}
+
+export interface FeedProduct {
+	_id: any
+	brand: string
+	flavor: string
+	species: string
+	lifeStage: string
+	foodType: string
+	sizes: { _id: any, packaging: string, count: number, price: number, upc?: string | null }[]
+}
+
+export interface SizeMatch {
+	productId: string
+	sizeId: string
+	brand: string
+	flavor: string
+	packaging: string
+	count: number
+}
+
+export interface PriceImportReport {
+	matched: (SizeMatch & { row: number, oldPrice: number, newPrice: number, changed: boolean, source: string | null })[]
+	unmatched: { row: number, reason: string }[]
+	ambiguous: { row: number, candidates: SizeMatch[] }[]
+}
+
+/**
+ * Reads the rows of a price feed.
+ *
+ * @param {string} text - The contents of the feed.
+ * @param {FeedFormat} format - The format of the feed ('csv' or 'json'). A JSON feed is an array of rows.
+ * @returns The rows of the feed, with empty fields as null and numbers parsed.
+ * @throws Will throw an error if the feed cannot be read.
+ */
+export function readPriceFeed(text: string, format: FeedFormat): PriceRow[] {
+	const records: Record<string, unknown>[] = format === 'json' ? JSON.parse(text) : parseCsv(text)
+
+	if (!Array.isArray(records)) {
+		throw new Error('A JSON price feed must be an array of rows')
+	}
+
+	const field = (value: unknown) => value === undefined || value === null || String(value).trim() === '' ? null : String(value).trim()
+	const numberField = (value: unknown) => field(value) === null ? null : Number(value)
+
+	return records.map((record, i) => ({
+		row: i + 1,
+		upc: field(record.upc),
+		brand: field(record.brand),
+		flavor: field(record.flavor),
+		packaging: field(record.packaging),
+		count: numberField(record.count),
+		species: field(record.species),
+		lifeStage: field(record.lifeStage),
+		foodType: field(record.foodType),
+		price: numberField(record.price),
+		source: field(record.source),
+	}))
+}
+
+/**
+ * Matches the rows of a price feed to the sizes of products.
+ * A row with a `upc` is matched to the size with that UPC. Otherwise, or if no size has the UPC, it is matched by
+ * the brand, flavor, packaging and count of the size (ignoring case), narrowed down by any species, life stage or food type.
+ * A size can only be priced once per feed, so later rows for the same size are unmatched.
+ *
+ * @param {PriceRow[]} rows - The rows of the feed.
+ * @param {FeedProduct[]} products - The products to match against.
+ * @returns The report of matched, unmatched and ambiguous rows.
+ */
+export function matchPriceRows(rows: PriceRow[], products: FeedProduct[]): PriceImportReport {
+	const report: PriceImportReport = { matched: [], unmatched: [], ambiguous: [] }
+	const sameText = (a: string | null | undefined, b: string | null | undefined) => (a ?? '').trim().toLowerCase() === (b ?? '').trim().toLowerCase()
+
+	// Every size of every product, with the product it belongs to.
+	const sizes = products.flatMap(product => product.sizes.map(size => ({ product, size })))
+
+	// The row that priced each size.
+	const pricedBy = new Map<string, number>()
+
+	for (const row of rows) {
+		if (row.price === null || !Number.isFinite(row.price) || row.price <= 0) {
+			report.unmatched.push({ row: row.row, reason: 'Missing or invalid price' })
+			continue
+		}
+
+		// Match by UPC first, then by the details of the size.
+		let candidates = row.upc ? sizes.filter(({ size }) => size.upc === row.upc) : []
+
+		if (candidates.length === 0) {
+			if (!row.brand || !row.flavor || !row.packaging || row.count === null) {
+				const reason = row.upc ? `No size has the UPC ${row.upc}` : 'Missing UPC, or brand, flavor, packaging and count'
+				report.unmatched.push({ row: row.row, reason })
+				continue
+			}
+
+			candidates = sizes.filter(({ product, size }) =>
+				sameText(product.brand, row.brand) &&
+				sameText(product.flavor, row.flavor) &&
+				sameText(size.packaging, row.packaging) &&
+				size.count === row.count &&
+				(row.species === null || sameText(product.species, row.species)) &&
+				(row.lifeStage === null || sameText(product.lifeStage, row.lifeStage)) &&
+				(row.foodType === null || sameText(product.foodType, row.foodType))
+			)
+		}
+
+		const matches = candidates.map(({ product, size }) => ({
+			productId: String(product._id),
+			sizeId: String(size._id),
+			brand: product.brand,
+			flavor: product.flavor,
+			packaging: size.packaging,
+			count: size.count,
+		}))
+
+		if (matches.length === 0) {
+			report.unmatched.push({ row: row.row, reason: 'No matching product size' })
+			continue
+		}
+
+		if (matches.length > 1) {
+			report.ambiguous.push({ row: row.row, candidates: matches })
+			continue
+		}
+
+		// Only the first row for a size is used.
+		const [match] = matches
+		const earlier = pricedBy.get(match.sizeId)
+
+		if (earlier !== undefined) {
+			report.unmatched.push({ row: row.row, reason: `Size was already priced by row ${earlier}` })
+			continue
+		}
+
+		pricedBy.set(match.sizeId, row.row)
+
+		const oldPrice = candidates[0].size.price
+		report.matched.push({ ...match, row: row.row, oldPrice, newPrice: row.price, changed: oldPrice !== row.price, source: row.source })
+	}
+
+	return report
+}
+
+/**
+ * Imports a price feed, updating the price of each matched size through `Product.updateSize`.
+ *
+ * @param {Object} options - The import options.
+ * - `file` {String} - The path of the feed.
+ * - `format` {FeedFormat} - The format of the feed. Defaults to 'json' for `.json` files and 'csv' otherwise.
+ * - `source` {String} - Where the prices came from, unless a row has its own `source`. Defaults to 'import'.
+ * - `dryRun` {Boolean} - If true, no prices are updated.
+ * @returns The report of matched, unmatched and ambiguous rows.
+ */
+export async function importPrices({ file, format, source = DEFAULT_IMPORT_SOURCE, dryRun }: { file: string, format?: FeedFormat, source?: string, dryRun: boolean }) {
+	const rows = readPriceFeed(fs.readFileSync(file, 'utf8'), format ?? (path.extname(file).toLowerCase() === '.json' ? 'json' : 'csv'))
+
+	// Match the rows against every product.
+	const products: FeedProduct[] = await Product.find({})
+	const report = matchPriceRows(rows, products)
+
+	// Update the prices that changed one at a time, so sizes of the same product don't overwrite each other.
+	if (!dryRun) {
+		for (const match of report.matched) {
+			if (!match.changed) continue
+
+			await Product.updateSize(match.productId, match.sizeId, { price: match.newPrice }, { source: match.source ?? source },
+				{ reason: `Price feed ${path.basename(file)}` })
+		}
+	}
+
+	return report
+}
+
+async function main() {
+	const args = process.argv.slice(2)
+	const option = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1]
+
+	const dryRun = args.includes('--dry-run')
+	const file = option('file')
+
+	if (!file) {
+		throw new Error('Missing --file')
+	}
+
+	// Connect to the database.
+	await import('../database')
+
+	const report = await importPrices({ file: path.resolve(file), source: option('source'), dryRun })
+
+	// Print every row that changes a price or could not be matched.
+	for (const match of report.matched) {
+		if (!match.changed) continue
+		console.log(`row ${match.row}: ${match.brand} ${match.flavor} (${match.packaging}, ${match.count}) ${match.oldPrice} -> ${match.newPrice}`)
+	}
+
+	for (const { row, reason } of report.unmatched) {
+		console.log(`row ${row}: unmatched, ${reason}`)
+	}
+
+	for (const { row, candidates } of report.ambiguous) {
+		console.log(`row ${row}: ambiguous, matches ${candidates.map(c => `${c.brand} ${c.flavor} (${c.packaging}, ${c.count})`).join(', ')}`)
+	}
+
+	console.log(`${dryRun ? 'Dry run: ' : ''}${report.matched.filter(match => match.changed).length} prices updated, ` +
+		`${report.matched.filter(match => !match.changed).length} unchanged, ${report.unmatched.length} unmatched, ${report.ambiguous.length} ambiguous`)
+}
+
+if (require.main === module) {
+	main()
+		.catch(err => {
+			console.error('Import failed:', err.message)
+			process.exitCode = 1
+		})
+		.finally(() => mongoose.disconnect())
+}
@@ -0,0 +1,80 @@
+// Migrates the plain `links` of product sizes into offers from an unknown retailer.
+//
+// Usage: npm run migrate:offers -- [--dry-run]
+// - `--dry-run`: Print what would change without writing anything.
+import mongoose from 'mongoose'
+import { linksToOffers, Offer } from '../lib/offers'
+
+export interface LegacySize {
+	_id?: any
+	price: number
+	links?: string[]
+	offers?: Offer[]
+	[field: string]: any
+}
+
+/**
+ * Converts the links of each size into offers, and drops the links.
+ *
+ * @param {LegacySize[]} sizes - The sizes of a product, as stored in the database.
+ * @returns The migrated sizes, and the number of offers that were added.
+ */
+export function migrateSizes(sizes: LegacySize[]) {
+	let added = 0
+
+	const migrated = sizes.map(({ links, ...size }) => {
+		const offers = linksToOffers(links ?? [], size.price, size.offers ?? [])
+		added += offers.length - (size.offers ?? []).length
+
+		return { ...size, offers }
+	})
+
+	return { sizes: migrated, added }
+}
+
+/**
+ * Migrates every product that still has links on its sizes.
+ * The raw collection is used, because `links` is no longer part of the product schema.
+ *
+ * @param {Object} options - The migration options.
+ * - `dryRun` {Boolean} - If true, nothing is written to the database.
+ * @returns The number of products migrated and offers added.
+ */
+export async function migrateOffers({ dryRun }: { dryRun: boolean }) {
+	const products = mongoose.connection.collection('products')
+	const legacy = await products.find({ 'sizes.links': { $exists: true } }).toArray()
+
+	let offers = 0
+
+	for (const product of legacy) {
+		const { sizes, added } = migrateSizes(product.sizes)
+		offers += added
+
+		if (!dryRun) {
+			await products.updateOne({ _id: product._id }, { $set: { sizes } })
+		}
+	}
+
+	return { products: legacy.length, offers }
+}
+
+async function main() {
+	const dryRun = process.argv.slice(2).includes('--dry-run')
+
+	// Connect to the database, and wait for it, as the raw collection is used.
+	await import('../database')
+	await mongoose.connection.asPromise()
+
+	const { products, offers } = await migrateOffers({ dryRun })
+
+	console.log(`${dryRun ? 'Dry run: ' : ''}${offers} offers added to ${products} products`)
+}
+
+if (require.main === module) {
+	main()
+		.catch(err => {
+			console.error('Migration failed:', err.message)
+			process.exitCode = 1
+		})
+		.finally(() => mongoose.disconnect())
+}
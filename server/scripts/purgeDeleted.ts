@@ -0,0 +1,68 @@
+// Permanently removes products and ingredients that were deleted more than a number of days ago.
+// Meant to be run on a schedule, e.g. once a day from cron.
+//
+// Usage: npm run purge:deleted -- [--days=30]
+// - `--days`: How many days a deleted product or ingredient is kept before it is purged. Defaults to 30.
+import mongoose from 'mongoose'
+import Product from '../models/productModel'
+import Ingredient from '../models/ingredientModel'
+
+export const DEFAULT_PURGE_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Returns the date before which deleted products and ingredients are purged.
+ *
+ * @param {number} days - How many days deleted products and ingredients are kept.
+ * @param {Date} now - The current date. Defaults to now.
+ * @returns The date `days` days before `now`.
+ * @throws Will throw an error if `days` is not a number of zero or more.
+ */
+export function purgeCutoff(days: number, now: Date = new Date()) {
+	if (!Number.isFinite(days) || days < 0) {
+		throw new Error('--days must be a number of zero or more')
+	}
+
+	return new Date(now.getTime() - days * DAY_MS)
+}
+
+/**
+ * Purges the products and ingredients that were deleted more than a number of days ago.
+ * Each purge is recorded in the audit log, with the purge job as its reason.
+ *
+ * @param {Object} options - The purge options.
+ * - `days` {Number} - How many days deleted products and ingredients are kept. Defaults to 30.
+ * - `now` {Date} - The current date. Defaults to now.
+ * @returns The number of `products` and `ingredients` that were purged.
+ */
+export async function purgeDeleted({ days = DEFAULT_PURGE_DAYS, now = new Date() }: { days?: number, now?: Date } = {}) {
+	const cutoff = purgeCutoff(days, now)
+	const context = { reason: `Deleted more than ${days} days ago` }
+
+	const products = await Product.purge(cutoff, context)
+	const ingredients = await Ingredient.purge(cutoff, context)
+
+	return { products: products.length, ingredients: ingredients.length }
+}
+
+async function main() {
+	const args = process.argv.slice(2)
+	const days = args.find(arg => arg.startsWith('--days='))?.split('=')[1]
+
+	// Connect to the database.
+	await import('../database')
+
+	const purged = await purgeDeleted({ days: days === undefined ? undefined : Number(days) })
+
+	console.log(`Purged ${purged.products} products and ${purged.ingredients} ingredients`)
+}
+
+if (require.main === module) {
+	main()
+		.catch(err => {
+			console.error('Purge failed:', err.message)
+			process.exitCode = 1
+		})
+		.finally(() => mongoose.disconnect())
+}
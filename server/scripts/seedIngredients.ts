@@ -0,0 +1,202 @@
+// Seeds the Ingredient collection from the curated ratings in lib/ingredients.json.
+//
+// Usage: npm run seed -- [--dry-run] [--prefer=file|db] [--file=path/to/ingredients.json]
+// - `--dry-run`: Print what would change without writing anything.
+// - `--prefer`: Which rating wins when the database already has a different rating. Defaults to `db`.
+// - `--file`: The file to seed from. Defaults to lib/ingredients.json.
+import fs from 'fs'
+import path from 'path'
+import mongoose from 'mongoose'
+import Ingredient from '../models/ingredientModel'
+import { Species } from '../models/productModel'
+import { normalizeIngredientName } from '../lib/ingredientNames'
+
+export type Prefer = 'file' | 'db'
+
+export interface SeedEntry {
+	name: string
+	aliases?: string[]
+	ratings: {
+		species: Species
+		healthRating: number | null
+		notes: string | null
+		generatedBy?: string | null
+	}[]
+}
+
+export interface SeedChange {
+	name: string
+	species: Species
+	action: 'create' | 'update' | 'unchanged'
+	conflict: boolean
+	current: { healthRating: number | null, notes: string | null } | null
+	seed: { healthRating: number | null, notes: string | null }
+}
+
+/**
+ * Groups the entries of a seed file that name the same ingredient after normalization (e.g. "Peas" and "Whole Peas"),
+ * or where one lists the other's name as an alias, into one entry, named after the first of them, so that each
+ * ingredient is only seeded once.
+ *
+ * @param {SeedEntry[]} entries - The entries of the seed file.
+ * @returns One entry per ingredient, with the ratings of every entry in its group.
+ * @throws Will throw an error if two entries for the same ingredient have different ratings for a species.
+ */
+export function groupSeedEntries(entries: SeedEntry[]): SeedEntry[] {
+	const byKey = new Map<string, SeedEntry>()
+	const grouped: SeedEntry[] = []
+
+	for (const entry of entries) {
+		const keys = [entry.name, ...entry.aliases ?? []].map(normalizeIngredientName)
+		const group = keys.map(key => byKey.get(key)).find(Boolean)
+
+		// The first entry for an ingredient starts its group.
+		if (!group) {
+			const first = { ...entry, ratings: [...entry.ratings] }
+			for (const key of keys) byKey.set(key, first)
+			grouped.push(first)
+			continue
+		}
+
+		// Index the group by the entry's names too, so later entries listing them join the group.
+		for (const key of keys) if (!byKey.has(key)) byKey.set(key, group)
+
+		// Add the ratings of the other entries, which have to agree with the ones already in the group.
+		for (const rating of entry.ratings) {
+			const same = group.ratings.find(r => r.species === rating.species)
+
+			if (!same) {
+				group.ratings.push(rating)
+			} else if ((same.healthRating ?? null) !== (rating.healthRating ?? null) || (same.notes ?? null) !== (rating.notes ?? null)) {
+				throw new Error(`Seed entries '${group.name}' and '${entry.name}' are the same ingredient with different ${rating.species} ratings`)
+			}
+		}
+	}
+
+	return grouped
+}
+
+/**
+ * Works out what seeding would change, by comparing each rating in the seed file with the database.
+ * Entries that name the same ingredient are planned once (see `groupSeedEntries`). Missing ratings are created, and unknown (null) ratings and ratings suggested by a rating provider are filled in.
+ * When the database has a different rating that a person set, it is a conflict, and the `prefer` policy decides which rating is kept.
+ *
+ * @param {SeedEntry[]} entries - The entries of the seed file.
+ * @param {SeedEntry[]} existing - The matching ingredients that are already in the database. Entries are matched to them
+ * after normalizing the names, against both the names and aliases of the ingredients.
+ * @param {Prefer} prefer - Which rating wins a conflict ('file' or 'db').
+ * @returns The change for each rating of each ingredient in the seed file.
+ * @throws Will throw an error if two entries for the same ingredient have different ratings for a species.
+ */
+export function planSeed(entries: SeedEntry[], existing: SeedEntry[], prefer: Prefer): SeedChange[] {
+	// Index the ingredients by every name they are listed under, the same way `Ingredient.push` resolves them.
+	const byKey = new Map<string, SeedEntry>()
+
+	for (const ingredient of existing) {
+		for (const name of [ingredient.name, ...ingredient.aliases ?? []]) {
+			const key = normalizeIngredientName(name)
+			if (!byKey.has(key)) byKey.set(key, ingredient)
+		}
+	}
+
+	return groupSeedEntries(entries).flatMap(entry => entry.ratings.map(rating => {
+		const seed = { healthRating: rating.healthRating ?? null, notes: rating.notes ?? null }
+		const found = byKey.get(normalizeIngredientName(entry.name))?.ratings.find(r => r.species === rating.species)
+
+		// If the rating doesn't exist yet, create it.
+		if (!found) {
+			return { name: entry.name, species: rating.species, action: 'create', conflict: false, current: null, seed }
+		}
+
+		const current = { healthRating: found.healthRating ?? null, notes: found.notes ?? null }
+
+		const sameRating = current.healthRating === seed.healthRating
+		const sameNotes = seed.notes === null || current.notes === seed.notes
+
+		if (sameRating && sameNotes) {
+			return { name: entry.name, species: rating.species, action: 'unchanged', conflict: false, current, seed }
+		}
+
+		// An unknown or suggested rating in the database is filled in, anything else is a conflict.
+		const conflict = current.healthRating !== null && !found.generatedBy
+		const action = conflict && prefer === 'db' ? 'unchanged' : 'update'
+
+		return { name: entry.name, species: rating.species, action, conflict, current, seed }
+	}))
+}
+
+/**
+ * Seeds the Ingredient collection from a seed file.
+ *
+ * @param {Object} options - The seed options.
+ * - `file` {String} - The path of the seed file.
+ * - `prefer` {Prefer} - Which rating wins a conflict ('file' or 'db').
+ * - `dryRun` {Boolean} - If true, nothing is written to the database.
+ * @returns The planned changes and the number of created, updated and unchanged ratings.
+ */
+export async function seedIngredients({ file, prefer, dryRun }: { file: string, prefer: Prefer, dryRun: boolean }) {
+	const entries: SeedEntry[] = JSON.parse(fs.readFileSync(file, 'utf8'))
+
+	// Compare the seed file with what is already in the database.
+	const existing = await Ingredient.findByNames(entries.map(entry => entry.name))
+	const changes = planSeed(entries, existing, prefer)
+
+	// Apply the changes one at a time, so ratings for the same ingredient don't race each other.
+	if (!dryRun) {
+		for (const change of changes) {
+			if (change.action === 'unchanged') continue
+
+			await Ingredient.push(change.name, change.species, change.seed.healthRating, change.seed.notes ?? undefined)
+		}
+	}
+
+	return {
+		changes,
+		created: changes.filter(change => change.action === 'create').length,
+		updated: changes.filter(change => change.action === 'update').length,
+		unchanged: changes.filter(change => change.action === 'unchanged').length,
+	}
+}
+
+function formatRating(rating: SeedChange['seed'] | null) {
+	if (!rating) return '(none)'
+	return rating.notes ? `${rating.healthRating} (${rating.notes})` : String(rating.healthRating)
+}
+
+async function main() {
+	const args = process.argv.slice(2)
+	const option = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1]
+
+	const dryRun = args.includes('--dry-run')
+	const prefer = (option('prefer') ?? 'db') as Prefer
+	const file = path.resolve(option('file') ?? path.join(__dirname, '../lib/ingredients.json'))
+
+	if (prefer !== 'file' && prefer !== 'db') {
+		throw new Error(`Invalid --prefer value '${prefer}', expected 'file' or 'db'`)
+	}
+
+	// Connect to the database.
+	await import('../database')
+
+	const { changes, created, updated, unchanged } = await seedIngredients({ file, prefer, dryRun })
+
+	// Print the diff of every rating that changes or conflicts.
+	for (const change of changes) {
+		if (change.action === 'unchanged' && !change.conflict) continue
+
+		const label = change.conflict ? `${change.action} (conflict, prefer ${prefer})` : change.action
+		console.log(`${label}: ${change.name} [${change.species}] ${formatRating(change.current)} -> ${formatRating(change.seed)}`)
+	}
+
+	console.log(`${dryRun ? 'Dry run: ' : ''}${created} created, ${updated} updated, ${unchanged} unchanged, ` +
+		`${changes.filter(change => change.conflict).length} conflicts`)
+}
+
+if (require.main === module) {
+	main()
+		.catch(err => {
+			console.error('Seeding failed:', err.message)
+			process.exitCode = 1
+		})
+		.finally(() => mongoose.disconnect())
+}
@@ -0,0 +1,97 @@
+import Audit from '../models/auditModel'
+import Product from '../models/productModel'
+import Ingredient from '../models/ingredientModel'
+import { useTestDatabase } from './db'
+import { addProduct } from './fixtures'
+
+useTestDatabase()
+
+describe('Audit', () => {
+	it('records who changed an ingredient rating, why, and what changed', async () => {
+		const corn = await Ingredient.add({ name: 'Corn', ratings: [{ species: 'cat', healthRating: -2 }] }, { actor: 'editor@example.com' })
+
+		await Ingredient.updateRating(corn._id, 'cat', { healthRating: -4 }, { actor: 'vet@example.com', reason: 'Low digestibility for cats' })
+
+		const [update, create] = await Audit.find({ entity: 'ingredient', id: String(corn._id) })
+
+		expect(create).toMatchObject({ action: 'create', actor: 'editor@example.com', before: null })
+		expect(update).toMatchObject({ action: 'update', actor: 'vet@example.com', reason: 'Low digestibility for cats' })
+		expect(update.changes.map(({ path, before, after }: any) => ({ path, before, after }))).toEqual([
+			{ path: 'ratings.0.healthRating', before: -2, after: -4 },
+		])
+	})
+
+	it('skips updates that change nothing, and finds entries by the field that changed', async () => {
+		const corn = await Ingredient.add({ name: 'Corn', ratings: [{ species: 'cat', healthRating: -2 }] })
+
+		await Ingredient.update(String(corn._id), { tags: [] })
+		await Ingredient.update(String(corn._id), { tags: ['grain'] })
+		await Ingredient.updateRating(corn._id, 'cat', { healthRating: -3 })
+
+		expect(await Audit.find({ id: String(corn._id) })).toHaveLength(3)
+
+		const ratingChanges = await Audit.find({ id: String(corn._id), field: 'ratings' })
+		expect(ratingChanges.map(entry => entry.changes[0].after)).toEqual([-3])
+	})
+
+	it('reverts a product to the version before a change', async () => {
+		const product = await addProduct()
+		await Product.update(product._id, { flavor: 'Tuna' }, {}, { actor: 'editor@example.com' })
+
+		const [update] = await Audit.find({ entity: 'product', id: String(product._id) })
+		const reverted = await Audit.revert(String(update._id), { actor: 'admin@example.com' })
+
+		expect(reverted.flavor).toBe('Salmon')
+
+		const [revert] = await Audit.find({ entity: 'product', id: String(product._id) })
+		expect(revert).toMatchObject({ action: 'revert', actor: 'admin@example.com', revertOf: update._id })
+	})
+
+	it('does not revert a product into a duplicate of another product', async () => {
+		const product = await addProduct()
+		await Product.update(product._id, { flavor: 'Tuna' })
+		await addProduct()
+
+		const [update] = await Audit.find({ entity: 'product', id: String(product._id) })
+
+		await expect(Audit.revert(String(update._id))).rejects.toThrow('Product already exists')
+		expect((await Product.find({ id: String(product._id) })).flavor).toBe('Tuna')
+	})
+
+	it('keeps the ingredients of products in sync when reverting an ingredient', async () => {
+		const product = await addProduct()
+		const ingredient = (await Ingredient.resolve('Corn Gluten Meal'))!
+		const labels = async () => (await Product.find({ id: String(product._id) })).ingredients
+
+		await Ingredient.update(String(ingredient._id), { name: 'Corn Gluten' })
+		const [rename] = await Audit.find({ entity: 'ingredient', id: String(ingredient._id) })
+
+		await Audit.revert(String(rename._id))
+		expect(await labels()).toEqual(['Salmon', 'Brown Rice', 'Corn Gluten Meal'])
+
+		await Ingredient.delete(ingredient._id)
+		const [deletion] = await Audit.find({ entity: 'ingredient', id: String(ingredient._id) })
+		expect(await labels()).toEqual(['Salmon', 'Brown Rice'])
+
+		await Audit.revert(String(deletion._id))
+		expect(await labels()).toEqual(['Salmon', 'Brown Rice', 'Corn Gluten Meal'])
+	})
+
+	it('restores a deleted ingredient', async () => {
+		const corn = await Ingredient.add({ name: 'Corn' })
+		await Ingredient.delete(corn._id)
+
+		const [deletion] = await Audit.find({ entity: 'ingredient', id: String(corn._id) })
+		await Audit.revert(String(deletion._id))
+
+		const restored = await Ingredient.find({ id: String(corn._id) }) as any
+		expect(restored.name).toBe('Corn')
+	})
+
+	it('cannot revert the creation of a document', async () => {
+		const corn = await Ingredient.add({ name: 'Corn' })
+		const [creation] = await Audit.find({ id: String(corn._id) })
+
+		await expect(Audit.revert(String(creation._id))).rejects.toThrow('Cannot revert the creation of this ingredient')
+	})
+})
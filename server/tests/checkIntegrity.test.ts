@@ -0,0 +1,59 @@
+import Ingredient from '../models/ingredientModel'
+import Product from '../models/productModel'
+import { checkIntegrity, findIntegrityIssues, hasIntegrityIssues } from '../scripts/checkIntegrity'
+import { useTestDatabase } from './db'
+import { addProduct } from './fixtures'
+
+const product = (ingredients: string[], species = 'cat') => ({ _id: 'p1', brand: 'Purrfect', flavor: 'Salmon', species, ingredients })
+
+describe('findIntegrityIssues', () => {
+	it('reports nothing when every listed ingredient is canonical and rated for the species', () => {
+		const report = findIntegrityIssues([product(['Salmon'])], [{ _id: 'i1', name: 'Salmon', ratings: [{ species: 'cat' }] }])
+
+		expect(hasIntegrityIssues(report)).toBe(false)
+	})
+
+	it('reports missing, deleted, non-canonical and unrated ingredients', () => {
+		const report = findIntegrityIssues([product(['Salmon (fresh)', 'Chicken Flesh', 'Corn', 'Pea', 'Rice'])], [
+			{ _id: 'i1', name: 'Salmon', ratings: [{ species: 'cat' }] },
+			{ _id: 'i2', name: 'Chicken', aliases: ['Chicken Flesh'], ratings: [{ species: 'cat' }] },
+			{ _id: 'i3', name: 'Corn', ratings: [{ species: 'cat' }], deletedAt: new Date() },
+			{ _id: 'i4', name: 'Pea', ratings: [{ species: 'dog' }] },
+		])
+
+		expect(report.missing.map(listed => listed.ingredient)).toEqual(['Rice'])
+		expect(report.deleted).toEqual([expect.objectContaining({ ingredient: 'Corn', ingredientId: 'i3' })])
+		expect(report.nonCanonical.map(listed => [listed.ingredient, listed.canonical])).toEqual([['Salmon (fresh)', 'Salmon'], ['Chicken Flesh', 'Chicken']])
+		expect(report.missingSpecies).toEqual([expect.objectContaining({ ingredient: 'Pea', species: 'cat' })])
+		expect(hasIntegrityIssues(report)).toBe(true)
+	})
+
+	it('reports unused ingredients without counting them as issues', () => {
+		const report = findIntegrityIssues([], [{ _id: 'i1', name: 'Salmon', ratings: [] }, { _id: 'i2', name: 'Corn', deletedAt: new Date() }])
+
+		expect(report.unused).toEqual([{ ingredientId: 'i1', name: 'Salmon' }])
+		expect(hasIntegrityIssues(report)).toBe(false)
+	})
+})
+
+describe('checkIntegrity', () => {
+	useTestDatabase()
+
+	it('finds no issues in products added through the model', async () => {
+		await addProduct()
+
+		expect(hasIntegrityIssues(await checkIntegrity())).toBe(false)
+	})
+
+	it('finds products that list an ingredient missing from the collection', async () => {
+		const added = await addProduct()
+		const model = await Product.getModel()
+		await model.updateOne({ _id: added._id }, { $push: { ingredients: 'Taurine' } })
+		await Ingredient.add({ name: 'Pumpkin' })
+
+		const report = await checkIntegrity()
+
+		expect(report.missing.map(listed => listed.ingredient)).toEqual(['Taurine'])
+		expect(report.unused.map(unused => unused.name)).toEqual(['Pumpkin'])
+	})
+})
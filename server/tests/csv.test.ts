@@ -0,0 +1,33 @@
+import { parseCsv, parseCsvRows, toCsv } from '../lib/csv'
+
+describe('parseCsvRows', () => {
+	it('splits rows and fields, keeping quoted commas, quotes and line breaks', () => {
+		expect(parseCsvRows('a,b\r\n"1,5","say ""hi""\nthere"\n')).toEqual([['a', 'b'], ['1,5', 'say "hi"\nthere']])
+	})
+
+	it('skips blank lines and keeps empty fields', () => {
+		expect(parseCsvRows('a,,c\n\n1,2,')).toEqual([['a', '', 'c'], ['1', '2', '']])
+	})
+
+	it('rejects an unterminated quoted field', () => {
+		expect(() => parseCsvRows('a\n"oops')).toThrow('Unterminated quoted field in CSV')
+	})
+})
+
+describe('parseCsv', () => {
+	it('keys each row by the header', () => {
+		expect(parseCsv('﻿brand, price\nPurrfect,20\nMeow')).toEqual([
+			{ brand: 'Purrfect', price: '20' },
+			{ brand: 'Meow', price: '' },
+		])
+	})
+})
+
+describe('toCsv', () => {
+	it('writes a header and quotes fields that need it', () => {
+		const csv = toCsv(['brand', 'flavor', 'price'], [{ brand: 'Purrfect', flavor: 'Salmon, "Wild"', price: 20 }, { brand: 'Meow' }])
+
+		expect(csv).toBe('brand,flavor,price\nPurrfect,"Salmon, ""Wild""",20\nMeow,,\n')
+		expect(parseCsv(csv)[0].flavor).toBe('Salmon, "Wild"')
+	})
+})
@@ -0,0 +1,27 @@
+// Test helpers for running the models against an in-memory MongoDB.
+import mongoose from 'mongoose'
+import { MongoMemoryReplSet } from 'mongodb-memory-server'
+
+/**
+ * Starts an in-memory MongoDB for the tests in the current file and connects mongoose to it.
+ * It runs as a single-member replica set, so that changes are saved in transactions.
+ * Every collection is emptied after each test, and the database is stopped after the last one.
+ */
+export function useTestDatabase() {
+	let server: MongoMemoryReplSet
+
+	beforeAll(async () => {
+		server = await MongoMemoryReplSet.create({ replSet: { count: 1 } })
+		await mongoose.connect(server.getUri())
+	})
+
+	afterEach(async () => {
+		const collections = await mongoose.connection.db!.collections()
+		await Promise.all(collections.map(collection => collection.deleteMany({})))
+	})
+
+	afterAll(async () => {
+		await mongoose.disconnect()
+		await server?.stop()
+	})
+}
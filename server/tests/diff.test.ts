@@ -0,0 +1,23 @@
+import { diff } from '../lib/diff'
+
+describe('diff', () => {
+	it('lists the changed fields by path', () => {
+		const before = { name: 'Corn', ratings: [{ species: 'cat', healthRating: -2 }], tags: ['grain'], __v: 0 }
+		const after = { name: 'Corn', ratings: [{ species: 'cat', healthRating: -4 }], tags: ['grain', 'filler'], __v: 1 }
+
+		expect(diff(before, after)).toEqual([
+			{ path: 'ratings.0.healthRating', before: -2, after: -4 },
+			{ path: 'tags.1', before: null, after: 'filler' },
+		])
+	})
+
+	it('treats missing and null values as the same, and compares dates by value', () => {
+		expect(diff({ a: null, at: new Date('2024-01-01') }, { at: new Date('2024-01-01') })).toEqual([])
+	})
+
+	it('replaces values that change type', () => {
+		expect(diff({ calories: null }, { calories: { kcalPerCup: 400 } })).toEqual([
+			{ path: 'calories', before: null, after: { kcalPerCup: 400 } },
+		])
+	})
+})
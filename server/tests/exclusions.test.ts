@@ -0,0 +1,48 @@
+import { findExclusionReasons, hasExclusions } from '../lib/exclusions'
+
+const known = [
+	{ name: 'Chicken', aliases: ['Chicken Breast'], tags: ['poultry'] },
+	{ name: 'Turkey Meal', tags: ['poultry'] },
+	{ name: 'Brown Rice', tags: ['grain'] },
+	{ name: 'Red 40', tags: ['dye'] },
+	{ name: 'Oatmeal', category: 'grain' },
+	{ name: 'Beef Fat', category: 'fat/oil', sourceAnimal: 'beef' },
+]
+
+describe('hasExclusions', () => {
+	it('is false when nothing is excluded', () => {
+		expect(hasExclusions()).toBe(false)
+		expect(hasExclusions({ ingredients: [], categories: [] })).toBe(false)
+		expect(hasExclusions({ categories: ['grain'] })).toBe(true)
+	})
+})
+
+describe('findExclusionReasons', () => {
+	it('matches excluded ingredients by any of their names', () => {
+		const reasons = findExclusionReasons(['Deboned Chicken', 'Salmon'], { ingredients: ['Chicken Breast'] }, known)
+		expect(reasons).toEqual([{ ingredient: 'Deboned Chicken', excludedBy: 'ingredient', match: 'Chicken Breast' }])
+	})
+
+	it('matches unknown ingredients by their normalized name', () => {
+		const reasons = findExclusionReasons(['Duck (fresh)'], { ingredients: ['duck'] }, known)
+		expect(reasons).toEqual([{ ingredient: 'Duck (fresh)', excludedBy: 'ingredient', match: 'duck' }])
+	})
+
+	it('matches excluded categories by the tags of the ingredients', () => {
+		const reasons = findExclusionReasons(['Salmon', 'Turkey Meal', 'Brown Rice', 'Red 40'], { categories: ['Poultry', 'grains'] }, known)
+
+		expect(reasons).toEqual([
+			{ ingredient: 'Turkey Meal', excludedBy: 'category', match: 'Poultry' },
+			{ ingredient: 'Brown Rice', excludedBy: 'category', match: 'grains' },
+		])
+	})
+
+	it('matches excluded categories by the category and source animal of the ingredients', () => {
+		const reasons = findExclusionReasons(['Oatmeal', 'Beef Fat'], { categories: ['grain', 'beef'] }, known)
+		expect(reasons.map(reason => reason.match)).toEqual(['grain', 'beef'])
+	})
+
+	it('returns nothing for a product without excluded ingredients', () => {
+		expect(findExclusionReasons(['Salmon', 'Pumpkin'], { ingredients: ['Chicken'], categories: ['grain'] }, known)).toEqual([])
+	})
+})
@@ -0,0 +1,78 @@
+import { calculateSizeCosts, energyRequirement, findFeedingRow, maintenanceFactor, servingsPerSize } from '../lib/feeding'
+
+const chart = [
+	{ minAge: 0, maxAge: 1, minWeight: 0, maxWeight: 10, minServing: 1, maxServing: 1.5 },
+	{ minAge: 1, maxAge: 20, minWeight: 5, maxWeight: 10, minServing: 0.5, maxServing: 0.75 },
+	{ minAge: 1, maxAge: 20, minWeight: 10, maxWeight: null, minServing: 0.75, maxServing: 1 },
+]
+
+describe('findFeedingRow', () => {
+	it('finds the first row covering the age and weight', () => {
+		expect(findFeedingRow(chart, { age: 3, weight: 8 })).toBe(chart[1])
+		expect(findFeedingRow(chart, { age: 0.5, weight: 8 })).toBe(chart[0])
+	})
+
+	it('treats missing bounds as unbounded', () => {
+		expect(findFeedingRow(chart, { age: 3, weight: 40 })).toBe(chart[2])
+	})
+
+	it('returns null when no row covers the pet', () => {
+		expect(findFeedingRow(chart, { age: 3, weight: 2 })).toBeNull()
+	})
+})
+
+describe('servingsPerSize', () => {
+	it('converts pounds of dry food into cups', () => {
+		expect(servingsPerSize({ packaging: 'bag', price: 20, count: 5, unit: 'lb' }, { foodType: 'dry', cupsPerLb: 4 })).toBe(20)
+	})
+
+	it('serves wet food by the can', () => {
+		expect(servingsPerSize({ packaging: 'case', price: 24, count: 12, unit: 'can' }, { foodType: 'wet' })).toBe(12)
+	})
+
+	it('requires the cups per lb of dry food', () => {
+		expect(() => servingsPerSize({ packaging: 'bag', price: 20, count: 5, unit: 'lb' }, { foodType: 'dry' }))
+			.toThrow('Missing cups per lb for dry food')
+	})
+})
+
+describe('calculateSizeCosts', () => {
+	it('calculates the daily, monthly and yearly cost range of each size', () => {
+		const [cost] = calculateSizeCosts([{ packaging: 'case', price: 24, count: 12, unit: 'can' }], { minServing: 1, maxServing: 2 }, { foodType: 'wet' })
+
+		expect(cost.daily).toEqual({ min: 2, max: 4 })
+		expect(cost.monthly).toEqual({ min: 60.83, max: 121.67 })
+		expect(cost.yearly).toEqual({ min: 730, max: 1460 })
+	})
+
+	it('prices each size at its best offer in stock', () => {
+		const offers = [
+			{ retailer: 'chewy', url: 'https://chewy.example', price: 24, subscribeDiscount: 50 },
+			{ retailer: 'petco', url: 'https://petco.example', price: 6, inStock: false },
+		]
+		const [cost] = calculateSizeCosts([{ packaging: 'case', price: 36, count: 12, unit: 'can', offers }], { minServing: 1, maxServing: 2 }, { foodType: 'wet' })
+
+		expect(cost.price).toBe(12)
+		expect(cost.offer?.retailer).toBe('chewy')
+		expect(cost.daily).toEqual({ min: 1, max: 2 })
+	})
+})
+
+describe('energyRequirement', () => {
+	it('calculates the resting and maintenance energy requirements', () => {
+		expect(energyRequirement({ species: 'dog', age: 5, weight: 22.0462 })).toEqual({ rer: 393.64, factor: 1.6, mer: 629.82 })
+		expect(energyRequirement({ species: 'cat', age: 5, weight: 10 }).mer).toBe(261.08)
+	})
+
+	it('depends on the neuter status and activity of adults', () => {
+		expect(energyRequirement({ species: 'dog', age: 5, weight: 22.0462, neutered: false }).mer).toBe(708.55)
+		expect(maintenanceFactor({ species: 'dog', age: 5, weight: 40, activityLevel: 'high' })).toBe(2)
+		expect(maintenanceFactor({ species: 'cat', age: 5, weight: 10, activityLevel: 'low', neutered: false })).toBe(1)
+	})
+
+	it('gives growing pets more energy', () => {
+		expect(maintenanceFactor({ species: 'dog', age: 0.2, weight: 3 })).toBe(3)
+		expect(maintenanceFactor({ species: 'dog', age: 0.5, weight: 3 })).toBe(2)
+		expect(maintenanceFactor({ species: 'cat', age: 0.2, weight: 3 })).toBe(2.5)
+	})
+})
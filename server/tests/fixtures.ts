@@ -0,0 +1,43 @@
+// Sample data shared by the tests.
+import Product from '../models/productModel'
+import User, { Role } from '../models/userModel'
+import { issueToken } from '../routes/apis/access'
+
+/**
+ * Returns the details of a dry cat food, with any of the fields overridden.
+ */
+export function dryCatFood(overrides: Record<string, any> = {}) {
+	return {
+		brand: 'Purrfect',
+		flavor: 'Salmon',
+		species: 'cat' as const,
+		lifeStage: 'adult' as const,
+		foodType: 'dry' as const,
+		ingredients: ['Salmon', 'Brown Rice', 'Corn Gluten Meal'],
+		cupsPerLb: 4,
+		sizes: [
+			{ packaging: 'bag', price: 20, count: 5, unit: 'lb' as const, offers: [], imageUrls: [] },
+			{ packaging: 'bag', price: 48, count: 15, unit: 'lb' as const, offers: [], imageUrls: [] },
+		],
+		feedingChart: [
+			{ minAge: 1, maxAge: 20, minWeight: 5, maxWeight: 10, minServing: 0.5, maxServing: 0.75 },
+			{ minAge: 1, maxAge: 20, minWeight: 10, maxWeight: 15, minServing: 0.75, maxServing: 1 },
+		],
+		...overrides,
+	}
+}
+
+/**
+ * Adds a product to the database from its details.
+ */
+export async function addProduct(details: ReturnType<typeof dryCatFood> = dryCatFood()) {
+	return await Product.add(details)
+}
+
+/**
+ * Adds a user with a role to the database, and returns the header that authenticates requests as them.
+ */
+export async function authHeader(role: Role = 'editor') {
+	const user = await User.add(`${role}@example.com`, 'correct horse battery', role)
+	return { Authorization: `Bearer ${issueToken(user)}` }
+}
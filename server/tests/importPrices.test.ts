@@ -0,0 +1,106 @@
+import fs from 'fs'
+import path from 'path'
+import Product from '../models/productModel'
+import { FeedProduct, importPrices, matchPriceRows, readPriceFeed } from '../scripts/importPrices'
+import { useTestDatabase } from './db'
+import { addProduct, dryCatFood } from './fixtures'
+
+const feed = (name: string) => path.join(__dirname, 'feeds', name)
+const read = (name: string) => fs.readFileSync(feed(name), 'utf8')
+
+function product(id: string, lifeStage: string, upcs: (string | null)[] = []): FeedProduct {
+	return {
+		_id: id,
+		brand: 'Purrfect',
+		flavor: 'Salmon',
+		species: 'cat',
+		lifeStage,
+		foodType: 'dry',
+		sizes: [
+			{ _id: `${id}-small`, packaging: 'bag', count: 5, price: 20, upc: upcs[0] ?? null },
+			{ _id: `${id}-large`, packaging: 'bag', count: 15, price: 48, upc: upcs[1] ?? null },
+		],
+	}
+}
+
+describe('readPriceFeed', () => {
+	it('reads CSV and JSON feeds', () => {
+		const csv = readPriceFeed(read('prices.csv'), 'csv')
+
+		expect(csv).toHaveLength(5)
+		expect(csv[0]).toMatchObject({ row: 1, brand: 'Purrfect', count: 5, price: 18.99, upc: null, source: null })
+		expect(csv[4].flavor).toBe('Salmon, Grain Free')
+
+		expect(readPriceFeed(read('prices.json'), 'json')[1]).toMatchObject({ lifeStage: 'adult', price: 19 })
+	})
+
+	it('rejects a JSON feed that is not an array', () => {
+		expect(() => readPriceFeed('{"price": 1}', 'json')).toThrow('A JSON price feed must be an array of rows')
+	})
+})
+
+describe('matchPriceRows', () => {
+	it('matches by brand, flavor, packaging and count, or by UPC', () => {
+		const report = matchPriceRows(readPriceFeed(read('prices.csv'), 'csv'), [product('a', 'adult', [null, '012345678905'])])
+
+		expect(report.matched.map(match => [match.row, match.sizeId, match.newPrice, match.changed])).toEqual([
+			[1, 'a-small', 18.99, true],
+			[2, 'a-large', 48, false],
+		])
+		expect(report.unmatched).toEqual([
+			{ row: 3, reason: 'No matching product size' },
+			{ row: 4, reason: 'Size was already priced by row 2' },
+			{ row: 5, reason: 'Missing or invalid price' },
+		])
+	})
+
+	it('reports rows that match more than one size as ambiguous', () => {
+		const report = matchPriceRows(readPriceFeed(read('prices.json'), 'json'), [product('a', 'adult'), product('b', 'young')])
+
+		expect(report.ambiguous).toHaveLength(1)
+		expect(report.ambiguous[0].candidates.map(candidate => candidate.productId)).toEqual(['a', 'b'])
+		expect(report.matched.map(match => [match.row, match.productId])).toEqual([[2, 'a']])
+		expect(report.unmatched.map(row => row.row)).toEqual([3])
+	})
+
+	it('explains why a row without enough details is unmatched', () => {
+		const rows = readPriceFeed('[{ "upc": "999", "price": 10 }, { "brand": "Purrfect", "price": 10 }]', 'json')
+
+		expect(matchPriceRows(rows, [product('a', 'adult')]).unmatched.map(row => row.reason)).toEqual([
+			'No size has the UPC 999',
+			'Missing UPC, or brand, flavor, packaging and count',
+		])
+	})
+})
+
+describe('importPrices', () => {
+	useTestDatabase()
+
+	it('only reports the changes in a dry run', async () => {
+		const added = await addProduct()
+		const report = await importPrices({ file: feed('prices.csv'), dryRun: true })
+
+		expect(report.matched).toHaveLength(2)
+
+		const product = await Product.find({ id: String(added._id) })
+		expect(product.sizes[0].price).toBe(20)
+	})
+
+	it('updates the prices and records where they came from', async () => {
+		const added = await addProduct(dryCatFood({ sizes: [
+			{ packaging: 'bag', price: 20, count: 5, unit: 'lb', offers: [], imageUrls: [] },
+			{ packaging: 'bag', price: 30, count: 10, unit: 'lb', upc: '012345678905', offers: [], imageUrls: [] },
+		] }))
+		const report = await importPrices({ file: feed('prices.csv'), source: 'petco', dryRun: false })
+
+		expect(report.matched.map(match => match.row)).toEqual([1, 4])
+
+		const [small, large] = added.sizes.map((size: any) => String(size._id))
+		const smallHistory = await Product.getPriceHistory(String(added._id), small)
+		const largeHistory = await Product.getPriceHistory(String(added._id), large)
+
+		expect(smallHistory.price).toBe(18.99)
+		expect(smallHistory.history.map(record => record.source)).toEqual(['manual', 'petco'])
+		expect(largeHistory.history.map(record => [record.price, record.source])).toEqual([[30, 'manual'], [21.5, 'chewy']])
+	})
+})
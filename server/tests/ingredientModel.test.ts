@@ -0,0 +1,432 @@
+import Ingredient from '../models/ingredientModel'
+import Product from '../models/productModel'
+import Audit from '../models/auditModel'
+import { useTestDatabase } from './db'
+import { addProduct, dryCatFood } from './fixtures'
+
+useTestDatabase()
+
+describe('Ingredient', () => {
+	describe('add', () => {
+		it('creates an ingredient with its ratings and aliases', async () => {
+			const ingredient = await Ingredient.add({ name: 'Salmon', ratings: [{ species: 'cat', healthRating: 10, notes: null }], aliases: ['Atlantic Salmon'] })
+
+			expect(ingredient.name).toBe('Salmon')
+			expect(ingredient.normalizedName).toBe('salmon')
+			expect(ingredient.aliasKeys).toEqual(['atlantic salmon'])
+			expect(ingredient.ratings).toHaveLength(1)
+		})
+
+		it('rejects an ingredient that already exists under another spelling', async () => {
+			await Ingredient.add({ name: 'Chicken' })
+
+			await expect(Ingredient.add({ name: 'Deboned Chicken' })).rejects.toThrow('Ingredient already exists')
+		})
+	})
+
+	describe('find', () => {
+		beforeEach(async () => {
+			await Ingredient.add({ name: 'Salmon', ratings: [{ species: 'cat', healthRating: 10 }, { species: 'dog', healthRating: 6 }] })
+			await Ingredient.add({ name: 'Corn', ratings: [{ species: 'cat', healthRating: -4 }] })
+			await Ingredient.add({ name: 'Pea Protein', ratings: [{ species: 'cat', healthRating: null }] })
+			await Ingredient.add({ name: 'Garlic', tags: ['Vegetable'] })
+		})
+
+		it('finds by part of the name, ignoring case', async () => {
+			const found = await Ingredient.find({ name: 'salm' }) as any[]
+			expect(found.map(i => i.name)).toEqual(['Salmon'])
+		})
+
+		it('finds by tag, ignoring case', async () => {
+			const found = await Ingredient.find({ tag: 'vegetable' }) as any[]
+			expect(found.map(i => i.name)).toEqual(['Garlic'])
+		})
+
+		it('finds by category, source animal, flags and toxicity', async () => {
+			await Ingredient.add({ name: 'Chicken By-Product Meal', category: 'animal protein', sourceAnimal: 'Chicken', flags: { byProduct: true, meal: true } })
+			await Ingredient.add({ name: 'Onion Powder', category: 'vegetable', toxicFor: ['cat', 'dog'] })
+
+			const names = async (filters: object) => (await Ingredient.find(filters) as any[]).map(i => i.name)
+
+			expect(await names({ category: 'animal protein' })).toEqual(['Chicken By-Product Meal'])
+			expect(await names({ sourceAnimal: 'chicken', byProduct: true })).toEqual(['Chicken By-Product Meal'])
+			expect(await names({ toxicFor: 'cat' })).toEqual(['Onion Powder'])
+			expect(await names({ meal: false, category: 'vegetable' })).toEqual(['Onion Powder'])
+		})
+
+		it('matches the name as plain text', async () => {
+			await Ingredient.add({ name: 'Vitamin E (Tocopherol)' })
+
+			expect((await Ingredient.find({ name: 'e (toco' }) as any[]).map(i => i.name)).toEqual(['Vitamin E (Tocopherol)'])
+			expect(await Ingredient.find({ name: '(a+)+$' })).toHaveLength(0)
+		})
+
+		it('finds by id', async () => {
+			const corn = await Ingredient.resolve('Corn')
+			const found = await Ingredient.find({ id: String(corn!._id) }) as any
+
+			expect(found.name).toBe('Corn')
+		})
+
+		it('applies minRating and maxRating together', async () => {
+			const found = await Ingredient.find({ minRating: 0, maxRating: 8 }) as any[]
+			expect(found.map(i => i.name)).toEqual(['Salmon'])
+		})
+
+		it('matches the rating of the given species', async () => {
+			const found = await Ingredient.find({ species: 'dog', minRating: 8 }) as any[]
+			expect(found).toHaveLength(0)
+		})
+
+		it('finds missing ratings, including ingredients without a rating for the species', async () => {
+			const unrated = await Ingredient.find({ rating: null }) as any[]
+			expect(unrated.map(i => i.name).sort()).toEqual(['Garlic', 'Pea Protein'])
+
+			const unratedForDogs = await Ingredient.find({ species: 'dog', rating: null }) as any[]
+			expect(unratedForDogs.map(i => i.name).sort()).toEqual(['Corn', 'Garlic', 'Pea Protein'])
+		})
+	})
+
+	describe('resolveNames', () => {
+		it('resolves names and aliases to canonical names, keeping unknown names', async () => {
+			await Ingredient.add({ name: 'Chicken', aliases: ['Chicken Breast'] })
+
+			const names = await Ingredient.resolveNames(['chicken (deboned)', 'Chicken Breast', ' Brown Rice '])
+
+			expect(names).toEqual(['Chicken', 'Brown Rice'])
+		})
+	})
+
+	describe('getOne and getAll', () => {
+		it('returns the rating for the species and skips ingredients without one', async () => {
+			await Ingredient.add({ name: 'Salmon', ratings: [{ species: 'cat', healthRating: 10, notes: 'Great' }] })
+			await Ingredient.add({ name: 'Corn', ratings: [{ species: 'dog', healthRating: -2 }] })
+
+			const ingredients = await Ingredient.findByNames(['Salmon', 'Corn'])
+			const rated = await Ingredient.getAll(ingredients, 'cat')
+
+			expect(rated).toHaveLength(1)
+			expect(rated[0].name).toBe('Salmon')
+			expect(rated[0].healthRating).toBe(10)
+			expect(rated[0].notes).toBe('Great')
+		})
+	})
+
+	describe('update', () => {
+		it('updates the name and aliases along with their normalized forms', async () => {
+			const ingredient = await Ingredient.add({ name: 'Chiken' })
+			const updated = await Ingredient.update(String(ingredient._id), { name: 'Chicken', aliases: ['Poultry (chicken)'] })
+
+			expect(updated!.normalizedName).toBe('chicken')
+			expect(updated!.aliasKeys).toEqual(['poultry'])
+		})
+
+		it('updates the given flags without resetting the others', async () => {
+			const ingredient = await Ingredient.add({ name: 'Chicken Meal', flags: { meal: true } })
+			const updated = await Ingredient.update(String(ingredient._id), { category: 'animal protein', flags: { byProduct: true } })
+
+			expect(updated!.category).toBe('animal protein')
+			expect(updated!.flags).toMatchObject({ byProduct: true, meal: true, artificial: false })
+		})
+
+		it('renames the ingredient on products', async () => {
+			const product = await addProduct(dryCatFood({ ingredients: ['Salmon', 'Brown Rice', 'Corn Gluten Meal'] }))
+			const ingredient = await Ingredient.resolve('Corn Gluten Meal')
+
+			await Ingredient.update(String(ingredient!._id), { name: 'Corn Gluten' })
+
+			const updated = await Product.find({ id: String(product._id) }) as any
+			expect(updated.ingredients).toEqual(['Salmon', 'Brown Rice', 'Corn Gluten'])
+		})
+
+		it('throws if there is nothing to update', async () => {
+			const ingredient = await Ingredient.add({ name: 'Chicken' })
+			await expect(Ingredient.update(String(ingredient._id), {})).rejects.toThrow('No updates provided')
+		})
+	})
+
+	describe('push', () => {
+		it('creates a missing ingredient with an unknown rating', async () => {
+			const ingredient = await Ingredient.push('Beet Pulp', 'dog')
+
+			expect(ingredient.ratings).toHaveLength(1)
+			expect(ingredient.ratings[0].healthRating).toBeNull()
+		})
+
+		it('updates the rating of an existing species, matching the name after normalizing it', async () => {
+			await Ingredient.push('Chicken', 'cat', 8)
+			const ingredient = await Ingredient.push('Deboned Chicken', 'cat', 9, 'Named meat')
+
+			expect(ingredient.name).toBe('Chicken')
+			expect(ingredient.ratings).toHaveLength(1)
+			expect(ingredient.ratings[0].healthRating).toBe(9)
+			expect(ingredient.ratings[0].notes).toBe('Named meat')
+		})
+
+		it('adds a rating for a new species', async () => {
+			await Ingredient.push('Chicken', 'cat', 8)
+			const ingredient = await Ingredient.push('Chicken', 'dog', 7)
+
+			expect(ingredient.ratings.map(r => r.species)).toEqual(['cat', 'dog'])
+		})
+	})
+
+	describe('rating provider', () => {
+		const rules = { name: 'rules', suggest: async () => ({ healthRating: -5, notes: 'Filler' }) }
+
+		afterEach(() => {
+			Ingredient.setRatingProvider(null)
+			jest.restoreAllMocks()
+		})
+
+		it('suggests a missing rating, marked as machine-generated', async () => {
+			Ingredient.setRatingProvider(rules)
+
+			const ingredient = await Ingredient.push('Corn', 'cat')
+
+			expect(ingredient.ratings[0]).toMatchObject({ healthRating: -5, notes: 'Filler', generatedBy: 'rules' })
+			expect((await Ingredient.reviewQueue('cat')).map(entry => [entry.name, entry.generatedBy])).toEqual([['Corn', 'rules']])
+		})
+
+		it('never replaces a rating a person set, but lets a person replace a suggestion', async () => {
+			await Ingredient.push('Chicken', 'cat', 9)
+			Ingredient.setRatingProvider(rules)
+
+			const chicken = await Ingredient.push('Chicken', 'cat')
+			expect(chicken.ratings[0]).toMatchObject({ healthRating: 9 })
+			expect(chicken.ratings[0].generatedBy).toBeFalsy()
+
+			await Ingredient.push('Corn', 'cat')
+			const corn = await Ingredient.push('Corn', 'cat', -3)
+			expect(corn.ratings[0]).toMatchObject({ healthRating: -3, generatedBy: null })
+		})
+
+		it('leaves the rating unknown if the provider fails', async () => {
+			Ingredient.setRatingProvider({ name: 'broken', suggest: async () => { throw new Error('Timed out') } })
+			jest.spyOn(console, 'error').mockImplementation(() => {})
+
+			const ingredient = await Ingredient.push('Corn', 'cat')
+
+			expect(ingredient.ratings[0].healthRating).toBeNull()
+		})
+
+		it('pushes the ratings suggested beforehand without asking the provider again', async () => {
+			const suggest = jest.fn(rules.suggest)
+			Ingredient.setRatingProvider({ name: 'rules', suggest })
+			await Ingredient.push('Salmon', 'cat', 9)
+
+			const suggestions = await Ingredient.suggestRatings({ names: ['Corn', 'corn', 'Salmon'], species: 'cat' })
+			expect(suggest).toHaveBeenCalledTimes(1)
+
+			const [corn] = await Ingredient.pushMany({ names: ['Corn', 'Salmon'], species: 'cat' }, { suggestions })
+			expect(suggest).toHaveBeenCalledTimes(1)
+			expect(corn.ratings[0]).toMatchObject({ healthRating: -5, generatedBy: 'rules' })
+		})
+	})
+
+	describe('pushMany', () => {
+		it('pushes every ingredient', async () => {
+			await Ingredient.pushMany({ names: ['Salmon', 'Corn'], species: 'cat' })
+
+			const found = await Ingredient.find({}) as any[]
+			expect(found.map(i => i.name).sort()).toEqual(['Corn', 'Salmon'])
+		})
+	})
+
+	describe('ratings', () => {
+		it('adds a rating for a new species', async () => {
+			const ingredient = await Ingredient.add({ name: 'Salmon', ratings: [{ species: 'cat', healthRating: 10 }] })
+			const updated = await Ingredient.addRating(ingredient._id, { species: 'dog', healthRating: 7 })
+
+			expect(updated!.ratings.map(r => r.species)).toEqual(['cat', 'dog'])
+		})
+
+		it('rejects a rating for a species that is already rated', async () => {
+			const ingredient = await Ingredient.add({ name: 'Salmon', ratings: [{ species: 'cat', healthRating: 10 }] })
+
+			await expect(Ingredient.addRating(ingredient._id, { species: 'cat', healthRating: 2 }))
+				.rejects.toThrow("Rating for species 'cat' already exists")
+		})
+
+		it('updates and removes a rating', async () => {
+			const ingredient = await Ingredient.add({ name: 'Salmon', ratings: [{ species: 'cat', healthRating: 10 }] })
+
+			const updated = await Ingredient.updateRating(ingredient._id, 'cat', { healthRating: 8 })
+			expect(updated.ratings[0].healthRating).toBe(8)
+
+			const removed = await Ingredient.removeRating(ingredient._id, 'cat')
+			expect(removed.ratings).toHaveLength(0)
+		})
+
+		it('throws when updating a rating that does not exist', async () => {
+			const ingredient = await Ingredient.add({ name: 'Salmon' })
+
+			await expect(Ingredient.updateRating(ingredient._id, 'dog', { healthRating: 1 }))
+				.rejects.toThrow("Rating for species 'dog' not found")
+		})
+	})
+
+	describe('rating reviews', () => {
+		it('lists unrated ingredients for the species, the most used first', async () => {
+			await addProduct(dryCatFood({ ingredients: ['Salmon', 'Corn'] }))
+			await addProduct(dryCatFood({ flavor: 'Chicken', ingredients: ['Chicken', 'Corn'] }))
+			await Ingredient.push('Chicken', 'cat', 8)
+
+			const queue = await Ingredient.reviewQueue('cat')
+
+			expect(queue.map(entry => [entry.name, entry.productCount])).toEqual([['Corn', 2], ['Salmon', 1]])
+		})
+
+		it('keeps a proposal out of the rating until an editor approves it', async () => {
+			const ingredient = await Ingredient.add({ name: 'Corn' })
+
+			const proposed = await Ingredient.proposeRating(ingredient._id, { species: 'cat', healthRating: -3, notes: 'Filler' }, { actor: 'reviewer@example.com' })
+			const proposal = proposed.proposals[0]
+
+			expect(proposed.ratings[0]).toMatchObject({ species: 'cat', healthRating: null, status: 'proposed' })
+			expect(proposal).toMatchObject({ healthRating: -3, proposedBy: 'reviewer@example.com', status: 'proposed' })
+			expect((await Ingredient.reviewQueue('cat'))[0].proposals).toHaveLength(1)
+
+			const approved = await Ingredient.approveProposal(ingredient._id, String(proposal._id), { actor: 'editor@example.com' })
+
+			expect(approved.ratings[0]).toMatchObject({ healthRating: -3, notes: 'Filler', status: 'approved', reviewedBy: 'editor@example.com' })
+			expect(approved.proposals[0]).toMatchObject({ status: 'approved', reviewedBy: 'editor@example.com' })
+			expect(await Ingredient.reviewQueue('cat')).toEqual([])
+		})
+
+		it('leaves a disputed rating as it is when the proposal is rejected', async () => {
+			const ingredient = await Ingredient.add({ name: 'Corn' })
+			await Ingredient.addRating(ingredient._id, { species: 'cat', healthRating: -2 }, { actor: 'editor@example.com' })
+
+			const proposed = await Ingredient.proposeRating(ingredient._id, { species: 'cat', healthRating: 4 })
+			expect(proposed.ratings[0].status).toBe('proposed')
+
+			const rejected = await Ingredient.rejectProposal(ingredient._id, String(proposed.proposals[0]._id))
+
+			expect(rejected.ratings[0]).toMatchObject({ healthRating: -2, status: 'approved', reviewedBy: 'editor@example.com' })
+			expect(rejected.proposals[0].status).toBe('rejected')
+			await expect(Ingredient.approveProposal(ingredient._id, String(proposed.proposals[0]._id))).rejects.toThrow('Proposal has already been rejected')
+		})
+
+		it('throws if the proposal is missing', async () => {
+			const ingredient = await Ingredient.add({ name: 'Corn' })
+			await expect(Ingredient.rejectProposal(ingredient._id, '000000000000000000000000')).rejects.toThrow('Proposal not found')
+		})
+	})
+
+	describe('mergeDuplicates', () => {
+		it('copies missing ratings and names into the primary and deletes the duplicate', async () => {
+			const primary = await Ingredient.add({ name: 'Chicken', ratings: [{ species: 'cat', healthRating: 8 }] })
+			const duplicate = await Ingredient.add({ name: 'Chicken Flesh', ratings: [{ species: 'cat', healthRating: 2 }, { species: 'dog', healthRating: 7 }] })
+
+			const merged = await Ingredient.mergeDuplicates(primary._id, duplicate._id)
+
+			expect(merged.ratings.map(r => [r.species, r.healthRating])).toEqual([['cat', 8], ['dog', 7]])
+			expect(merged.aliases).toEqual(['Chicken Flesh'])
+			expect(await Ingredient.find({ id: String(duplicate._id) })).toBeNull()
+			expect((await Ingredient.resolve('chicken flesh'))!.name).toBe('Chicken')
+		})
+
+		it('lists the primary ingredient instead of the duplicate on products', async () => {
+			const product = await addProduct(dryCatFood({ ingredients: ['Salmon', 'Salmon Meal'] }))
+			const primary = await Ingredient.resolve('Salmon')
+			const duplicate = await Ingredient.resolve('Salmon Meal')
+
+			await Ingredient.mergeDuplicates(primary!._id, duplicate!._id)
+
+			const updated = await Product.find({ id: String(product._id) }) as any
+			expect(updated.ingredients).toEqual(['Salmon'])
+		})
+
+		it('throws if either ingredient is missing', async () => {
+			const primary = await Ingredient.add({ name: 'Chicken' })
+			await expect(Ingredient.mergeDuplicates(primary._id, '000000000000000000000000')).rejects.toThrow('One or both ingredients not found')
+		})
+	})
+
+	describe('findDuplicates', () => {
+		it('reports similar names, keeping the ingredient with the most ratings', async () => {
+			await Ingredient.add({ name: 'Blueberry' })
+			await Ingredient.add({ name: 'Blueberries (dried)', ratings: [{ species: 'cat', healthRating: 9 }] })
+			await Ingredient.add({ name: 'Salmon' })
+
+			const duplicates = await Ingredient.findDuplicates()
+
+			expect(duplicates).toHaveLength(1)
+			expect(duplicates[0].primary.name).toBe('Blueberries (dried)')
+			expect(duplicates[0].duplicate.name).toBe('Blueberry')
+			expect(duplicates[0].similarity).toBe(1)
+		})
+	})
+
+	describe('delete', () => {
+		it('deletes the ingredient', async () => {
+			const ingredient = await Ingredient.add({ name: 'Salmon' })
+
+			await Ingredient.delete(ingredient._id)
+
+			expect(await Ingredient.find({ id: String(ingredient._id) })).toBeNull()
+		})
+
+		it('leaves deleted ingredients out of name resolution', async () => {
+			const ingredient = await Ingredient.add({ name: 'Salmon', aliases: ['Atlantic Salmon'] })
+
+			await Ingredient.delete(ingredient._id, { actor: 'editor@example.com' })
+
+			expect(await Ingredient.resolve('atlantic salmon')).toBeNull()
+			expect(await Ingredient.find({ includeDeleted: true })).toHaveLength(1)
+		})
+
+		it('removes the ingredient from products, and lists it there again when it is restored', async () => {
+			const product = await addProduct()
+			const ingredient = await Ingredient.resolve('Brown Rice')
+
+			await Ingredient.delete(ingredient!._id, { reason: 'Duplicate entry' })
+
+			const updated = await Product.find({ id: String(product._id) }) as any
+			expect(updated.ingredients).toEqual(['Salmon', 'Corn Gluten Meal'])
+			expect((await Audit.find({ entity: 'product', id: String(product._id) }))[0]).toMatchObject({ action: 'update', reason: 'Duplicate entry' })
+
+			await Ingredient.restore(ingredient!._id)
+
+			const restored = await Product.find({ id: String(product._id) }) as any
+			expect(restored.ingredients).toEqual(['Salmon', 'Brown Rice', 'Corn Gluten Meal'])
+			expect((await Ingredient.find({ id: String(ingredient!._id) }) as any).removedFrom).toHaveLength(0)
+		})
+
+		it('throws if the ingredient is missing', async () => {
+			await expect(Ingredient.delete('000000000000000000000000')).rejects.toThrow('Ingredient not found')
+		})
+	})
+
+	describe('restore', () => {
+		it('restores a deleted ingredient', async () => {
+			const ingredient = await Ingredient.add({ name: 'Salmon' })
+			await Ingredient.delete(ingredient._id)
+
+			await Ingredient.restore(ingredient._id)
+
+			expect((await Ingredient.resolve('salmon'))!.name).toBe('Salmon')
+			await expect(Ingredient.restore(ingredient._id)).rejects.toThrow('Ingredient is not deleted')
+		})
+
+		it('rejects restoring a merged duplicate, whose name now resolves to the primary ingredient', async () => {
+			const primary = await Ingredient.add({ name: 'Chicken' })
+			const duplicate = await Ingredient.add({ name: 'Chicken Flesh' })
+			await Ingredient.mergeDuplicates(primary._id, duplicate._id)
+
+			await expect(Ingredient.restore(duplicate._id)).rejects.toThrow('Ingredient already exists')
+		})
+	})
+
+	describe('purge', () => {
+		it('removes the ingredients deleted before the cutoff', async () => {
+			const ingredient = await Ingredient.add({ name: 'Salmon' })
+			await Ingredient.delete(ingredient._id)
+
+			expect(await Ingredient.purge(new Date(Date.now() - 60_000))).toHaveLength(0)
+			expect(await Ingredient.purge(new Date(Date.now() + 60_000))).toHaveLength(1)
+			expect(await Ingredient.find({ includeDeleted: true })).toHaveLength(0)
+		})
+	})
+})
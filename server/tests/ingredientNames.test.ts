@@ -0,0 +1,30 @@
+import { nameSimilarity, normalizeIngredientName } from '../lib/ingredientNames'
+
+describe('normalizeIngredientName', () => {
+	it('ignores casing, whitespace, punctuation and qualifiers', () => {
+		const names = ['Chicken', 'chicken', '  Deboned   Chicken', 'Chicken (deboned)', 'Fresh Chicken.']
+		expect(new Set(names.map(normalizeIngredientName))).toEqual(new Set(['chicken']))
+	})
+
+	it('keeps words that change the ingredient', () => {
+		expect(normalizeIngredientName('Chicken Meal')).toBe('chicken meal')
+		expect(normalizeIngredientName('Red 40')).toBe('red 40')
+	})
+
+	it('makes plurals singular', () => {
+		expect(normalizeIngredientName('Blueberries')).toBe('blueberry')
+		expect(normalizeIngredientName('Sweet Potatoes')).toBe('sweet potato')
+		expect(normalizeIngredientName('Peas')).toBe('pea')
+	})
+})
+
+describe('nameSimilarity', () => {
+	it('rates the same ingredient as 1', () => {
+		expect(nameSimilarity('Salmon', 'salmon (wild caught)')).toBe(1)
+	})
+
+	it('rates near misspellings as similar and different ingredients as not', () => {
+		expect(nameSimilarity('Salmon', 'Salmn')).toBeGreaterThan(0.8)
+		expect(nameSimilarity('Salmon', 'Salmon Oil')).toBeLessThan(0.85)
+	})
+})
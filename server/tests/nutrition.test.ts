@@ -0,0 +1,48 @@
+import { dryMatterBasis, guaranteedPercent, kcalPerServing, servingForCalories, toDryMatter } from '../lib/nutrition'
+
+describe('guaranteedPercent', () => {
+	it('uses the guaranteed bound, then the other bound', () => {
+		expect(guaranteedPercent({ min: 30, max: 35 }, 'min')).toBe(30)
+		expect(guaranteedPercent({ max: 35 }, 'min')).toBe(35)
+		expect(guaranteedPercent(undefined, 'max')).toBeNull()
+	})
+})
+
+describe('dryMatterBasis', () => {
+	it('lets wet and dry foods be compared fairly', () => {
+		const dry = dryMatterBasis({ protein: { min: 36 }, fat: { min: 18 }, fiber: { max: 3 }, moisture: { max: 10 } })
+		const wet = dryMatterBasis({ protein: { min: 10 }, fat: { min: 5 }, fiber: { max: 1 }, moisture: { max: 78 } })
+
+		expect(dry).toEqual({ protein: 40, fat: 20, fiber: 3.33 })
+		expect(wet.protein).toBeCloseTo(45.45, 2)
+		expect(wet.protein!).toBeGreaterThan(dry.protein!)
+	})
+
+	it('returns null for nutrients that cannot be converted', () => {
+		expect(dryMatterBasis({ protein: { min: 36 } })).toEqual({ protein: null, fat: null, fiber: null })
+		expect(dryMatterBasis(null).protein).toBeNull()
+	})
+
+	it('rejects impossible moisture', () => {
+		expect(() => toDryMatter(10, 100)).toThrow('Moisture must be at least 0% and below 100%')
+	})
+})
+
+describe('kcalPerServing', () => {
+	it('uses calories per cup or can, or converts calories per kg for dry food', () => {
+		expect(kcalPerServing({ foodType: 'dry', calories: { kcalPerCup: 400 } })).toBe(400)
+		expect(kcalPerServing({ foodType: 'wet', calories: { kcalPerCan: 90, kcalPerKg: 1000 } })).toBe(90)
+		expect(kcalPerServing({ foodType: 'dry', cupsPerLb: 4, calories: { kcalPerKg: 3527.39 } })).toBeCloseTo(400, 0)
+		expect(kcalPerServing({ foodType: 'dry', calories: { kcalPerKg: 3500 } })).toBeNull()
+	})
+})
+
+describe('servingForCalories', () => {
+	it('serves enough food to provide the calories', () => {
+		expect(servingForCalories(200, { foodType: 'dry', calories: { kcalPerCup: 400 } })).toBe(0.5)
+	})
+
+	it('throws if the calories are unknown', () => {
+		expect(() => servingForCalories(200, { foodType: 'wet' })).toThrow('Missing calories per can')
+	})
+})
@@ -0,0 +1,47 @@
+import { bestOffer, bestPrice, linksToOffers, offerPrice } from '../lib/offers'
+import { migrateSizes } from '../scripts/migrateOffers'
+
+const offer = (retailer: string, price: number, extra: Record<string, any> = {}) => ({ retailer, url: `https://${retailer}.example/food`, price, ...extra })
+
+describe('offerPrice', () => {
+	it('applies the subscribe-and-save discount and adds shipping', () => {
+		expect(offerPrice(offer('chewy', 40, { subscribeDiscount: 5, shipping: 2 }))).toBe(40)
+		expect(offerPrice(offer('petco', 40))).toBe(40)
+	})
+})
+
+describe('bestOffer', () => {
+	it('picks the cheapest offer that is in stock', () => {
+		const offers = [
+			offer('chewy', 40, { subscribeDiscount: 10 }),
+			offer('petco', 30, { inStock: false }),
+			offer('amazon', 35, { shipping: 5 }),
+		]
+
+		expect(bestOffer(offers)?.retailer).toBe('chewy')
+		expect(bestPrice({ price: 50, offers })).toBe(36)
+	})
+
+	it('falls back to the price of the size when nothing is in stock', () => {
+		expect(bestOffer([offer('petco', 30, { inStock: false })])).toBeNull()
+		expect(bestPrice({ price: 50, offers: [] })).toBe(50)
+	})
+})
+
+describe('linksToOffers', () => {
+	it('turns each new link into an offer from an unknown retailer', () => {
+		const existing = [offer('chewy', 40)]
+		const offers = linksToOffers([existing[0].url, 'https://shop.example/a', 'https://shop.example/a'], 45, existing)
+
+		expect(offers).toHaveLength(2)
+		expect(offers[1]).toMatchObject({ retailer: 'unknown', url: 'https://shop.example/a', price: 45, inStock: true })
+	})
+
+	it('drops the links of migrated sizes', () => {
+		const { sizes, added } = migrateSizes([{ packaging: 'bag', price: 20, links: ['https://shop.example/a'] }])
+
+		expect(added).toBe(1)
+		expect(sizes[0]).not.toHaveProperty('links')
+		expect(sizes[0].offers[0].retailer).toBe('unknown')
+	})
+})
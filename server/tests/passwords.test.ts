@@ -0,0 +1,16 @@
+import { hashPassword, verifyPassword } from '../lib/passwords'
+
+describe('hashPassword and verifyPassword', () => {
+	it('verifies the password it was hashed from, with a different salt each time', async () => {
+		const hash = await hashPassword('correct horse battery')
+
+		expect(await verifyPassword('correct horse battery', hash)).toBe(true)
+		expect(await verifyPassword('wrong password', hash)).toBe(false)
+		expect(await hashPassword('correct horse battery')).not.toBe(hash)
+	})
+
+	it('rejects short passwords and malformed hashes', async () => {
+		await expect(hashPassword('short')).rejects.toThrow('Password must be at least 8 characters')
+		expect(await verifyPassword('anything', 'not a hash')).toBe(false)
+	})
+})
@@ -0,0 +1,66 @@
+import Pet from '../models/petModel'
+import Ingredient from '../models/ingredientModel'
+import { useTestDatabase } from './db'
+import { addProduct, dryCatFood } from './fixtures'
+
+useTestDatabase()
+
+describe('Pet', () => {
+	it('adds a pet with default activity level', async () => {
+		const pet = await Pet.add('Mochi', 'cat', 3, 8, 'adult')
+
+		expect(pet.name).toBe('Mochi')
+		expect(pet.activityLevel).toBe('normal')
+		expect(pet.excludedIngredients).toEqual([])
+	})
+
+	it('finds pets by species', async () => {
+		await Pet.add('Mochi', 'cat', 3, 8, 'adult')
+		await Pet.add('Rex', 'dog', 5, 60, 'adult')
+
+		const cats = await Pet.find({ species: 'cat' }) as any[]
+		expect(cats.map(pet => pet.name)).toEqual(['Mochi'])
+	})
+
+	it('updates and deletes a pet', async () => {
+		const pet = await Pet.add('Mochi', 'cat', 3, 8, 'adult')
+
+		const updated = await Pet.update(String(pet._id), { weight: 9, excludedIngredients: ['Chicken'] })
+		expect(updated!.weight).toBe(9)
+		expect(updated!.excludedIngredients).toEqual(['Chicken'])
+
+		await Pet.delete(String(pet._id))
+		expect(await Pet.find({ id: String(pet._id) })).toBeNull()
+	})
+
+	it('throws if there is nothing to update', async () => {
+		const pet = await Pet.add('Mochi', 'cat', 3, 8, 'adult')
+		await expect(Pet.update(String(pet._id), {})).rejects.toThrow('No updates provided')
+	})
+
+	it('finds the feeding chart row and cost of a product for the pet', async () => {
+		const pet = await Pet.add('Mochi', 'cat', 3, 12, 'adult')
+		const product = await addProduct()
+
+		const feeding = await Pet.getFeeding(String(pet._id), String(product._id))
+
+		expect(feeding.feedingChartRow.minWeight).toBe(10)
+	})
+
+	it('recommends products without the pet\'s excluded ingredients', async () => {
+		await Ingredient.add({ name: 'Chicken' })
+		const pet = await Pet.add('Mochi', 'cat', 3, 8, 'adult', 'normal', 'dry', ['chicken'])
+
+		await addProduct()
+		await addProduct(dryCatFood({ flavor: 'Chicken', ingredients: ['Chicken', 'Rice'] }))
+		await addProduct(dryCatFood({ flavor: 'Pate', foodType: 'wet' }))
+
+		const { results } = await Pet.recommend(String(pet._id))
+
+		expect(results.map(r => r.product.flavor)).toEqual(['Salmon'])
+	})
+
+	it('throws if the pet is missing', async () => {
+		await expect(Pet.recommend('000000000000000000000000')).rejects.toThrow('Pet not found')
+	})
+})
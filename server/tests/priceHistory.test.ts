@@ -0,0 +1,49 @@
+import { priceStats, recordPrice } from '../lib/priceHistory'
+
+const now = new Date('2024-06-01')
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000)
+
+describe('priceStats', () => {
+	it('summarizes the recorded prices', () => {
+		const history = [
+			{ price: 40, recordedAt: daysAgo(200) },
+			{ price: 50, recordedAt: daysAgo(60) },
+			{ price: 45, recordedAt: daysAgo(10) },
+		]
+
+		expect(priceStats(history, 45, now)).toEqual({
+			current: 45,
+			min: 40,
+			max: 50,
+			average: 45,
+			low90Day: 45,
+			isAt90DayLow: true,
+			aboveLow90Day: 0,
+		})
+	})
+
+	it('compares the current price with the 90-day low', () => {
+		const history = [{ price: 42, recordedAt: daysAgo(30) }, { price: 48, recordedAt: daysAgo(1) }]
+		const stats = priceStats(history, 48, now)
+
+		expect(stats.low90Day).toBe(42)
+		expect(stats.isAt90DayLow).toBe(false)
+		expect(stats.aboveLow90Day).toBe(6)
+	})
+
+	it('uses the current price when nothing is recorded', () => {
+		expect(priceStats([], 20, now)).toMatchObject({ min: 20, max: 20, average: 20, low90Day: 20, isAt90DayLow: true })
+	})
+})
+
+describe('recordPrice', () => {
+	it('records a price only when it changes', () => {
+		const history = recordPrice([], 20, 'manual', daysAgo(2))
+
+		expect(recordPrice(history, 20, 'manual')).toBe(history)
+		expect(recordPrice(history, 18, 'import', now)).toEqual([
+			{ price: 20, recordedAt: daysAgo(2), source: 'manual' },
+			{ price: 18, recordedAt: now, source: 'import' },
+		])
+	})
+})
@@ -0,0 +1,55 @@
+import { catalogFromCsv, catalogFromJson, catalogToCsv } from '../lib/productCatalog'
+import { dryCatFood } from './fixtures'
+
+describe('catalogToCsv and catalogFromCsv', () => {
+	it('flattens sizes and feeding chart rows into child rows and reads them back', () => {
+		const product = dryCatFood({
+			id: 'p1',
+			ingredients: ['Salmon', 'Salmon Meal, Dried'],
+			guaranteedAnalysis: { protein: { min: 30 }, moisture: { max: 10 } },
+			calories: { kcalPerCup: 400 },
+		})
+		const csv = catalogToCsv([product])
+		const lines = csv.trim().split('\n')
+
+		expect(lines.map(line => line.split(',')[0])).toEqual(['type', 'product', 'size', 'size', 'feedingChart', 'feedingChart'])
+
+		const [row] = catalogFromCsv(csv)
+
+		expect(row.row).toBe(2)
+		expect(row.issues).toEqual([])
+		expect(row.product).toEqual({
+			brand: 'Purrfect',
+			flavor: 'Salmon',
+			species: 'cat',
+			lifeStage: 'adult',
+			foodType: 'dry',
+			cupsPerLb: 4,
+			ingredients: ['Salmon', 'Salmon Meal, Dried'],
+			guaranteedAnalysis: { protein: { min: 30 }, moisture: { max: 10 } },
+			calories: { kcalPerCup: 400 },
+			sizes: [
+				{ packaging: 'bag', price: 20, count: 5, unit: 'lb', imageUrls: [] },
+				{ packaging: 'bag', price: 48, count: 15, unit: 'lb', imageUrls: [] },
+			],
+			feedingChart: dryCatFood().feedingChart,
+		})
+	})
+
+	it('reports child rows without a product and rows of an unknown type', () => {
+		const rows = catalogFromCsv('type,key,price,count\nsize,missing,20,5\nbox,a,,\nproduct,a,abc,\nsize,a,cheap,5\n')
+
+		expect(rows.map(row => [row.row, row.issues.map(issue => issue.field)])).toEqual([[2, ['key']], [3, ['type']], [4, []]])
+		expect(rows[2].product.sizes).toEqual([{ price: 'cheap', count: 5, imageUrls: [] }])
+	})
+})
+
+describe('catalogFromJson', () => {
+	it('numbers each product', () => {
+		expect(catalogFromJson([{ brand: 'A' }, { brand: 'B' }]).map(row => [row.row, row.product.brand])).toEqual([[1, 'A'], [2, 'B']])
+	})
+
+	it('requires an array of products', () => {
+		expect(() => catalogFromJson({ brand: 'A' })).toThrow('Expected an array of products')
+	})
+})
@@ -0,0 +1,406 @@
+import Product from '../models/productModel'
+import Ingredient from '../models/ingredientModel'
+import Audit from '../models/auditModel'
+import { useTestDatabase } from './db'
+import { addProduct, dryCatFood } from './fixtures'
+
+useTestDatabase()
+
+describe('Product', () => {
+	describe('add', () => {
+		it('saves a new product', async () => {
+			const product = await addProduct()
+
+			expect(product.brand).toBe('Purrfect')
+			expect(product.sizes).toHaveLength(2)
+			expect(product.feedingChart).toHaveLength(2)
+		})
+
+		it('rejects a product that already exists', async () => {
+			await addProduct()
+			await expect(addProduct()).rejects.toThrow('Product already exists')
+		})
+
+		it('resolves ingredients to their canonical names', async () => {
+			await Ingredient.add({ name: 'Salmon' })
+
+			const product = await addProduct(dryCatFood({ ingredients: ['Salmon (fresh)', 'Brown Rice'] }))
+
+			expect(product.ingredients).toEqual(['Salmon', 'Brown Rice'])
+		})
+
+		it('adds the missing ingredients with an unknown rating for the species', async () => {
+			await addProduct()
+
+			const ingredient = await Ingredient.resolve('Brown Rice')
+
+			expect(ingredient!.ratings.map(r => [r.species, r.healthRating])).toEqual([['cat', null]])
+		})
+	})
+
+	describe('find', () => {
+		beforeEach(async () => {
+			await addProduct()
+			await addProduct(dryCatFood({ flavor: 'Chicken', lifeStage: 'all' }))
+			await addProduct(dryCatFood({ flavor: 'Kitten Chow', lifeStage: 'young', foodType: 'wet' }))
+			await addProduct(dryCatFood({ brand: 'Woof', species: 'dog' }))
+		})
+
+		it('returns every product without filters', async () => {
+			expect(await Product.find({})).toHaveLength(4)
+		})
+
+		it('filters by brand, species and food type', async () => {
+			expect(await Product.find({ brand: 'Woof' })).toHaveLength(1)
+			expect(await Product.find({ species: 'cat' })).toHaveLength(3)
+			expect(await Product.find({ foodType: 'wet' })).toHaveLength(1)
+		})
+
+		it('includes products for all life stages', async () => {
+			const found = await Product.find({ species: 'cat', lifeStage: 'adult' }) as any[]
+			expect(found.map(p => p.flavor).sort()).toEqual(['Chicken', 'Salmon'])
+		})
+
+		it('searches the brand, flavor and ingredients', async () => {
+			expect(await Product.find({ search: 'woof' })).toHaveLength(1)
+			expect(await Product.find({ search: 'kitten' })).toHaveLength(1)
+			expect(await Product.find({ search: 'brown rice' })).toHaveLength(4)
+		})
+
+		it('filters by the ingredients a product contains or excludes', async () => {
+			await addProduct(dryCatFood({ flavor: 'Turkey', ingredients: ['Turkey', 'Peas'] }))
+
+			const withPeas = await Product.find({ includesIngredients: ['peas', 'turkey'] }) as any[]
+			expect(withPeas.map(p => p.flavor)).toEqual(['Turkey'])
+
+			const withoutSalmon = await Product.find({ excludesIngredients: ['salmon'] }) as any[]
+			expect(withoutSalmon.map(p => p.flavor)).toEqual(['Turkey'])
+		})
+
+		it('finds by id', async () => {
+			const [product] = await Product.find({ brand: 'Woof' }) as any[]
+			const found = await Product.find({ id: String(product._id) }) as any
+
+			expect(found.species).toBe('dog')
+		})
+	})
+
+	describe('list', () => {
+		beforeEach(async () => {
+			await Ingredient.add({ name: 'Salmon', ratings: [{ species: 'cat', healthRating: 10 }] })
+			await Ingredient.add({ name: 'Corn', ratings: [{ species: 'cat', healthRating: -8 }] })
+
+			await addProduct(dryCatFood({ brand: 'B', ingredients: ['Corn'] }))
+			await addProduct(dryCatFood({ brand: 'A', ingredients: ['Salmon'], sizes: [{ packaging: 'bag', price: 90, count: 5, unit: 'lb', offers: [], imageUrls: [] }] }))
+			await addProduct(dryCatFood({ brand: 'C', ingredients: ['Mystery Meat'], feedingChart: [] }))
+		})
+
+		it('sorts by brand and returns the total count', async () => {
+			const page = await Product.list({})
+
+			expect(page.total).toBe(3)
+			expect(page.products.map(p => p.brand)).toEqual(['A', 'B', 'C'])
+		})
+
+		it('sorts by the price of the cheapest size', async () => {
+			const page = await Product.list({}, { sort: 'price', order: 'desc' })
+			expect(page.products.map(p => p.brand)).toEqual(['A', 'B', 'C'])
+		})
+
+		it('sorts by quality score, listing unscored products last', async () => {
+			const page = await Product.list({}, { sort: 'qualityScore', order: 'desc' })
+			expect(page.products.map(p => p.brand)).toEqual(['A', 'B', 'C'])
+		})
+
+		it('sorts by cost per day, listing products that cannot be costed last', async () => {
+			const page = await Product.list({}, { sort: 'costPerDay', pet: { age: 3, weight: 8 } })
+			expect(page.products.map(p => p.brand)).toEqual(['B', 'A', 'C'])
+		})
+
+		it('pages with a cursor', async () => {
+			const first = await Product.list({}, { limit: 2 })
+			const second = await Product.list({}, { limit: 2, cursor: first.nextCursor! })
+
+			expect(first.count).toBe(2)
+			expect(second.products.map(p => p.brand)).toEqual(['C'])
+			expect(second.nextCursor).toBeNull()
+		})
+
+		it('rejects an invalid cursor', async () => {
+			await expect(Product.list({}, { cursor: 'nope' })).rejects.toThrow('Invalid cursor')
+		})
+
+		it('filters and sorts by protein on a dry matter basis', async () => {
+			await addProduct(dryCatFood({ brand: 'Wet', foodType: 'wet', guaranteedAnalysis: { protein: { min: 10 }, moisture: { max: 78 } } }))
+			await addProduct(dryCatFood({ brand: 'Dry', guaranteedAnalysis: { protein: { min: 36 }, moisture: { max: 10 } } }))
+
+			const page = await Product.list({ minProteinDM: 30 }, { sort: 'proteinDM', order: 'desc' })
+
+			expect(page.products.map(p => p.brand)).toEqual(['Wet', 'Dry'])
+			expect(page.products[1].dryMatter.protein).toBe(40)
+		})
+
+		it('leaves out products with excluded ingredients and explains why', async () => {
+			const page = await Product.list({}, { exclusions: { ingredients: ['corn'] } })
+
+			expect(page.total).toBe(2)
+			expect(page.products.map(p => p.brand)).toEqual(['A', 'C'])
+			expect(page.excluded).toEqual([
+				{ productId: expect.any(String), brand: 'B', flavor: 'Salmon', reasons: [{ ingredient: 'Corn', excludedBy: 'ingredient', match: 'corn' }] },
+			])
+		})
+	})
+
+	describe('update', () => {
+		it('updates the given fields', async () => {
+			const product = await addProduct()
+			const updated = await Product.update(String(product._id), { flavor: 'Tuna', cupsPerLb: 3.5 })
+
+			expect(updated.flavor).toBe('Tuna')
+			expect(updated.cupsPerLb).toBe(3.5)
+			expect(updated.brand).toBe('Purrfect')
+		})
+
+		it('throws if there is nothing to update', async () => {
+			const product = await addProduct()
+			await expect(Product.update(String(product._id), {})).rejects.toThrow('No updates provided')
+		})
+
+		it('throws if the product is missing', async () => {
+			await expect(Product.update('000000000000000000000000', { flavor: 'Tuna' })).rejects.toThrow('Product not found')
+		})
+	})
+
+	describe('sizes', () => {
+		it('adds, updates and removes a size', async () => {
+			const product = await addProduct()
+
+			const added = await Product.addSize(String(product._id), { packaging: 'bag', price: 70, count: 25, unit: 'lb', offers: [], imageUrls: [] })
+			expect(added.sizes).toHaveLength(3)
+
+			const sizeId = String(added.sizes[2]._id)
+
+			const updated = await Product.updateSize(String(product._id), sizeId, { price: 65 })
+			expect(updated.sizes.id(sizeId).price).toBe(65)
+
+			const removed = await Product.removeSize(String(product._id), sizeId)
+			expect(removed.sizes).toHaveLength(2)
+			expect(removed.sizes.id(sizeId)).toBeNull()
+		})
+
+		it('records every price change with its source', async () => {
+			const product = await addProduct()
+			const sizeId = String(product.sizes[0]._id)
+
+			await Product.updateSize(String(product._id), sizeId, { price: 18 }, { source: 'chewy' })
+			await Product.updateSize(String(product._id), sizeId, { price: 18, count: 5 })
+
+			const { history, stats } = await Product.getPriceHistory(String(product._id), sizeId)
+
+			expect(history.map(record => [record.price, record.source])).toEqual([[20, 'manual'], [18, 'chewy']])
+			expect(stats).toMatchObject({ current: 18, min: 18, max: 20, isAt90DayLow: true })
+		})
+
+		it('rejects incomplete sizes', async () => {
+			const product = await addProduct()
+			await expect(Product.addSize(String(product._id), { packaging: 'bag' } as any)).rejects.toThrow('Incomplete size details')
+		})
+
+		it('throws if the size is missing', async () => {
+			const product = await addProduct()
+
+			await expect(Product.updateSize(String(product._id), '000000000000000000000000', { price: 1 })).rejects.toThrow('Size not found')
+			await expect(Product.removeSize(String(product._id), '000000000000000000000000')).rejects.toThrow('Size not found')
+		})
+	})
+
+	describe('delete', () => {
+		it('deletes the product', async () => {
+			const product = await addProduct()
+
+			await Product.delete(product._id)
+
+			expect(await Product.find({ id: String(product._id) })).toBeNull()
+		})
+
+		it('keeps the deleted product, with who deleted it, for includeDeleted', async () => {
+			const product = await addProduct()
+
+			await Product.delete(product._id, { actor: 'editor@example.com' })
+
+			expect(await Product.find({})).toHaveLength(0)
+			expect(await Product.find({ includeDeleted: true })).toHaveLength(1)
+
+			const deleted = await Product.find({ id: String(product._id), includeDeleted: true }) as any
+			expect(deleted.deletedAt).toBeInstanceOf(Date)
+			expect(deleted.deletedBy).toBe('editor@example.com')
+
+			await expect(Product.update(String(product._id), { flavor: 'Tuna' })).rejects.toThrow('Product not found')
+		})
+
+		it('throws if the product is missing', async () => {
+			await expect(Product.delete('000000000000000000000000')).rejects.toThrow('Product not found')
+		})
+	})
+
+	describe('restore', () => {
+		it('restores a deleted product', async () => {
+			const product = await addProduct()
+			await Product.delete(product._id)
+
+			const restored = await Product.restore(product._id)
+
+			expect(restored.deletedAt).toBeNull()
+			expect(await Product.find({ id: String(product._id) })).not.toBeNull()
+			await expect(Product.restore(product._id)).rejects.toThrow('Product is not deleted')
+		})
+
+		it('rejects restoring a product that has been added again', async () => {
+			const product = await addProduct()
+			await Product.delete(product._id)
+			await addProduct()
+
+			await expect(Product.restore(product._id)).rejects.toThrow('Product already exists')
+		})
+	})
+
+	describe('purge', () => {
+		it('removes only the products deleted before the cutoff', async () => {
+			const old = await addProduct()
+			const recent = await addProduct(dryCatFood({ flavor: 'Tuna' }))
+			await Product.delete(old._id)
+			await Product.delete(recent._id)
+
+			const cutoff = new Date()
+			await (await Product.getModel()).updateOne({ _id: recent._id }, { deletedAt: new Date(cutoff.getTime() + 1000) })
+
+			const purged = await Product.purge(cutoff)
+
+			expect(purged.map((product: any) => product.flavor)).toEqual(['Salmon'])
+			expect(await Product.find({ includeDeleted: true })).toHaveLength(1)
+		})
+	})
+
+	describe('replaceIngredient', () => {
+		it('replaces the ingredient in place, without listing the replacement twice, and records the change', async () => {
+			const product = await addProduct(dryCatFood({ ingredients: ['Salmon', 'Chicken Flesh', 'Chicken', 'Brown Rice'] }))
+
+			await Product.replaceIngredient(['chicken flesh'], 'Chicken', { reason: 'Merged' })
+
+			const updated = await Product.find({ id: String(product._id) }) as any
+			expect(updated.ingredients).toEqual(['Salmon', 'Chicken', 'Brown Rice'])
+
+			const [entry] = await Audit.find({ entity: 'product', id: String(product._id) })
+			expect(entry).toMatchObject({ action: 'update', reason: 'Merged' })
+		})
+
+		it('replaces the ingredient in deleted products', async () => {
+			const product = await addProduct()
+			await Product.delete(product._id)
+
+			await Product.replaceIngredient(['Corn Gluten Meal'], 'Corn Gluten')
+
+			const [updated] = await Product.find({ includeDeleted: true }) as any[]
+			expect(updated.ingredients).toEqual(['Salmon', 'Brown Rice', 'Corn Gluten'])
+		})
+	})
+
+	describe('fromDocument', () => {
+		it('scores the product by the ratings of its ingredients for its species', async () => {
+			await Ingredient.add({ name: 'Salmon', ratings: [{ species: 'cat', healthRating: 10 }, { species: 'dog', healthRating: -10 }] })
+			await Ingredient.add({ name: 'Corn Gluten Meal', ratings: [{ species: 'cat', healthRating: -6 }] })
+
+			const product = await Product.fromDocument(await addProduct())
+
+			expect(product.qualityScore).toBeGreaterThan(0)
+			expect(product.qualityConfidence).toBeLessThan(1)
+			expect(product.qualityBreakdown.map(i => i.rated)).toEqual([true, false, true])
+		})
+
+		it('counts ingredients that are toxic for the species as the worst rating', async () => {
+			await Ingredient.add({ name: 'Salmon', ratings: [{ species: 'cat', healthRating: 10 }] })
+			await Ingredient.add({ name: 'Garlic', ratings: [{ species: 'cat', healthRating: 2 }], toxicFor: ['cat'] })
+
+			const product = await Product.fromDocument(await addProduct(dryCatFood({ ingredients: ['Salmon', 'Garlic'] })))
+
+			expect(product.qualityBreakdown[1]).toMatchObject({ healthRating: -10, toxic: true })
+		})
+	})
+
+	describe('getFeedingCost', () => {
+		it('costs each size using the feeding chart row for the pet', async () => {
+			const product = await addProduct()
+			const cost = await Product.getFeedingCost(String(product._id), { age: 3, weight: 8 })
+
+			expect(cost.servingUnit).toBe('cup')
+			expect(cost.feedingChartRow.minServing).toBe(0.5)
+			expect(cost.costs[0].daily).toEqual({ min: 0.5, max: 0.75 })
+		})
+
+		it('costs each size at its best offer', async () => {
+			const product = await addProduct()
+			const offers = [
+				{ retailer: 'chewy', url: 'https://chewy.example/salmon', price: 18, shipping: 0, subscribeDiscount: 0, inStock: true },
+				{ retailer: 'petco', url: 'https://petco.example/salmon', price: 10, shipping: 0, subscribeDiscount: 0, inStock: false },
+			]
+			await Product.updateSize(String(product._id), String(product.sizes[0]._id), { offers })
+
+			const cost = await Product.getFeedingCost(String(product._id), { age: 3, weight: 8 })
+
+			expect(cost.costs[0]).toMatchObject({ price: 18, offer: { retailer: 'chewy' } })
+			expect(cost.costs[1]).toMatchObject({ price: 48, offer: null })
+		})
+
+		it('calculates the serving from calories instead of the feeding chart', async () => {
+			const product = await addProduct(dryCatFood({ calories: { kcalPerCup: 400 } }))
+			const cost = await Product.getFeedingCost(String(product._id), { age: 3, weight: 40, kcalPerDay: 200 })
+
+			expect(cost.source).toBe('calories')
+			expect(cost.feedingChartRow).toEqual({ minServing: 0.5, maxServing: 0.5 })
+			expect(cost.costs[0].daily.min).toBe(0.5)
+		})
+
+		it('falls back to the energy formula when no feeding chart row covers the pet', async () => {
+			const product = await addProduct(dryCatFood({ calories: { kcalPerCup: 400 } }))
+			const cost = await Product.getFeedingCost(String(product._id), { age: 0.5, weight: 3 })
+
+			expect(cost.source).toBe('energyFormula')
+			expect(cost.energy!.factor).toBe(2.5)
+			expect(cost.feedingChartRow.minServing).toBeCloseTo(cost.energy!.mer / 400, 2)
+		})
+
+		it('throws if no feeding chart row covers the pet', async () => {
+			const product = await addProduct()
+
+			await expect(Product.getFeedingCost(String(product._id), { age: 3, weight: 40 }))
+				.rejects.toThrow('No feeding chart entry covers a 40 lb pet aged 3 years')
+		})
+	})
+
+	describe('recommend', () => {
+		it('ranks products that suit the pet and skips the rest', async () => {
+			await Ingredient.add({ name: 'Salmon', ratings: [{ species: 'cat', healthRating: 10 }] })
+			await addProduct()
+			await addProduct(dryCatFood({ flavor: 'Budget', ingredients: ['Corn'], sizes: [{ packaging: 'bag', price: 5, count: 5, unit: 'lb', offers: [], imageUrls: [] }] }))
+			await addProduct(dryCatFood({ flavor: 'No Chart', feedingChart: [] }))
+
+			const { results, skipped } = await Product.recommend({ species: 'cat', lifeStage: 'adult', age: 3, weight: 8 }, { qualityWeight: 1 })
+
+			expect(results.map(r => r.product.flavor)).toEqual(['Salmon', 'Budget'])
+			expect(results[0].cheapestSize.price).toBe(48)
+			expect(skipped.map(s => s.flavor)).toEqual(['No Chart'])
+		})
+
+		it('excludes products with an ingredient in an excluded category', async () => {
+			await Ingredient.add({ name: 'Chicken Meal', tags: ['poultry'] })
+			await addProduct()
+			await addProduct(dryCatFood({ flavor: 'Chicken', ingredients: ['Chicken Meal', 'Rice'] }))
+
+			const { results, excluded } = await Product.recommend({ species: 'cat', lifeStage: 'adult', age: 3, weight: 8, excludedCategories: ['poultry'] })
+
+			expect(results.map(r => r.product.flavor)).toEqual(['Salmon'])
+			expect(excluded[0].flavor).toBe('Chicken')
+			expect(excluded[0].reasons).toEqual([{ ingredient: 'Chicken Meal', excludedBy: 'category', match: 'poultry' }])
+		})
+	})
+})
@@ -0,0 +1,36 @@
+import Audit from '../models/auditModel'
+import Ingredient from '../models/ingredientModel'
+import Product from '../models/productModel'
+import { purgeCutoff, purgeDeleted } from '../scripts/purgeDeleted'
+import { useTestDatabase } from './db'
+import { addProduct } from './fixtures'
+
+describe('purgeCutoff', () => {
+	it('returns the date a number of days ago', () => {
+		expect(purgeCutoff(30, new Date('2024-03-31T12:00:00Z'))).toEqual(new Date('2024-03-01T12:00:00Z'))
+	})
+
+	it('rejects a negative or missing number of days', () => {
+		expect(() => purgeCutoff(-1)).toThrow('--days must be a number of zero or more')
+		expect(() => purgeCutoff(NaN)).toThrow('--days must be a number of zero or more')
+	})
+})
+
+describe('purgeDeleted', () => {
+	useTestDatabase()
+
+	it('purges products and ingredients deleted more than the number of days ago, recording them in the audit log', async () => {
+		const product = await addProduct()
+		const ingredient = await Ingredient.add({ name: 'Chicken' })
+		await Product.delete(product._id)
+		await Ingredient.delete(ingredient._id)
+
+		expect(await purgeDeleted({ days: 30 })).toEqual({ products: 0, ingredients: 0 })
+
+		const later = new Date(Date.now() + 31 * 24 * 60 * 60 * 1000)
+		expect(await purgeDeleted({ days: 30, now: later })).toEqual({ products: 1, ingredients: 1 })
+
+		const [purge] = await Audit.find({ entity: 'product', id: String(product._id) })
+		expect(purge).toMatchObject({ action: 'purge', reason: 'Deleted more than 30 days ago', after: null })
+	})
+})
@@ -0,0 +1,44 @@
+import { calculateQualityScore, positionWeight, RatedIngredient } from '../lib/qualityScore'
+
+function ratings(entries: [string, number | null][]) {
+	return new Map<string, RatedIngredient>(entries.map(([name, healthRating]) => [name, { name, healthRating }]))
+}
+
+describe('calculateQualityScore', () => {
+	it('weights ingredients listed first the most', () => {
+		expect(positionWeight(0)).toBe(1)
+		expect(positionWeight(1)).toBeLessThan(positionWeight(0))
+
+		const good = calculateQualityScore(['Salmon', 'Corn'], ratings([['Salmon', 10], ['Corn', -10]]))
+		const bad = calculateQualityScore(['Corn', 'Salmon'], ratings([['Salmon', 10], ['Corn', -10]]))
+
+		expect(good.score).toBeGreaterThan(0)
+		expect(bad.score).toBeLessThan(0)
+	})
+
+	it('leaves unrated ingredients out of the score and lowers the confidence', () => {
+		const result = calculateQualityScore(['Salmon', 'Mystery Meat'], ratings([['Salmon', 8], ['Mystery Meat', null]]))
+
+		expect(result.score).toBe(8)
+		expect(result.confidence).toBeCloseTo(1 / 1.85, 2)
+		expect(result.breakdown.map(i => i.rated)).toEqual([true, false])
+	})
+
+	it('counts toxic ingredients as the worst rating, even when unrated', () => {
+		const result = calculateQualityScore(['Salmon', 'Onion'], new Map<string, RatedIngredient>([
+			['Salmon', { name: 'Salmon', healthRating: 10 }],
+			['Onion', { name: 'Onion', healthRating: null, toxic: true }],
+		]))
+
+		expect(result.breakdown[1]).toMatchObject({ healthRating: -10, rated: true, toxic: true })
+		expect(result.confidence).toBe(1)
+		expect(result.score).toBeLessThan(10)
+	})
+
+	it('returns no score when nothing is rated', () => {
+		const result = calculateQualityScore(['Salmon'], ratings([]))
+
+		expect(result.score).toBeNull()
+		expect(result.confidence).toBe(0)
+	})
+})
@@ -0,0 +1,57 @@
+import { createExternalProvider, parseSuggestion, ratingProviderByName, ruleBasedProvider } from '../lib/ratingProviders'
+
+describe('ruleBasedProvider', () => {
+	it('rates ingredients by keyword and category, differently for each species', async () => {
+		const rate = async (name: string, species: 'cat' | 'dog' = 'cat', details = {}) =>
+			(await ruleBasedProvider.suggest({ name, ...details }, species))?.healthRating
+
+		expect(await rate('Deboned Chicken')).toBe(9)
+		expect(await rate('Chicken Liver')).toBe(9)
+		expect(await rate('Salmon Meal')).toBe(7)
+		expect(await rate('Chicken By-Product Meal')).toBe(-4)
+		expect(await rate('Meat and Bone Meal')).toBe(-3)
+		expect(await rate('Red 40')).toBe(-9)
+		expect(await rate('Corn Gluten Meal')).toBe(-5)
+		expect(await rate('Corn Gluten Meal', 'dog')).toBe(-2)
+		expect(await rate('Sweet Potato', 'dog', { category: 'vegetable' })).toBe(4)
+	})
+
+	it('gives ingredients toxic for the species the worst rating', async () => {
+		expect(await ruleBasedProvider.suggest({ name: 'Garlic', toxicFor: ['cat'] }, 'cat')).toEqual({ healthRating: -10, notes: 'Toxic for cats' })
+	})
+
+	it('leaves ingredients no rule matches unrated', async () => {
+		expect(await ruleBasedProvider.suggest({ name: 'Beet Pulp' }, 'cat')).toBeNull()
+	})
+})
+
+describe('createExternalProvider', () => {
+	it('asks the model with a prompt and reads the rating from its answer', async () => {
+		const prompts: string[] = []
+		const provider = createExternalProvider('stub-model', async prompt => {
+			prompts.push(prompt)
+			return 'Sure! {"healthRating": 6, "notes": "Digestible fiber"}'
+		})
+
+		expect(await provider.suggest({ name: 'Pumpkin', category: 'vegetable' }, 'dog')).toEqual({ healthRating: 6, notes: 'Digestible fiber' })
+		expect(prompts[0]).toContain('"Pumpkin"')
+		expect(prompts[0]).toContain('Category: vegetable')
+	})
+})
+
+describe('parseSuggestion', () => {
+	it('ignores answers without a rating on the scale', () => {
+		expect(parseSuggestion('I am not sure')).toBeNull()
+		expect(parseSuggestion('{"healthRating": 42}')).toBeNull()
+		expect(parseSuggestion('{"healthRating": "high"}')).toBeNull()
+		expect(parseSuggestion('{not json}')).toBeNull()
+	})
+})
+
+describe('ratingProviderByName', () => {
+	it('returns the provider for a name, or null for none', () => {
+		expect(ratingProviderByName()).toBeNull()
+		expect(ratingProviderByName('rules')).toBe(ruleBasedProvider)
+		expect(() => ratingProviderByName('magic')).toThrow("Unknown rating provider 'magic', expected one of none, rules")
+	})
+})
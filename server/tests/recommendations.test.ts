@@ -0,0 +1,25 @@
+import { rankCandidates } from '../lib/recommendations'
+
+const candidates = [
+	{ id: 'cheap', qualityScore: -5, dailyCost: 0.5 },
+	{ id: 'premium', qualityScore: 9, dailyCost: 2 },
+	{ id: 'unknown', qualityScore: null, dailyCost: 1 },
+]
+
+describe('rankCandidates', () => {
+	it('ranks by quality only with a quality weight of 1', () => {
+		expect(rankCandidates(candidates, 1).map(c => c.id)).toEqual(['premium', 'unknown', 'cheap'])
+	})
+
+	it('ranks by cost only with a quality weight of 0', () => {
+		expect(rankCandidates(candidates, 0).map(c => c.id)).toEqual(['cheap', 'unknown', 'premium'])
+	})
+
+	it('numbers the ranks and rates quality and cost from 0 to 1', () => {
+		const ranked = rankCandidates(candidates, 0.5)
+
+		expect(ranked.map(c => c.rank)).toEqual([1, 2, 3])
+		expect(ranked.find(c => c.id === 'unknown')!.qualityRating).toBe(0.5)
+		expect(ranked.find(c => c.id === 'cheap')!.costRating).toBe(1)
+	})
+})
@@ -0,0 +1,480 @@
+import request from 'supertest'
+import app from '../app'
+import { useTestDatabase } from './db'
+import { authHeader, dryCatFood } from './fixtures'
+
+useTestDatabase()
+
+describe('API routes', () => {
+	// Changes to products and ingredients need an editor.
+	let auth: Record<string, string>
+
+	beforeEach(async () => {
+		auth = await authHeader('editor')
+	})
+
+	describe('/api/products', () => {
+		it('returns a single product by id, and an error response for an invalid id', async () => {
+			const { body: created } = await request(app).post('/api/products').set(auth).send(dryCatFood())
+
+			const found = await request(app).get(`/api/products?id=${created.id}`)
+			expect(found.body.flavor).toBe('Salmon')
+
+			const invalid = await request(app).get('/api/products?id=not-an-id')
+			expect(invalid.status).toBe(400)
+			expect(invalid.body).toHaveProperty('error')
+		})
+
+		it('adds a product and lists it with its quality score', async () => {
+			const created = await request(app).post('/api/products').set(auth).send(dryCatFood())
+			expect(created.status).toBe(201)
+			expect(created.body).toHaveProperty('qualityScore')
+
+			const listed = await request(app).get('/api/products?species=cat')
+
+			expect(listed.status).toBe(200)
+			expect(listed.body.total).toBe(1)
+			expect(listed.body.products[0]).toHaveProperty('qualityScore')
+			expect(listed.body.products[0].qualityBreakdown).toHaveLength(3)
+		})
+
+		it('pages through products with a cursor', async () => {
+			await request(app).post('/api/products').set(auth).send(dryCatFood({ flavor: 'A' }))
+			await request(app).post('/api/products').set(auth).send(dryCatFood({ flavor: 'B' }))
+			await request(app).post('/api/products').set(auth).send(dryCatFood({ flavor: 'C' }))
+
+			const first = await request(app).get('/api/products?limit=2')
+			expect(first.body.products.map((p: any) => p.flavor)).toEqual(['A', 'B'])
+
+			const second = await request(app).get(`/api/products?limit=2&cursor=${first.body.nextCursor}`)
+			expect(second.body.products.map((p: any) => p.flavor)).toEqual(['C'])
+			expect(second.body.nextCursor).toBeNull()
+		})
+
+		it('requires a pet to sort by cost per day', async () => {
+			const res = await request(app).get('/api/products?sort=costPerDay')
+			expect(res.status).toBe(400)
+		})
+
+		it('rejects invalid products with every failing field', async () => {
+			const res = await request(app).post('/api/products').set(auth).send(dryCatFood({ species: 'cow', sizes: [{ packaging: 'bag', price: -1, count: 1, unit: 'lb' }] }))
+
+			expect(res.status).toBe(400)
+			expect(res.body.issues.map((issue: any) => issue.field)).toEqual(['species', 'sizes[0].price'])
+		})
+
+		it('rejects invalid query parameters', async () => {
+			const res = await request(app).get('/api/products?lifeStage=senior')
+			expect(res.status).toBe(400)
+		})
+
+		it('returns 409 for a duplicate product', async () => {
+			await request(app).post('/api/products').set(auth).send(dryCatFood())
+			const res = await request(app).post('/api/products').set(auth).send(dryCatFood())
+
+			expect(res.status).toBe(409)
+		})
+
+		it('gets, updates and deletes a product by id', async () => {
+			const { body: product } = await request(app).post('/api/products').set(auth).send(dryCatFood())
+
+			const fetched = await request(app).get(`/api/products/${product.id}`)
+			expect(fetched.body.flavor).toBe('Salmon')
+
+			const updated = await request(app).patch(`/api/products/${product.id}`).set(auth).send({ flavor: 'Tuna' })
+			expect(updated.body.flavor).toBe('Tuna')
+
+			const deleted = await request(app).delete(`/api/products/${product.id}`).set(auth)
+			expect(deleted.status).toBe(200)
+
+			const missing = await request(app).get(`/api/products/${product.id}`)
+			expect(missing.status).toBe(404)
+		})
+
+		it('finds deleted products with includeDeleted and restores them', async () => {
+			const { body: product } = await request(app).post('/api/products').set(auth).send(dryCatFood())
+			await request(app).delete(`/api/products/${product.id}`).set(auth)
+
+			const listed = await request(app).get('/api/products?includeDeleted=true')
+			expect(listed.body.products.map((p: any) => p.deletedBy)).toEqual(['editor@example.com'])
+
+			const restored = await request(app).post(`/api/products/${product.id}/restore`).set(auth)
+			expect(restored.status).toBe(200)
+
+			const fetched = await request(app).get(`/api/products/${product.id}`)
+			expect(fetched.status).toBe(200)
+		})
+
+		it('returns 400 when there is nothing to update', async () => {
+			const { body: product } = await request(app).post('/api/products').set(auth).send(dryCatFood())
+			const res = await request(app).patch(`/api/products/${product.id}`).set(auth).send({})
+
+			expect(res.status).toBe(400)
+			expect(res.body.error).toBe('No updates provided')
+		})
+
+		it('manages the sizes of a product', async () => {
+			const { body: product } = await request(app).post('/api/products').set(auth).send(dryCatFood())
+
+			const added = await request(app).post(`/api/products/${product.id}/sizes`).set(auth).send({ packaging: 'bag', price: 70, count: 25, unit: 'lb' })
+			expect(added.status).toBe(201)
+			expect(added.body.sizes[2].priceStats).toMatchObject({ current: 70 })
+			expect(added.body.sizes[2]).not.toHaveProperty('priceHistory')
+
+			const sizeId = added.body.sizes[2]._id
+
+			const updated = await request(app).patch(`/api/products/${product.id}/sizes/${sizeId}`).set(auth).send({ price: 60 })
+			expect(updated.body.sizes[2].price).toBe(60)
+
+			const removed = await request(app).delete(`/api/products/${product.id}/sizes/${sizeId}`).set(auth)
+			expect(removed.body.sizes).toHaveLength(2)
+
+			const missing = await request(app).delete(`/api/products/${product.id}/sizes/${sizeId}`).set(auth)
+			expect(missing.status).toBe(404)
+		})
+
+		it('calculates the cost per day for a pet', async () => {
+			const { body: product } = await request(app).post('/api/products').set(auth).send(dryCatFood())
+
+			const res = await request(app).get(`/api/products/${product.id}/cost?weight=8&age=3`)
+
+			expect(res.status).toBe(200)
+			expect(res.body.costs).toHaveLength(2)
+			expect(res.body.costs[1].monthly.min).toBeCloseTo(12.17)
+		})
+
+		it('adds retailer offers to a size and returns the best one', async () => {
+			const { body: product } = await request(app).post('/api/products').set(auth).send(dryCatFood())
+			const sizeId = product.sizes[0]._id
+			const offers = [
+				{ retailer: 'chewy', url: 'https://chewy.example/salmon', price: 22, subscribeDiscount: 10 },
+				{ retailer: 'petco', url: 'https://petco.example/salmon', price: 19, shipping: 5 },
+			]
+
+			const res = await request(app).patch(`/api/products/${product.id}/sizes/${sizeId}`).set(auth).send({ offers })
+			expect(res.status).toBe(200)
+			expect(res.body.sizes[0].offers).toHaveLength(2)
+
+			const fetched = await request(app).get(`/api/products/${product.id}`)
+			expect(fetched.body.sizes[0].bestOffer).toMatchObject({ retailer: 'chewy', inStock: true })
+
+			const invalid = await request(app).patch(`/api/products/${product.id}/sizes/${sizeId}`).set(auth).send({ offers: [{ retailer: 'chewy' }] })
+			expect(invalid.status).toBe(400)
+		})
+
+		it('imports a JSON catalog, validating every row and handling duplicates', async () => {
+			await request(app).post('/api/products').set(auth).send(dryCatFood())
+
+			const catalog = [dryCatFood({ cupsPerLb: 5 }), dryCatFood({ flavor: 'Tuna' }), dryCatFood({ flavor: 'Chicken', species: 'hamster' })]
+
+			const failed = await request(app).post('/api/products/import').set(auth).send(catalog)
+			expect(failed.status).toBe(200)
+			expect(failed.body.results.map((r: any) => [r.row, r.status])).toEqual([[1, 'failed'], [2, 'created'], [3, 'invalid']])
+			expect(failed.body.results[0].error).toBe('Product already exists')
+			expect(failed.body.results[2].issues[0].field).toBe('species')
+
+			const updated = await request(app).post('/api/products/import?onDuplicate=update').set(auth).send(catalog.slice(0, 2))
+			expect(updated.body).toMatchObject({ created: 0, updated: 2, skipped: 0 })
+
+			const skipped = await request(app).post('/api/products/import?onDuplicate=skip').set(auth).send(catalog.slice(0, 1))
+			expect(skipped.body.results[0].status).toBe('skipped')
+
+			const listed = await request(app).get('/api/products?flavor=Salmon')
+			expect(listed.body.products[0].cupsPerLb).toBe(5)
+		})
+
+		it('exports the catalog as CSV and imports it again', async () => {
+			await request(app).post('/api/products').set(auth).send(dryCatFood())
+
+			const exported = await request(app).get('/api/products/export?format=csv')
+			expect(exported.status).toBe(200)
+			expect(exported.headers['content-type']).toMatch(/text\/csv/)
+
+			// Import the exported catalog as a new product.
+			const csv = exported.text.replace(/Salmon/g, 'Trout')
+			const imported = await request(app).post('/api/products/import').set(auth).set('Content-Type', 'text/csv').send(csv)
+
+			expect(imported.body.created).toBe(1)
+
+			const json = await request(app).get('/api/products/export')
+			expect(json.body.map((p: any) => p.flavor).sort()).toEqual(['Salmon', 'Trout'])
+			expect(json.body.find((p: any) => p.flavor === 'Trout').sizes).toHaveLength(2)
+		})
+
+		it('keeps the offers and price history of sizes when a CSV export is imported again', async () => {
+			const { body: product } = await request(app).post('/api/products').set(auth).send(dryCatFood())
+			const sizeId = product.sizes[0]._id
+			const offers = [{ retailer: 'chewy', url: 'https://chewy.com/salmon', price: 18 }]
+
+			await request(app).patch(`/api/products/${product.id}/sizes/${sizeId}`).set(auth).send({ price: 19, offers })
+
+			// Import the exported catalog with a new price for the first size.
+			const exported = await request(app).get('/api/products/export?format=csv')
+			const csv = exported.text.replace(',19,', ',21,')
+			const imported = await request(app).post('/api/products/import?onDuplicate=update').set(auth).set('Content-Type', 'text/csv').send(csv)
+			expect(imported.body.updated).toBe(1)
+
+			const fetched = await request(app).get(`/api/products/${product.id}`)
+			expect(fetched.body.sizes[0]).toMatchObject({ _id: sizeId, price: 21, offers: [expect.objectContaining({ retailer: 'chewy' })] })
+
+			const history = await request(app).get(`/api/products/${product.id}/sizes/${sizeId}/price-history`)
+			expect(history.body.history.map((record: any) => [record.price, record.source])).toEqual([[20, 'manual'], [19, 'manual'], [21, 'import']])
+		})
+
+		it('only allows catalog imports to be larger than other requests', async () => {
+			const large = [{ brand: 'x'.repeat(200_000) }]
+
+			const imported = await request(app).post('/api/products/import').set(auth).send(large)
+			expect(imported.status).toBe(200)
+			expect(imported.body.invalid).toBe(1)
+
+			const added = await request(app).post('/api/products').set(auth).send(large[0])
+			expect(added.status).toBe(413)
+		})
+
+		it('rejects an import that is not a catalog', async () => {
+			const res = await request(app).post('/api/products/import').set(auth).send({ brand: 'Purrfect' })
+
+			expect(res.status).toBe(400)
+			expect(res.body.error).toBe('Expected an array of products')
+		})
+
+		it('returns the price history of a size and price stats on the product', async () => {
+			const { body: product } = await request(app).post('/api/products').set(auth).send(dryCatFood())
+			const sizeId = product.sizes[0]._id
+
+			await request(app).patch(`/api/products/${product.id}/sizes/${sizeId}`).set(auth).send({ price: 25, priceSource: 'petco' })
+
+			const history = await request(app).get(`/api/products/${product.id}/sizes/${sizeId}/price-history`)
+			expect(history.status).toBe(200)
+			expect(history.body.history.map((record: any) => record.source)).toEqual(['manual', 'petco'])
+
+			const fetched = await request(app).get(`/api/products/${product.id}`)
+			expect(fetched.body.sizes[0].priceStats).toMatchObject({ current: 25, low90Day: 20, aboveLow90Day: 5 })
+		})
+
+		it('records the prices of imported products with the import source', async () => {
+			const { body: product } = await request(app).post('/api/products').set(auth).send(dryCatFood())
+
+			const catalog = [dryCatFood({ sizes: [{ ...dryCatFood().sizes[0], price: 22 }] })]
+			const imported = await request(app).post('/api/products/import?onDuplicate=update').set(auth).send(catalog)
+			expect(imported.body.updated).toBe(1)
+
+			const history = await request(app).get(`/api/products/${product.id}/sizes/${product.sizes[0]._id}/price-history`)
+			expect(history.body.history.map((record: any) => [record.price, record.source])).toEqual([[20, 'manual'], [22, 'import']])
+		})
+
+		it('returns 400 when no feeding chart row covers the pet', async () => {
+			const { body: product } = await request(app).post('/api/products').set(auth).send(dryCatFood())
+			const res = await request(app).get(`/api/products/${product.id}/cost?weight=50&age=3`)
+
+			expect(res.status).toBe(400)
+		})
+	})
+
+	describe('/api/recommendations', () => {
+		it('ranks products for a pet', async () => {
+			await request(app).post('/api/products').set(auth).send(dryCatFood())
+
+			const res = await request(app).get('/api/recommendations?species=cat&lifeStage=adult&age=3&weight=8')
+
+			expect(res.status).toBe(200)
+			expect(res.body.results).toHaveLength(1)
+			expect(res.body.results[0].rank).toBe(1)
+		})
+
+		it('explains which ingredients excluded a product', async () => {
+			await request(app).post('/api/ingredients').set(auth).send({ name: 'Brown Rice', tags: ['grain'] })
+			await request(app).post('/api/products').set(auth).send(dryCatFood())
+
+			const res = await request(app).get('/api/recommendations?species=cat&lifeStage=adult&age=3&weight=8&excludesCategories=grain')
+
+			expect(res.status).toBe(200)
+			expect(res.body.results).toHaveLength(0)
+			expect(res.body.excluded[0].reasons).toEqual([{ ingredient: 'Brown Rice', excludedBy: 'category', match: 'grain' }])
+		})
+
+		it('requires the pet profile', async () => {
+			const res = await request(app).get('/api/recommendations?species=cat')
+
+			expect(res.status).toBe(400)
+			expect(res.body.issues.map((issue: any) => issue.field)).toEqual(['lifeStage', 'age', 'weight'])
+		})
+	})
+
+	describe('/api/pets', () => {
+		it('saves a pet and recommends products for it', async () => {
+			await request(app).post('/api/products').set(auth).send(dryCatFood())
+
+			const created = await request(app).post('/api/pets').send({ name: 'Mochi', species: 'cat', age: 3, weight: 8, lifeStage: 'adult' })
+			expect(created.status).toBe(201)
+
+			const res = await request(app).get(`/api/pets/${created.body._id}/recommendations?qualityWeight=0.8`)
+
+			expect(res.status).toBe(200)
+			expect(res.body.results).toHaveLength(1)
+		})
+
+		it('rejects invalid pets', async () => {
+			const res = await request(app).post('/api/pets').send({ name: 'Mochi', species: 'cat', age: -1, weight: 8, lifeStage: 'all' })
+
+			expect(res.status).toBe(400)
+			expect(res.body.issues.map((issue: any) => issue.field)).toEqual(['age', 'lifeStage'])
+		})
+
+		it('returns 404 for a missing pet', async () => {
+			const res = await request(app).get('/api/pets/000000000000000000000000')
+			expect(res.status).toBe(404)
+		})
+	})
+
+	describe('/api/ingredients', () => {
+		it('adds, rates and lists ingredients', async () => {
+			const { body: ingredient } = await request(app).post('/api/ingredients').set(auth).send({ name: 'Salmon' })
+
+			const unrated = await request(app).get('/api/ingredients/unrated?species=cat')
+			expect(unrated.body.map((i: any) => i.name)).toEqual(['Salmon'])
+
+			const rated = await request(app).post(`/api/ingredients/${ingredient._id}/ratings`).set(auth).send({ species: 'cat', healthRating: 9 })
+			expect(rated.status).toBe(201)
+
+			const found = await request(app).get('/api/ingredients?species=cat&minRating=5')
+			expect(found.body.map((i: any) => i.name)).toEqual(['Salmon'])
+		})
+
+		it('rejects health ratings out of range', async () => {
+			const res = await request(app).post('/api/ingredients').set(auth).send({ name: 'Salmon', ratings: [{ species: 'cat', healthRating: 11 }] })
+			expect(res.status).toBe(400)
+		})
+
+		it('does not replace ratings when updating an ingredient', async () => {
+			const { body: corn } = await request(app).post('/api/ingredients').set(auth).send({ name: 'Corn' })
+
+			const res = await request(app).patch(`/api/ingredients/${corn._id}`).set(auth)
+				.send({ tags: ['grain'], ratings: [{ species: 'cat', healthRating: 5 }] })
+			expect(res.status).toBe(400)
+
+			const found = await request(app).get(`/api/ingredients/${corn._id}`)
+			expect(found.body).toMatchObject({ tags: [], ratings: [] })
+		})
+
+		it('merges duplicates', async () => {
+			const { body: primary } = await request(app).post('/api/ingredients').set(auth).send({ name: 'Blueberry' })
+			const { body: duplicate } = await request(app).post('/api/ingredients').set(auth).send({ name: 'Blue Berry' })
+
+			const res = await request(app).post(`/api/ingredients/${primary._id}/merge`).set(auth).send({ duplicateId: duplicate._id })
+
+			expect(res.status).toBe(200)
+			expect(res.body.aliases).toEqual(['Blue Berry'])
+		})
+
+		it('lets reviewers propose ratings for editors to approve', async () => {
+			await request(app).post('/api/products').set(auth).send(dryCatFood())
+			const reviewer = await authHeader('reviewer')
+
+			const queue = await request(app).get('/api/ingredients/review?species=cat')
+			expect(queue.body.map((i: any) => [i.name, i.productCount])).toEqual([['Brown Rice', 1], ['Corn Gluten Meal', 1], ['Salmon', 1]])
+
+			const proposed = await request(app).post(`/api/ingredients/${queue.body[0].id}/proposals`).set(reviewer).send({ species: 'cat', healthRating: 3 })
+			expect(proposed.status).toBe(201)
+			expect(proposed.body.ratings[0].status).toBe('proposed')
+
+			const notAllowed = await request(app).post(`/api/ingredients/${queue.body[0].id}/proposals/${proposed.body.proposals[0]._id}/approve`).set(reviewer)
+			expect(notAllowed.status).toBe(403)
+
+			const approved = await request(app).post(`/api/ingredients/${queue.body[0].id}/proposals/${proposed.body.proposals[0]._id}/approve`).set(auth)
+			expect(approved.status).toBe(200)
+			expect(approved.body.ratings[0]).toMatchObject({ healthRating: 3, status: 'approved', reviewedBy: 'editor@example.com' })
+		})
+	})
+
+	describe('/api/audit', () => {
+		it('shows how a rating changed and reverts it', async () => {
+			const { body: corn } = await request(app).post('/api/ingredients').set(auth).send({ name: 'Corn', ratings: [{ species: 'cat', healthRating: -2 }] })
+
+			await request(app).patch(`/api/ingredients/${corn._id}/ratings/cat`).set(auth).set('X-Change-Reason', 'New digestibility study')
+				.send({ healthRating: -5 })
+
+			const history = await request(app).get(`/api/audit?entity=ingredient&id=${corn._id}&field=ratings`).set(auth)
+			expect(history.status).toBe(200)
+			expect(history.body).toHaveLength(1)
+			expect(history.body[0]).toMatchObject({
+				actor: 'editor@example.com',
+				reason: 'New digestibility study',
+				changes: [{ path: 'ratings.0.healthRating', before: -2, after: -5 }],
+			})
+
+			const reverted = await request(app).post(`/api/audit/${history.body[0]._id}/revert`).set(auth)
+			expect(reverted.status).toBe(200)
+			expect(reverted.body.ratings[0].healthRating).toBe(-2)
+		})
+
+		it('needs an account to read and an editor to revert', async () => {
+			const anonymous = await request(app).get('/api/audit')
+			expect(anonymous.status).toBe(401)
+
+			const viewer = await authHeader('viewer')
+			const listed = await request(app).get('/api/audit').set(viewer)
+			expect(listed.status).toBe(200)
+
+			const revert = await request(app).post(`/api/audit/${'0'.repeat(24)}/revert`).set(viewer)
+			expect(revert.status).toBe(403)
+		})
+	})
+
+	describe('access', () => {
+		it('leaves reads public but requires an editor to change products and ingredients', async () => {
+			const listed = await request(app).get('/api/products')
+			expect(listed.status).toBe(200)
+
+			const anonymous = await request(app).post('/api/products').send(dryCatFood())
+			expect(anonymous.status).toBe(401)
+
+			const viewer = await request(app).post('/api/ingredients').set(await authHeader('viewer')).send({ name: 'Salmon' })
+			expect(viewer.status).toBe(403)
+
+			const invalid = await request(app).delete('/api/ingredients/123').set({ Authorization: 'Bearer not.a.token' })
+			expect(invalid.status).toBe(401)
+		})
+	})
+
+	describe('/api/auth', () => {
+		it('logs in with an email and password and returns the user for the token', async () => {
+			await authHeader('viewer')
+
+			const wrong = await request(app).post('/api/auth/login').send({ email: 'viewer@example.com', password: 'wrong password' })
+			expect(wrong.status).toBe(401)
+
+			const login = await request(app).post('/api/auth/login').send({ email: 'Viewer@Example.com', password: 'correct horse battery' })
+			expect(login.status).toBe(200)
+			expect(login.body.user).not.toHaveProperty('passwordHash')
+
+			const me = await request(app).get('/api/auth/me').set({ Authorization: `Bearer ${login.body.token}` })
+			expect(me.body).toMatchObject({ email: 'viewer@example.com', role: 'viewer' })
+		})
+	})
+
+	describe('/api/users', () => {
+		it('lets admins manage users', async () => {
+			const admin = await authHeader('admin')
+
+			const created = await request(app).post('/api/users').set(admin).send({ email: 'new@example.com', password: 'long enough', role: 'editor' })
+			expect(created.status).toBe(201)
+			expect(created.body).not.toHaveProperty('passwordHash')
+
+			const short = await request(app).post('/api/users').set(admin).send({ email: 'short@example.com', password: 'short' })
+			expect(short.status).toBe(400)
+
+			const updated = await request(app).patch(`/api/users/${created.body._id}`).set(admin).send({ role: 'viewer' })
+			expect(updated.body.role).toBe('viewer')
+
+			const listed = await request(app).get('/api/users?role=viewer').set(admin)
+			expect(listed.body.map((user: any) => user.email)).toEqual(['new@example.com'])
+		})
+
+		it('is only for admins', async () => {
+			const res = await request(app).get('/api/users').set(auth)
+			expect(res.status).toBe(403)
+		})
+	})
+})
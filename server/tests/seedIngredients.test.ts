@@ -0,0 +1,112 @@
+import fs from 'fs'
+import path from 'path'
+import { groupSeedEntries, planSeed, SeedEntry } from '../scripts/seedIngredients'
+
+const file: SeedEntry[] = [
+	{ name: 'Salmon', ratings: [{ species: 'cat', healthRating: 10, notes: null }] },
+	{ name: 'Corn', ratings: [{ species: 'cat', healthRating: -4, notes: null }] },
+	{ name: 'Peas', ratings: [{ species: 'cat', healthRating: 2, notes: null }] },
+	{ name: 'Garlic', ratings: [{ species: 'cat', healthRating: -10, notes: 'Toxic' }] },
+]
+
+const database: SeedEntry[] = [
+	{ name: 'Salmon', ratings: [{ species: 'cat', healthRating: 10, notes: null }] },
+	{ name: 'Corn', ratings: [{ species: 'cat', healthRating: -2, notes: null }] },
+	{ name: 'Peas', ratings: [{ species: 'cat', healthRating: null, notes: null }] },
+]
+
+describe('planSeed', () => {
+	it('creates missing ratings, fills in unknown ratings and leaves matching ratings alone', () => {
+		const changes = planSeed(file, database, 'db')
+
+		expect(changes.map(change => [change.name, change.action, change.conflict])).toEqual([
+			['Salmon', 'unchanged', false],
+			['Corn', 'unchanged', true],
+			['Peas', 'update', false],
+			['Garlic', 'create', false],
+		])
+	})
+
+	it('lets the file win conflicts when preferred', () => {
+		const corn = planSeed(file, database, 'file').find(change => change.name === 'Corn')!
+
+		expect(corn.action).toBe('update')
+		expect(corn.current!.healthRating).toBe(-2)
+		expect(corn.seed.healthRating).toBe(-4)
+	})
+
+	it('matches entries to ingredients spelled differently or listed under an alias', () => {
+		const existing: SeedEntry[] = [
+			{ name: 'Beef liver', ratings: [{ species: 'cat', healthRating: 10, notes: null }] },
+			{ name: 'Cod', ratings: [{ species: 'cat', healthRating: 8, notes: null }] },
+			{ name: 'Pollock', aliases: ['Alaska Pollock'], ratings: [{ species: 'cat', healthRating: 9, notes: null }] },
+		]
+		const entries: SeedEntry[] = [
+			{ name: 'Beef Liver', ratings: [{ species: 'cat', healthRating: 10, notes: null }] },
+			{ name: 'Deboned Cod', ratings: [{ species: 'cat', healthRating: 10, notes: null }] },
+			{ name: 'Alaska Pollock', ratings: [{ species: 'cat', healthRating: 9, notes: null }] },
+		]
+
+		const changes = planSeed(entries, existing, 'db')
+
+		expect(changes.map(change => [change.name, change.action, change.conflict])).toEqual([
+			['Beef Liver', 'unchanged', false],
+			['Deboned Cod', 'unchanged', true],
+			['Alaska Pollock', 'unchanged', false],
+		])
+	})
+
+	it('plans entries for the same ingredient once', () => {
+		const entries: SeedEntry[] = [
+			{ name: 'Peas', ratings: [{ species: 'cat', healthRating: 6, notes: null }] },
+			{ name: 'Whole Peas', ratings: [{ species: 'cat', healthRating: 6, notes: null }, { species: 'dog', healthRating: 7, notes: null }] },
+		]
+
+		const changes = planSeed(entries, [], 'db')
+
+		expect(changes.map(change => [change.name, change.species, change.action])).toEqual([['Peas', 'cat', 'create'], ['Peas', 'dog', 'create']])
+	})
+
+	it('plans entries spelled differently or listed under an alias of each other once', () => {
+		const entries: SeedEntry[] = [
+			{ name: 'Beef Liver', ratings: [{ species: 'cat', healthRating: 10, notes: null }] },
+			{ name: 'beef liver', ratings: [{ species: 'cat', healthRating: 10, notes: null }] },
+			{ name: 'Deboned Cod', ratings: [{ species: 'cat', healthRating: 10, notes: null }] },
+			{ name: 'Cod', ratings: [{ species: 'cat', healthRating: 10, notes: null }] },
+			{ name: 'Pollock', aliases: ['Alaska Pollock'], ratings: [{ species: 'cat', healthRating: 9, notes: null }] },
+			{ name: 'Alaska Pollock', ratings: [{ species: 'cat', healthRating: 9, notes: null }] },
+		]
+		const existing: SeedEntry[] = [{ name: 'Cod', ratings: [{ species: 'cat', healthRating: 10, notes: null }] }]
+
+		const changes = planSeed(entries, existing, 'db')
+
+		expect(changes.map(change => [change.name, change.action])).toEqual([
+			['Beef Liver', 'create'],
+			['Deboned Cod', 'unchanged'],
+			['Pollock', 'create'],
+		])
+	})
+
+	it('throws if entries for the same ingredient have different ratings', () => {
+		const entries: SeedEntry[] = [
+			{ name: 'Folic Acid (Vitamin B9)', ratings: [{ species: 'cat', healthRating: 8, notes: null }] },
+			{ name: 'Folic Acid', ratings: [{ species: 'cat', healthRating: 7, notes: null }] },
+		]
+
+		expect(() => planSeed(entries, [], 'file'))
+			.toThrow("Seed entries 'Folic Acid (Vitamin B9)' and 'Folic Acid' are the same ingredient with different cat ratings")
+	})
+
+	it('has one entry per ingredient in lib/ingredients.json', () => {
+		const entries: SeedEntry[] = JSON.parse(fs.readFileSync(path.join(__dirname, '../lib/ingredients.json'), 'utf8'))
+
+		expect(groupSeedEntries(entries)).toHaveLength(entries.length)
+	})
+
+	it('fills in ratings suggested by a rating provider without a conflict', () => {
+		const suggested: SeedEntry[] = [{ name: 'Corn', ratings: [{ species: 'cat', healthRating: -5, notes: null, generatedBy: 'rules' }] }]
+		const [corn] = planSeed([file[1]], suggested, 'db')
+
+		expect([corn.action, corn.conflict]).toEqual(['update', false])
+	})
+})
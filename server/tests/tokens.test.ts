@@ -0,0 +1,27 @@
+import { signToken, verifyToken } from '../lib/tokens'
+
+const now = new Date('2024-06-01T12:00:00Z')
+
+describe('signToken and verifyToken', () => {
+	it('round-trips the user and role', () => {
+		const token = signToken({ sub: 'user-1', role: 'editor' }, 'secret', 60, now)
+
+		expect(verifyToken(token, 'secret', now)).toMatchObject({ sub: 'user-1', role: 'editor' })
+	})
+
+	it('rejects tokens signed with another secret or changed after signing', () => {
+		const token = signToken({ sub: 'user-1', role: 'viewer' }, 'secret', 60, now)
+		const [header, , signature] = token.split('.')
+		const forged = `${header}.${Buffer.from(JSON.stringify({ sub: 'user-1', role: 'admin', exp: 9999999999 })).toString('base64url')}.${signature}`
+
+		expect(() => verifyToken(token, 'other secret', now)).toThrow('Invalid token')
+		expect(() => verifyToken(forged, 'secret', now)).toThrow('Invalid token')
+		expect(() => verifyToken('nonsense', 'secret', now)).toThrow('Invalid token')
+	})
+
+	it('rejects expired tokens', () => {
+		const token = signToken({ sub: 'user-1', role: 'viewer' }, 'secret', 60, now)
+
+		expect(() => verifyToken(token, 'secret', new Date(now.getTime() + 61 * 1000))).toThrow('Token expired')
+	})
+})
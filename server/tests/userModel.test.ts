@@ -0,0 +1,64 @@
+import User from '../models/userModel'
+import { createAdmin } from '../scripts/createAdmin'
+import { useTestDatabase } from './db'
+
+useTestDatabase()
+
+describe('User', () => {
+	it('adds a user with a hashed password and authenticates them', async () => {
+		const user = await User.add('Editor@Example.com', 'correct horse battery', 'editor')
+
+		expect(user.email).toBe('editor@example.com')
+		expect(user.passwordHash).not.toContain('correct horse battery')
+		expect(user.toJSON()).not.toHaveProperty('passwordHash')
+
+		const authenticated = await User.authenticate('editor@example.com', 'correct horse battery')
+		expect(String(authenticated._id)).toBe(String(user._id))
+
+		await expect(User.authenticate('editor@example.com', 'wrong password')).rejects.toThrow('Invalid email or password')
+		await expect(User.authenticate('nobody@example.com', 'correct horse battery')).rejects.toThrow('Invalid email or password')
+	})
+
+	it('rejects a user that already exists', async () => {
+		await User.add('editor@example.com', 'correct horse battery')
+		await expect(User.add('EDITOR@example.com', 'another password')).rejects.toThrow('User already exists')
+	})
+
+	it('finds a user by email, ignoring case', async () => {
+		const user = await User.add('editor@example.com', 'correct horse battery')
+
+		expect(String((await User.findByEmail(' Editor@Example.com '))!._id)).toBe(String(user._id))
+		expect(await User.findByEmail('nobody@example.com')).toBeNull()
+	})
+
+	it('changes passwords and roles', async () => {
+		const user = await User.add('editor@example.com', 'correct horse battery', 'editor')
+		const updated = await User.update(String(user._id), { password: 'new password!', role: 'viewer' })
+
+		expect(updated?.role).toBe('viewer')
+		await expect(User.authenticate('editor@example.com', 'new password!')).resolves.toBeTruthy()
+	})
+
+	it('keeps at least one admin', async () => {
+		const admin = await User.add('admin@example.com', 'correct horse battery', 'admin')
+
+		await expect(User.update(String(admin._id), { role: 'editor' })).rejects.toThrow('Cannot remove the last admin')
+		await expect(User.delete(String(admin._id))).rejects.toThrow('Cannot remove the last admin')
+
+		await User.add('second@example.com', 'correct horse battery', 'admin')
+		await expect(User.delete(String(admin._id))).resolves.toBeTruthy()
+	})
+
+	describe('createAdmin', () => {
+		it('creates an admin or promotes an existing user', async () => {
+			const created = await createAdmin({ email: 'admin@example.com', password: 'correct horse battery' })
+			expect(created).toMatchObject({ action: 'created', user: { role: 'admin' } })
+
+			await User.add('editor@example.com', 'correct horse battery', 'editor')
+			const promoted = await createAdmin({ email: 'editor@example.com' })
+			expect(promoted).toMatchObject({ action: 'promoted', user: { role: 'admin' } })
+
+			await expect(createAdmin({ email: 'new@example.com' })).rejects.toThrow('Missing --password for a new user')
+		})
+	})
+})
@@ -0,0 +1,52 @@
+import { absent, lessOrEqual, Schema, validate } from '../lib/validation'
+
+const schema: Schema = {
+	fields: {
+		name: { type: 'string', required: true },
+		kind: { type: 'enum', values: ['a', 'b'] },
+		min: { type: 'number', min: 0 },
+		max: { type: 'number', max: 10, nullable: true },
+		tags: { type: 'array', items: { type: 'string', required: true } },
+	},
+	checks: [lessOrEqual('min', 'max')],
+}
+
+describe('validate', () => {
+	it('accepts a valid value', () => {
+		expect(validate(schema, { name: 'x', kind: 'a', min: 1, max: 2, tags: ['y'] })).toEqual([])
+	})
+
+	it('lists every failing field', () => {
+		expect(validate(schema, { kind: 'c', min: -1, max: 11, tags: ['y', 2] })).toEqual([
+			{ field: 'name', message: 'is required' },
+			{ field: 'kind', message: 'must be one of: a, b' },
+			{ field: 'min', message: 'must be at least 0' },
+			{ field: 'max', message: 'must be at most 10' },
+			{ field: 'tags[1]', message: 'must be a string' },
+		])
+	})
+
+	it('checks across fields once they are valid', () => {
+		expect(validate(schema, { name: 'x', min: 5, max: 2 })).toEqual([{ field: 'max', message: 'must be greater than or equal to min' }])
+	})
+
+	it('rejects fields that must be changed some other way', () => {
+		const update: Schema = { fields: { name: { type: 'string' } }, checks: [absent('ratings', 'must be changed through the ratings')] }
+		expect(validate(update, { name: 'x' }, { partial: true })).toEqual([])
+		expect(validate(update, { ratings: [] }, { partial: true })).toEqual([{ field: 'ratings', message: 'must be changed through the ratings' }])
+	})
+
+	it('allows missing fields in partial updates', () => {
+		expect(validate(schema, { min: 1 }, { partial: true })).toEqual([])
+	})
+
+	it('coerces query strings', () => {
+		expect(validate(schema, { name: 'x', min: '3', max: 'null' }, { coerce: true })).toEqual([])
+		expect(validate(schema, { name: 'x', min: 'three' }, { coerce: true })).toEqual([{ field: 'min', message: 'must be a number' }])
+	})
+
+	it('validates nested objects with their path', () => {
+		const nested: Schema = { fields: { items: { type: 'array', items: { type: 'object', schema } } } }
+		expect(validate(nested, { items: [{ name: 'x', min: 'y' }] })).toEqual([{ field: 'items[0].min', message: 'must be a number' }])
+	})
+})